@@ -0,0 +1,178 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { ImageProcessingOptions } from './types';
+
+/**
+ * File name of the incremental cache manifest written to the output directory.
+ */
+export const CACHE_MANIFEST_FILENAME = '.imgtool-cache.json';
+
+/**
+ * Version of the cache manifest layout; manifests with another version are ignored.
+ */
+const CACHE_MANIFEST_VERSION = 1;
+
+/**
+ * Cached state of one converted source file.
+ */
+export interface CacheEntry {
+  /** Source file size in bytes */
+  size: number;
+  /** Source modification time in milliseconds */
+  mtimeMs: number;
+  /** SHA-256 hash of the source content */
+  contentHash: string;
+  /** Hash of the effective processing options */
+  optionsHash: string;
+  /** Output paths written for the source, relative to the output directory */
+  outputs: string[];
+}
+
+/**
+ * Incremental cache manifest, keyed by source path relative to the input directory.
+ */
+export interface CacheManifest {
+  /** Manifest layout version */
+  version: number;
+  /** Cache entries by relative source path */
+  entries: Record<string, CacheEntry>;
+}
+
+/**
+ * Creates an empty cache manifest.
+ *
+ * @returns Empty CacheManifest
+ */
+export function createCacheManifest(): CacheManifest {
+  return { version: CACHE_MANIFEST_VERSION, entries: {} };
+}
+
+/**
+ * Loads the cache manifest from an output directory.
+ *
+ * A missing, unreadable or outdated manifest yields an empty one, so every
+ * file is converted again.
+ *
+ * @param outputDir - Output directory containing the manifest
+ * @returns Promise resolving to the CacheManifest
+ */
+export async function loadCacheManifest(outputDir: string): Promise<CacheManifest> {
+  try {
+    const content = await fs.readFile(path.join(outputDir, CACHE_MANIFEST_FILENAME), 'utf-8');
+    const manifest = JSON.parse(content) as CacheManifest;
+    if (manifest.version !== CACHE_MANIFEST_VERSION || typeof manifest.entries !== 'object') {
+      return createCacheManifest();
+    }
+    return manifest;
+  } catch {
+    return createCacheManifest();
+  }
+}
+
+/**
+ * Writes the cache manifest to an output directory.
+ *
+ * The manifest is written to a temporary file and renamed, so an interrupted
+ * run never leaves a truncated manifest behind.
+ *
+ * @param outputDir - Output directory receiving the manifest
+ * @param manifest - Manifest to write
+ */
+export async function saveCacheManifest(outputDir: string, manifest: CacheManifest): Promise<void> {
+  const manifestPath = path.join(outputDir, CACHE_MANIFEST_FILENAME);
+  const tempPath = `${manifestPath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(manifest, null, 2) + '\n');
+  await fs.rename(tempPath, manifestPath);
+}
+
+/**
+ * Serializes a value to JSON with object keys sorted, so equal values hash equally.
+ *
+ * @param value - Value to serialize
+ * @returns Stable JSON string
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hashes the effective processing options.
+ *
+ * @param options - Image processing options
+ * @param outputPath - Output path planned for the source (relative to the output
+ *   directory), so a changed template or flattening converts the source again
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function hashOptions(options: ImageProcessingOptions, outputPath?: string): string {
+  const hashed = outputPath === undefined ? options : { options, outputPath };
+  return createHash('sha256').update(stableStringify(hashed)).digest('hex');
+}
+
+/**
+ * Hashes the content of a file.
+ *
+ * @param filePath - File to hash
+ * @returns Promise resolving to the hex-encoded SHA-256 hash
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Checks whether a cached conversion is still valid for a source file.
+ *
+ * The source is unchanged when its size and mtime match, or when only the
+ * mtime differs but the content hash matches (e.g. after a fresh checkout).
+ * Every recorded output must also still exist.
+ *
+ * @param entry - Cached entry for the source, if any
+ * @param inputPath - Source file path
+ * @param stats - Current source file stats
+ * @param optionsHash - Hash of the current processing options
+ * @param outputDir - Output directory the entry's outputs are relative to
+ * @returns Promise resolving to true if the source can be skipped
+ */
+export async function isCacheEntryFresh(
+  entry: CacheEntry | undefined,
+  inputPath: string,
+  stats: { size: number; mtimeMs: number },
+  optionsHash: string,
+  outputDir: string
+): Promise<boolean> {
+  if (!entry || entry.optionsHash !== optionsHash || entry.size !== stats.size) {
+    return false;
+  }
+
+  if (entry.mtimeMs !== stats.mtimeMs) {
+    if ((await hashFile(inputPath)) !== entry.contentHash) {
+      return false;
+    }
+    // Content is unchanged; remember the new mtime to take the fast path next time
+    entry.mtimeMs = stats.mtimeMs;
+  }
+
+  for (const output of entry.outputs) {
+    try {
+      await fs.access(path.join(outputDir, output));
+    } catch {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -2,29 +2,91 @@
 
 import { Command } from 'commander';
 import * as fs from 'fs/promises';
+import type { AddressInfo } from 'net';
 import * as path from 'path';
 import { convertImages } from './index';
-import type { CliOptions } from './types';
-import { DEFAULT_QUALITY, normalizeFormat } from './config';
+import type {
+  CliOptions,
+  CollisionPolicy,
+  FitMode,
+  ImageComparison,
+  ImageInfo,
+  ImagePosition,
+  MetadataPolicy,
+  PlanFormat,
+  ProcessingSummary,
+  ProgressStats,
+  ReportFormat,
+  SourceAction,
+  WatchEvent,
+} from './types';
+import {
+  DEFAULT_QUALITY,
+  normalizeFormat,
+  parseByteSize,
+  validateProcessingOptions,
+} from './config';
+import { getDefaultConcurrency, mapWithConcurrency } from './concurrency';
+import { resolveVariantSpec } from './variants';
+import { watchDirectory } from './watch';
+import { validateEncoderOptions } from './encoders';
+import { DEFAULT_WATERMARK_ANCHOR, validateWatermarkOptions } from './watermark';
+import { resolvePipeline } from './pipeline';
+import {
+  FILE_OPTION_KEYS,
+  explainFileOptions,
+  getPreset,
+  resolveFileOptions,
+  resolveRules,
+  toRulePath,
+} from './rules';
+import { isInsideDirectory, removePartialOutputs } from './outputPaths';
+import { resolveConfig } from './configLoader';
+import {
+  DEFAULT_SERVE_HOST,
+  DEFAULT_SERVE_MAX_AGE,
+  DEFAULT_SERVE_MAX_DIMENSION,
+  DEFAULT_SERVE_PORT,
+  createImageServer,
+} from './server';
+import { REPORT_FORMATS, isReportFormat, writeReport } from './report';
+import { PLAN_FORMATS, formatPlan, isPlanFormat } from './plan';
+import { findValidatableFiles, getImageInfo, validateImageFile } from './inspect';
+import { compareImages } from './compare';
+import { SOURCE_ACTIONS, validateSourceOptions } from './sources';
+import { resolveInputFormats } from './sniff';
+import { FORMAT_CAPABILITIES, listFormats } from './formats';
+import {
+  COLLISION_POLICIES,
+  DEFAULT_OUTPUT_TEMPLATE,
+  isCollisionPolicy,
+  validateOutputTemplate,
+} from './naming';
 
 const program = new Command();
 
 /**
- * Loads configuration from a JSON file.
+ * Collects the values of a repeatable option.
  *
- * @param configPath - Path to the configuration file
- * @returns Promise resolving to partial CliOptions
+ * @param value - Value of the current occurrence
+ * @param previous - Values collected so far
+ * @returns All values in order
  */
-async function loadConfig(configPath: string): Promise<Partial<CliOptions>> {
-  try {
-    const content = await fs.readFile(configPath, 'utf-8');
-    const config = JSON.parse(content);
-    return config;
-  } catch (error) {
-    throw new Error(
-      `Failed to load config file: ${configPath}. ${error instanceof Error ? error.message : String(error)}`
-    );
+function collect(value: string, previous?: string[]): string[] {
+  return [...(previous ?? []), value];
+}
+
+/**
+ * Normalizes a pattern list that a config file may give as a single string.
+ *
+ * @param value - Pattern or list of patterns
+ * @returns List of patterns, or undefined if none were given
+ */
+function toPatternList(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
   }
+  return Array.isArray(value) ? value : [value];
 }
 
 /**
@@ -40,84 +102,364 @@ function formatFileSize(bytes: number): string {
 }
 
 /**
- * Main CLI function.
+ * Formats a duration as `m:ss`, or `h:mm:ss` from an hour.
+ *
+ * @param ms - Duration in milliseconds
+ * @returns Formatted duration
  */
-async function main(): Promise<void> {
-  program
-    .name('img-tool')
-    .description(
-      'A production-quality CLI tool for converting images between any supported formats with advanced transformation options'
-    )
-    .version('1.0.0')
-    .requiredOption('-i, --input <path>', 'Input file or directory path')
-    .requiredOption('-o, --output <path>', 'Output file or directory path')
-    .requiredOption(
-      '-f, --format <format>',
-      'Target output format (jpg, png, webp, gif, tiff, bmp, avif)'
-    )
-    .option('-w, --width <number>', 'Desired width in pixels', parseInt)
-    .option('-h, --height <number>', 'Desired height in pixels', parseInt)
-    .option('--min-width <number>', 'Minimum width constraint', parseInt)
-    .option('--min-height <number>', 'Minimum height constraint', parseInt)
-    .option('--max-width <number>', 'Maximum width constraint', parseInt)
-    .option('--max-height <number>', 'Maximum height constraint', parseInt)
-    .option('-q, --quality <1-100>', 'Output quality (1-100) for formats that support it', parseInt)
-    .option('--allow-upscale', 'Allow upscaling images beyond original dimensions', false)
-    .option('-r, --recursive', 'Process subdirectories recursively', false)
-    .option('--overwrite', 'Overwrite existing output files', false)
-    .option('--dry-run', 'Show what would be processed without writing files', false)
-    .option('-v, --verbose', 'Print detailed logs for each file', false)
-    .option('-s, --silent', 'Only print errors and summary', false)
-    .option('-c, --config <path>', 'Path to JSON configuration file')
-    .parse(process.argv);
-
-  const options = program.opts<{
-    input: string;
-    output: string;
-    format: string;
-    width?: number;
-    height?: number;
-    minWidth?: number;
-    minHeight?: number;
-    maxWidth?: number;
-    maxHeight?: number;
-    quality?: number;
-    allowUpscale?: boolean;
-    recursive?: boolean;
-    overwrite?: boolean;
-    dryRun?: boolean;
-    verbose?: boolean;
-    silent?: boolean;
-    config?: string;
-  }>();
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+}
 
+/**
+ * Formats a one-line progress bar with counts, bytes and the ETA.
+ *
+ * @param stats - Progress totals
+ * @returns Progress bar line
+ */
+function formatProgressBar(stats: ProgressStats): string {
+  const width = 24;
+  const ratio = stats.total > 0 ? stats.completed / stats.total : 1;
+  const filled = Math.round(ratio * width);
+  const bar = '█'.repeat(filled) + '░'.repeat(width - filled);
+  const failed = stats.failed > 0 ? `, ${stats.failed} failed` : '';
+  const eta =
+    stats.etaMs !== undefined && stats.completed < stats.total
+      ? `  ETA ${formatDuration(stats.etaMs)}`
+      : '';
+  return (
+    `[${bar}] ${stats.completed}/${stats.total} (${Math.round(ratio * 100)}%${failed})  ` +
+    `${formatFileSize(stats.bytesIn)} → ${formatFileSize(stats.bytesOut)}${eta}`
+  );
+}
+
+/**
+ * Prints a single watch mode event as a timestamped log line.
+ *
+ * @param event - Watch event to print
+ * @param options - CLI options controlling verbosity
+ */
+function logWatchEvent(event: WatchEvent, options: CliOptions): void {
+  const time = new Date().toLocaleTimeString();
+  if (event.type === 'removed') {
+    if (!options.silent) {
+      const deleted = event.deletedOutputs?.length
+        ? ` (deleted ${event.deletedOutputs.join(', ')})`
+        : '';
+      console.log(`[${time}] 🗑️  ${event.inputPath} removed${deleted}`);
+    }
+    return;
+  }
+
+  const result = event.result;
+  if (result?.filtered) {
+    if (options.verbose) {
+      console.log(`[${time}] 🚫 ${result.inputPath} filtered (${result.filterReason})`);
+    }
+  } else if (result?.skipped) {
+    if (!options.silent) {
+      console.log(`[${time}] ⏭️  ${result.inputPath} kept (${result.skipReason ?? 'unchanged'})`);
+    }
+  } else if (result?.success) {
+    if (!options.silent) {
+      const sizeChange =
+        result.originalSize && result.newSize
+          ? ` (${formatFileSize(result.originalSize)} → ${formatFileSize(result.newSize)})`
+          : '';
+      console.log(`[${time}] ✅ ${result.inputPath} → ${result.outputPath}${sizeChange}`);
+    }
+  } else {
+    console.error(`[${time}] ❌ ${event.inputPath}: ${result?.error ?? 'Unknown error'}`);
+  }
+}
+
+/**
+ * Prints the rules that match a file and its effective processing options.
+ *
+ * @param options - CLI options
+ * @param filePath - File to explain, relative to the current or input directory
+ */
+async function printExplanation(options: CliOptions, filePath: string): Promise<void> {
+  const input = path.resolve(options.input);
+  const inputIsDirectory = (await fs.stat(input).catch(() => null))?.isDirectory() ?? false;
+  const inputDir = inputIsDirectory ? input : path.dirname(input);
+  const resolved = path.resolve(filePath);
+  const relativePath = isInsideDirectory(inputDir, resolved)
+    ? toRulePath(inputDir, resolved)
+    : filePath.split(path.sep).join('/');
+
+  const { matches, options: effective, sources } = explainFileOptions(options, relativePath);
+  console.log(`File: ${relativePath}`);
+  console.log('Matching rules:');
+  if (matches.length === 0) {
+    console.log('  (none)');
+  }
+  for (const { index, rule } of matches) {
+    const preset = rule.preset !== undefined ? ` (preset "${rule.preset}")` : '';
+    console.log(`  rules[${index}]: ${rule.match.join(', ')}${preset}`);
+  }
+  console.log('Effective options:');
+  for (const key of FILE_OPTION_KEYS) {
+    const value = effective[key];
+    if (value === undefined || value === false) {
+      continue;
+    }
+    const source = sources[key] ? `  ← ${sources[key]}` : '';
+    console.log(`  ${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}${source}`);
+  }
+}
+
+/**
+ * Watches the input directory until the process is interrupted.
+ *
+ * @param options - CLI options
+ */
+async function startWatching(options: CliOptions): Promise<void> {
+  const handle = await watchDirectory(options, (event) => logWatchEvent(event, options));
+  if (!options.silent) {
+    console.log(`\n👀 Watching ${options.input} for changes (press Ctrl+C to stop)...`);
+  }
+
+  const stop = (): void => {
+    handle.close();
+    if (!options.silent) {
+      console.log('\nStopped watching.');
+    }
+    process.exit(0);
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+}
+
+/**
+ * Options parsed by the convert command.
+ */
+interface ConvertCommandOptions {
+  input: string;
+  output?: string;
+  format?: string;
+  width?: number;
+  height?: number;
+  minWidth?: number;
+  minHeight?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+  quality?: number;
+  maxSize?: string;
+  minQuality?: number;
+  shrinkToFit?: boolean;
+  targetSsim?: number;
+  fit?: string;
+  position?: string;
+  background?: string;
+  metadata?: string;
+  variants?: string;
+  variantManifest?: string;
+  frame?: number;
+  density?: number;
+  dumpFrames?: boolean;
+  watermark?: string;
+  watermarkText?: string;
+  pipeline?: string;
+  preset?: string;
+  explain?: string;
+  allowUpscale?: boolean;
+  keepIfLarger?: boolean;
+  recursive?: boolean;
+  anyExtension?: boolean;
+  inputFormats?: string;
+  include?: string[];
+  exclude?: string[];
+  onlyLargerThan?: string;
+  onlySmallerThan?: string;
+  minSourceWidth?: number;
+  minSourceHeight?: number;
+  maxSourceWidth?: number;
+  maxSourceHeight?: number;
+  outputTemplate?: string;
+  flatten?: boolean;
+  onCollision?: string;
+  concurrency?: number;
+  overwrite?: boolean;
+  inPlace?: boolean;
+  backup?: boolean;
+  sourceAction?: string;
+  archiveDir?: string;
+  incremental?: boolean;
+  watch?: boolean;
+  watchDelete?: boolean;
+  dryRun?: boolean;
+  verbose?: boolean;
+  silent?: boolean;
+  config?: string;
+  report?: string;
+  reportFormat?: string;
+  planFormat?: string;
+}
+
+/**
+ * Runs the convert command.
+ *
+ * @param options - Parsed convert command options
+ */
+async function runConvert(options: ConvertCommandOptions): Promise<void> {
   try {
-    // Load config file if provided
-    let configOptions: Partial<CliOptions> = {};
-    if (options.config) {
-      configOptions = await loadConfig(path.resolve(options.config));
+    // Config files discovered from the input (or --config), then IMGTOOL_* variables
+    let { options: configOptions } = await resolveConfig({
+      input: options.input,
+      configPath: options.config,
+    });
+
+    // A preset's options take the place of the config file's (CLI options still take precedence)
+    if (options.preset !== undefined) {
+      configOptions = {
+        ...configOptions,
+        ...getPreset(configOptions.presets, options.preset, configOptions.pipelines),
+      };
+    }
+    const rules =
+      configOptions.rules !== undefined
+        ? resolveRules(configOptions.rules, configOptions.presets, configOptions.pipelines)
+        : undefined;
+
+    // Byte budget may be given as a number of bytes or a string with a unit
+    const maxSize: string | number | undefined = options.maxSize ?? configOptions.maxSize;
+    const onlyLargerThan: string | number | undefined =
+      options.onlyLargerThan ?? configOptions.onlyLargerThan;
+    const onlySmallerThan: string | number | undefined =
+      options.onlySmallerThan ?? configOptions.onlySmallerThan;
+    const inputFormatList: string | string[] | undefined =
+      options.inputFormats ?? configOptions.inputFormats;
+    let inputFormats: string[] | undefined;
+    try {
+      inputFormats =
+        inputFormatList !== undefined ? resolveInputFormats(inputFormatList) : undefined;
+    } catch (error) {
+      console.error(
+        `Error: Invalid input formats: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+
+    // Resolve the variants spec (CLI string, or config string/object)
+    const variantSpec = options.variants ?? configOptions.variants;
+    const variants = variantSpec ? resolveVariantSpec(variantSpec) : undefined;
+
+    const variantManifest = options.variantManifest ?? configOptions.variantManifest;
+    if (variantManifest !== undefined && variantManifest !== 'html' && variantManifest !== 'json') {
+      console.error('Error: Variant manifest must be "html" or "json"');
+      process.exit(1);
     }
 
     // Merge config file options with CLI options (CLI takes precedence)
-    // Normalize format first
-    const normalizedFormat = normalizeFormat(options.format);
+    // Normalize format first; variants may supply it when no format is given
+    const format = options.format ?? configOptions.format ?? variants?.formats?.[0];
+
+    // --pipeline runs a named pipeline from the config file in place of its `pipeline`
+    const pipelineSteps =
+      options.pipeline !== undefined ? [options.pipeline] : configOptions.pipeline;
+    const pipeline =
+      pipelineSteps !== undefined
+        ? resolvePipeline(pipelineSteps, configOptions.pipelines ?? {})
+        : undefined;
+
+    // Watermark flags replace the config watermark's image or text, keeping its placement
+    const watermarkSource =
+      options.watermark !== undefined || options.watermarkText !== undefined
+        ? { image: options.watermark, text: options.watermarkText }
+        : undefined;
+    const watermark =
+      configOptions.watermark !== undefined || watermarkSource !== undefined
+        ? validateWatermarkOptions({ ...configOptions.watermark, ...watermarkSource })
+        : undefined;
+    if (!format) {
+      console.error('Error: A format is required (use --format or list formats in --variants)');
+      process.exit(1);
+    }
+    // In place, outputs go next to the sources instead of to --output
+    const inPlace = options.inPlace ?? configOptions.inPlace ?? false;
+    if (!inPlace && options.output === undefined) {
+      console.error(
+        'Error: An output path is required (use --output, or --in-place to replace the sources)'
+      );
+      process.exit(1);
+    }
+    if (inPlace && options.output !== undefined) {
+      console.error(
+        'Error: --in-place writes next to the sources and cannot be combined with --output'
+      );
+      process.exit(1);
+    }
+
+    const normalizedFormat = normalizeFormat(format);
     const cliOptions: CliOptions = {
       input: options.input,
-      output: options.output,
+      output: options.output ?? options.input,
       format: normalizedFormat,
+      variants,
+      variantManifest,
+      frame: options.frame ?? configOptions.frame,
+      density: options.density ?? configOptions.density,
+      dumpFrames: options.dumpFrames ?? configOptions.dumpFrames ?? false,
+      watermark,
+      pipeline,
+      rules,
       width: options.width ?? configOptions.width,
       height: options.height ?? configOptions.height,
       minWidth: options.minWidth ?? configOptions.minWidth,
       minHeight: options.minHeight ?? configOptions.minHeight,
       maxWidth: options.maxWidth ?? configOptions.maxWidth,
       maxHeight: options.maxHeight ?? configOptions.maxHeight,
-      quality: options.quality ?? configOptions.quality ?? DEFAULT_QUALITY,
+      quality: options.quality ?? configOptions.quality,
+      maxSize: maxSize !== undefined ? parseByteSize(maxSize) : undefined,
+      minQuality: options.minQuality ?? configOptions.minQuality,
+      shrinkToFit: options.shrinkToFit ?? configOptions.shrinkToFit ?? false,
+      targetSsim: options.targetSsim ?? configOptions.targetSsim,
       allowUpscale: options.allowUpscale ?? configOptions.allowUpscale ?? false,
+      keepIfLarger: options.keepIfLarger ?? configOptions.keepIfLarger ?? false,
+      encoders:
+        configOptions.encoders !== undefined
+          ? validateEncoderOptions(configOptions.encoders)
+          : undefined,
+      fit: (options.fit ?? configOptions.fit) as FitMode | undefined,
+      position: (options.position ?? configOptions.position) as ImagePosition | undefined,
+      background: options.background ?? configOptions.background,
+      metadata: (options.metadata ?? configOptions.metadata) as MetadataPolicy | undefined,
+      copyright: configOptions.copyright,
+      artist: configOptions.artist,
       recursive: options.recursive ?? configOptions.recursive ?? false,
+      anyExtension: options.anyExtension ?? configOptions.anyExtension ?? false,
+      inputFormats,
+      include: options.include ?? toPatternList(configOptions.include),
+      exclude: options.exclude ?? toPatternList(configOptions.exclude),
+      onlyLargerThan: onlyLargerThan !== undefined ? parseByteSize(onlyLargerThan) : undefined,
+      onlySmallerThan: onlySmallerThan !== undefined ? parseByteSize(onlySmallerThan) : undefined,
+      minSourceWidth: options.minSourceWidth ?? configOptions.minSourceWidth,
+      minSourceHeight: options.minSourceHeight ?? configOptions.minSourceHeight,
+      maxSourceWidth: options.maxSourceWidth ?? configOptions.maxSourceWidth,
+      maxSourceHeight: options.maxSourceHeight ?? configOptions.maxSourceHeight,
+      outputTemplate: options.outputTemplate ?? configOptions.outputTemplate,
+      flatten: options.flatten ?? configOptions.flatten ?? false,
+      onCollision: (options.onCollision ?? configOptions.onCollision ?? 'fail') as CollisionPolicy,
+      concurrency: options.concurrency ?? configOptions.concurrency ?? getDefaultConcurrency(),
       overwrite: options.overwrite ?? configOptions.overwrite ?? false,
+      inPlace,
+      backup: options.backup ?? configOptions.backup ?? false,
+      sourceAction: (options.sourceAction ?? configOptions.sourceAction ?? 'keep') as SourceAction,
+      archiveDir: options.archiveDir ?? configOptions.archiveDir,
+      incremental: options.incremental ?? configOptions.incremental ?? false,
+      watch: options.watch ?? configOptions.watch ?? false,
+      watchDelete: options.watchDelete ?? configOptions.watchDelete ?? false,
       dryRun: options.dryRun ?? configOptions.dryRun ?? false,
       verbose: options.verbose ?? configOptions.verbose ?? false,
       silent: options.silent ?? configOptions.silent ?? false,
+      report: options.report ?? configOptions.report,
+      reportFormat: (options.reportFormat ?? configOptions.reportFormat ?? 'json') as ReportFormat,
+      planFormat: (options.planFormat ?? configOptions.planFormat ?? 'text') as PlanFormat,
     };
 
     // Format is already normalized above, but validate it was successful
@@ -126,42 +468,154 @@ async function main(): Promise<void> {
       process.exit(1);
     }
 
-    // Validate quality range
-    if (cliOptions.quality !== undefined) {
-      if (cliOptions.quality < 1 || cliOptions.quality > 100) {
-        console.error('Error: Quality must be between 1 and 100');
+    // Validate processing options (quality, fit, position, metadata, constraints)
+    validateProcessingOptions(cliOptions);
+    for (const [index, rule] of (cliOptions.rules ?? []).entries()) {
+      try {
+        validateProcessingOptions({ ...cliOptions, ...rule.options });
+      } catch (error) {
+        throw new Error(
+          `rules[${index}]: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    // Validate concurrency
+    if (
+      cliOptions.concurrency !== undefined &&
+      (!Number.isInteger(cliOptions.concurrency) || cliOptions.concurrency < 1)
+    ) {
+      console.error('Error: Concurrency must be a positive integer');
+      process.exit(1);
+    }
+
+    // Validate source dimension filters
+    const sourceDimensions: [string, number | undefined][] = [
+      ['Minimum source width', cliOptions.minSourceWidth],
+      ['Minimum source height', cliOptions.minSourceHeight],
+      ['Maximum source width', cliOptions.maxSourceWidth],
+      ['Maximum source height', cliOptions.maxSourceHeight],
+    ];
+    for (const [label, value] of sourceDimensions) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        console.error(`Error: ${label} must be a positive integer`);
         process.exit(1);
       }
     }
 
-    // Validate dimension constraints
-    if (cliOptions.minWidth && cliOptions.maxWidth && cliOptions.minWidth > cliOptions.maxWidth) {
-      console.error('Error: min-width cannot be greater than max-width');
+    // Validate the watermark image exists before converting anything
+    if (cliOptions.watermark?.image) {
+      const watermarkStats = await fs
+        .stat(path.resolve(cliOptions.watermark.image))
+        .catch(() => null);
+      if (!watermarkStats?.isFile()) {
+        console.error(`Error: Watermark image not found: ${cliOptions.watermark.image}`);
+        process.exit(1);
+      }
+    }
+
+    // Validate output naming
+    if (cliOptions.outputTemplate !== undefined) {
+      validateOutputTemplate(cliOptions.outputTemplate, !!cliOptions.variants);
+    }
+    if (cliOptions.onCollision !== undefined && !isCollisionPolicy(cliOptions.onCollision)) {
+      console.error(`Error: Collision policy must be one of: ${COLLISION_POLICIES.join(', ')}`);
       process.exit(1);
     }
-    if (
-      cliOptions.minHeight &&
-      cliOptions.maxHeight &&
-      cliOptions.minHeight > cliOptions.maxHeight
-    ) {
-      console.error('Error: min-height cannot be greater than max-height');
+
+    // Validate report format
+    if (cliOptions.reportFormat !== undefined && !isReportFormat(cliOptions.reportFormat)) {
+      console.error(`Error: Report format must be one of: ${REPORT_FORMATS.join(', ')}`);
+      process.exit(1);
+    }
+    if (cliOptions.planFormat !== undefined && !isPlanFormat(cliOptions.planFormat)) {
+      console.error(`Error: Plan format must be one of: ${PLAN_FORMATS.join(', ')}`);
+      process.exit(1);
+    }
+    // A dry run writes nothing, so a report would be silently missing
+    if (cliOptions.dryRun && cliOptions.report) {
+      console.error(
+        'Error: --report cannot be combined with --dry-run (use --plan-format json to save the plan)'
+      );
       process.exit(1);
     }
 
-    // Dry run mode
+    // Validate the in-place and source action options
+    validateSourceOptions(cliOptions);
+
+    // Watch mode needs a directory to watch
+    if (cliOptions.watch) {
+      if (cliOptions.inPlace || cliOptions.sourceAction !== 'keep') {
+        console.error('Error: --watch cannot be combined with --in-place or --source-action');
+        process.exit(1);
+      }
+      const inputStats = await fs.stat(path.resolve(cliOptions.input)).catch(() => null);
+      if (!inputStats?.isDirectory()) {
+        console.error('Error: --watch requires the input to be a directory');
+        process.exit(1);
+      }
+    }
+
+    // Explain mode
+    if (options.explain !== undefined) {
+      await printExplanation(cliOptions, options.explain);
+      return;
+    }
+
+    // Dry run mode: plan every file without encoding or writing anything
     if (cliOptions.dryRun) {
-      if (!cliOptions.silent) {
+      const planFormat = cliOptions.planFormat ?? 'text';
+      if (planFormat === 'text' && !cliOptions.silent) {
         console.log('🔍 DRY RUN MODE - No files will be written\n');
         console.log(`Input: ${cliOptions.input}`);
-        console.log(`Output: ${cliOptions.output}`);
+        console.log(
+          `Output: ${cliOptions.inPlace ? `${cliOptions.input} (in place)` : cliOptions.output}`
+        );
         console.log(`Format: ${cliOptions.format}`);
         if (cliOptions.width || cliOptions.height) {
           console.log(`Dimensions: ${cliOptions.width || 'auto'} x ${cliOptions.height || 'auto'}`);
         }
-        if (cliOptions.quality) {
-          console.log(`Quality: ${cliOptions.quality}`);
+        if (cliOptions.fit) {
+          console.log(
+            `Fit: ${cliOptions.fit}${cliOptions.position ? ` (${cliOptions.position})` : ''}`
+          );
+        }
+        if (cliOptions.quality !== undefined || cliOptions.targetSsim === undefined) {
+          console.log(`Quality: ${cliOptions.quality ?? DEFAULT_QUALITY}`);
+        }
+        if (cliOptions.outputTemplate || cliOptions.flatten) {
+          const flatten = cliOptions.flatten ? ' (flattened)' : '';
+          console.log(
+            `Output names: ${cliOptions.outputTemplate ?? DEFAULT_OUTPUT_TEMPLATE}${flatten}`
+          );
+        }
+        if (cliOptions.rules?.length) {
+          console.log(`Rules: ${cliOptions.rules.length}`);
+        }
+        if (cliOptions.pipeline?.length) {
+          console.log(
+            `Pipeline: ${cliOptions.pipeline.map((operation) => operation.op).join(' → ')}`
+          );
         }
-        console.log('\nWould process files...');
+        if (cliOptions.watermark) {
+          const mark = cliOptions.watermark.image ?? `"${cliOptions.watermark.text}"`;
+          const placement = cliOptions.watermark.tile
+            ? 'tiled'
+            : (cliOptions.watermark.anchor ?? DEFAULT_WATERMARK_ANCHOR);
+          console.log(`Watermark: ${mark} (${placement})`);
+        }
+        if (cliOptions.variants) {
+          const widths = cliOptions.variants.widths?.join(', ') ?? 'auto';
+          const formats = cliOptions.variants.formats?.join(', ') ?? cliOptions.format;
+          console.log(`Variants: widths ${widths}; formats ${formats}`);
+        }
+        console.log('');
+      }
+
+      const summary = await convertImages(cliOptions);
+      process.stdout.write(formatPlan(summary, planFormat));
+      if (summary.failed > 0) {
+        process.exit(1);
       }
       return;
     }
@@ -171,19 +625,122 @@ async function main(): Promise<void> {
       console.log('Processing images...\n');
     }
 
-    const summary = await convertImages(cliOptions);
+    // Ctrl+C stops after the files in flight; a second Ctrl+C removes their partial outputs
+    const controller = new AbortController();
+    const inFlight = new Map<
+      string,
+      { outputPath: string; startedAt: number; verified?: boolean }
+    >();
+    const showProgress = !!process.stderr.isTTY && !cliOptions.silent && !cliOptions.verbose;
+    const clearProgress = (): void => {
+      if (showProgress) {
+        process.stderr.write('\r\x1b[K');
+      }
+    };
+    const quitNow = async (): Promise<void> => {
+      // Rules may change what a source writes, so clean up with its own options
+      const inputStats = await fs.stat(cliOptions.input).catch(() => null);
+      for (const [inputPath, { outputPath, startedAt, verified }] of inFlight) {
+        // Verified outputs may already have replaced, deleted or archived their source
+        if (verified) {
+          continue;
+        }
+        const inputDir = inputStats?.isDirectory() ? cliOptions.input : path.dirname(inputPath);
+        const fileOptions = resolveFileOptions(cliOptions, inputDir, inputPath);
+        for (const removed of await removePartialOutputs(
+          outputPath,
+          fileOptions,
+          startedAt,
+          inputPath
+        )) {
+          console.error(`🗑️  Removed partial output ${removed}`);
+        }
+      }
+      process.exit(130);
+    };
+    const interrupt = (): void => {
+      clearProgress();
+      if (controller.signal.aborted) {
+        void quitNow();
+        return;
+      }
+      controller.abort();
+      console.error(
+        `⏹  Stopping after ${inFlight.size} file(s) in progress (press Ctrl+C again to quit now)`
+      );
+    };
+    process.on('SIGINT', interrupt);
+
+    let summary: ProcessingSummary;
+    try {
+      summary = await convertImages(cliOptions, {
+        signal: controller.signal,
+        onProgress: (event) => {
+          if (event.type === 'file-start' && event.inputPath && event.outputPath) {
+            inFlight.set(event.inputPath, {
+              outputPath: event.outputPath,
+              startedAt: Date.now(),
+            });
+          } else if (event.type === 'file-verified' && event.inputPath) {
+            const entry = inFlight.get(event.inputPath);
+            if (entry) {
+              entry.verified = true;
+            }
+          } else if (event.inputPath) {
+            inFlight.delete(event.inputPath);
+          }
+          if (showProgress) {
+            process.stderr.write(`\r${formatProgressBar(event.stats)}\x1b[K`);
+          }
+        },
+      });
+    } finally {
+      process.removeListener('SIGINT', interrupt);
+      clearProgress();
+    }
 
     // Print results
     if (!cliOptions.silent) {
       if (cliOptions.verbose) {
         console.log('\n=== Processing Results ===\n');
         for (const result of summary.results) {
-          if (result.success) {
+          if (result.filtered) {
+            console.log(`🚫 ${result.inputPath} (filtered: ${result.filterReason})`);
+          } else if (result.skipped) {
+            console.log(`⏭️  ${result.inputPath} (${result.skipReason ?? 'unchanged'})`);
+          } else if (result.success) {
             const sizeChange =
               result.originalSize && result.newSize
                 ? ` (${formatFileSize(result.originalSize)} → ${formatFileSize(result.newSize)})`
                 : '';
-            console.log(`✅ ${result.inputPath} → ${result.outputPath}${sizeChange}`);
+            const searched =
+              cliOptions.maxSize !== undefined || cliOptions.targetSsim !== undefined;
+            const missed = result.targetMet === false ? ', target missed' : '';
+            const ssim =
+              result.ssim !== undefined ? `, SSIM ${result.ssim.toFixed(4)}${missed}` : '';
+            const quality =
+              searched && result.quality !== undefined ? ` [quality ${result.quality}${ssim}]` : '';
+            const frames = result.frames ? ` [${result.frames} frames]` : '';
+            console.log(
+              `✅ ${result.inputPath} → ${result.outputPath}${sizeChange}${quality}${frames}`
+            );
+            for (const variant of result.variants?.slice(1) ?? []) {
+              console.log(
+                `   ↳ ${variant.outputPath} (${variant.width}x${variant.height}, ${formatFileSize(variant.size)})`
+              );
+            }
+            for (const frame of result.frameOutputs?.slice(1) ?? []) {
+              console.log(`   ↳ ${frame.outputPath} (${formatFileSize(frame.size)})`);
+            }
+            if (result.manifestPath) {
+              console.log(`   ↳ ${result.manifestPath}`);
+            }
+            if (result.source) {
+              const where = result.source.path
+                ? ` (${result.source.action === 'replaced' ? 'backup ' : ''}${result.source.path})`
+                : '';
+              console.log(`   ↳ source ${result.source.action}${where}`);
+            }
           } else {
             console.error(`❌ ${result.inputPath}: ${result.error}`);
           }
@@ -191,12 +748,61 @@ async function main(): Promise<void> {
         console.log('');
       }
 
-      console.log('=== Summary ===');
+      console.log(summary.cancelled ? '=== Summary (interrupted) ===' : '=== Summary ===');
       console.log(`Total files: ${summary.total}`);
       console.log(`✅ Successful: ${summary.successful}`);
+      const kept = summary.results.filter((result) => result.skipReason !== undefined).length;
+      if (summary.skipped > kept) {
+        console.log(`⏭️  Skipped (unchanged): ${summary.skipped - kept}`);
+      }
+      if (kept > 0) {
+        console.log(`📦 Kept source (output larger): ${kept}`);
+      }
+      if (summary.filtered > 0) {
+        console.log(`🚫 Filtered: ${summary.filtered}`);
+      }
       if (summary.failed > 0) {
         console.log(`❌ Failed: ${summary.failed}`);
       }
+      if (summary.cancelled) {
+        console.log(`⏹  Not started: ${summary.cancelled}`);
+      }
+      const mismatched = summary.results.filter((result) => result.extensionMismatch);
+      if (mismatched.length > 0) {
+        console.log(`⚠️  Extension does not match content: ${mismatched.length}`);
+        for (const result of mismatched) {
+          console.log(`   ${result.inputPath} is ${result.contentFormat}`);
+        }
+      }
+      const handled = summary.results.filter((result) => result.source !== undefined);
+      if (handled.length > 0) {
+        const action = cliOptions.inPlace
+          ? 'replaced'
+          : cliOptions.sourceAction === 'delete'
+            ? 'deleted'
+            : 'archived';
+        console.log(`♻️  Sources ${action}: ${handled.length}`);
+      }
+    }
+
+    // Write the report before exiting, so failed runs are reported too
+    if (cliOptions.report) {
+      const reportPath = path.resolve(cliOptions.report);
+      await writeReport(summary, reportPath, cliOptions.reportFormat ?? 'json');
+      if (!cliOptions.silent) {
+        console.log(`📄 Report written to ${reportPath}`);
+      }
+    }
+
+    // An interrupted run exits like one killed by Ctrl+C, without watching
+    if (summary.cancelled) {
+      process.exit(130);
+    }
+
+    // Watch mode: keep converting changes until interrupted
+    if (cliOptions.watch) {
+      await startWatching(cliOptions);
+      return;
     }
 
     // Exit with error code if there were failures
@@ -209,6 +815,545 @@ async function main(): Promise<void> {
   }
 }
 
+/**
+ * Options parsed by the serve command.
+ */
+interface ServeCommandOptions {
+  root: string;
+  port?: number;
+  host?: string;
+  cacheDir?: string;
+  maxAge?: number;
+  maxDimension?: number;
+}
+
+/**
+ * Runs the serve command until the process is interrupted.
+ *
+ * @param options - Parsed serve command options
+ */
+async function runServe(options: ServeCommandOptions): Promise<void> {
+  try {
+    const root = path.resolve(options.root);
+    const rootStats = await fs.stat(root).catch(() => null);
+    if (!rootStats?.isDirectory()) {
+      console.error('Error: --root must be a directory');
+      process.exit(1);
+    }
+
+    const port = options.port ?? DEFAULT_SERVE_PORT;
+    const host = options.host ?? DEFAULT_SERVE_HOST;
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      console.error('Error: Port must be an integer between 0 and 65535');
+      process.exit(1);
+    }
+    if (options.maxAge !== undefined && (!Number.isInteger(options.maxAge) || options.maxAge < 0)) {
+      console.error('Error: Max age must be a non-negative integer');
+      process.exit(1);
+    }
+    if (
+      options.maxDimension !== undefined &&
+      (!Number.isInteger(options.maxDimension) || options.maxDimension < 1)
+    ) {
+      console.error('Error: Max dimension must be a positive integer');
+      process.exit(1);
+    }
+
+    const server = createImageServer({
+      root,
+      cacheDir: options.cacheDir,
+      maxAge: options.maxAge,
+      maxDimension: options.maxDimension,
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, resolve);
+    });
+
+    const { port: boundPort } = server.address() as AddressInfo;
+    // IPv6 addresses are bracketed in URLs
+    const urlHost = host.includes(':') ? `[${host}]` : host;
+    console.log(`🌐 Serving ${root} at http://${urlHost}:${boundPort}/ (press Ctrl+C to stop)`);
+
+    const stop = (): void => {
+      server.close();
+      console.log('\nStopped serving.');
+      process.exit(0);
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Prints the properties of an image as aligned text lines.
+ *
+ * @param info - Image properties
+ */
+function printImageInfo(info: ImageInfo): void {
+  const lines: [string, string][] = [
+    ['Format', info.format],
+    ['Dimensions', `${info.width}x${info.height}`],
+    ['File size', formatFileSize(info.size)],
+    [
+      'Color space',
+      `${info.colorSpace ?? 'unknown'} (${info.channels ?? '?'} channels, ${info.bitDepth ?? '?'})`,
+    ],
+    ['Alpha', info.hasAlpha ? 'yes' : 'no'],
+  ];
+  if (info.density) {
+    lines.push(['Density', `${info.density} DPI`]);
+  }
+  if (info.orientation && info.orientation !== 1) {
+    lines.push(['Orientation', `${info.orientation} (dimensions shown after rotation)`]);
+  }
+  if (info.frames > 1) {
+    const loop = info.loop === 0 ? 'loops forever' : `loops ${info.loop ?? 0} times`;
+    const delays = info.frameDelays ? `, delays ${info.frameDelays.join('/')} ms` : '';
+    lines.push(['Frames', `${info.frames} (${loop}${delays})`]);
+  } else {
+    lines.push(['Frames', '1']);
+  }
+  lines.push([
+    'ICC profile',
+    info.icc ? `${info.icc.description ?? 'unnamed'} (${formatFileSize(info.icc.size)})` : 'none',
+  ]);
+  lines.push([
+    'EXIF',
+    info.exif
+      ? Object.entries(info.exif)
+          .map(([name, value]) => `${name}=${value}`)
+          .join(', ')
+      : 'none',
+  ]);
+
+  console.log(info.path);
+  for (const [label, value] of lines) {
+    console.log(`  ${`${label}:`.padEnd(13)} ${value}`);
+  }
+}
+
+/**
+ * Runs the info command.
+ *
+ * @param files - Image file paths
+ * @param options - Parsed info command options
+ */
+async function runInfo(files: string[], options: { json?: boolean }): Promise<void> {
+  const results: ImageInfo[] = [];
+  let failed = false;
+
+  for (const file of files) {
+    try {
+      const info = await getImageInfo(file);
+      results.push(info);
+      if (!options.json) {
+        printImageInfo(info);
+      }
+    } catch (error) {
+      failed = true;
+      console.error(`❌ ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(results, null, 2));
+  }
+  if (failed) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Runs the formats command.
+ *
+ * @param options - Parsed formats command options
+ */
+function runFormats(options: { json?: boolean }): void {
+  if (options.json) {
+    console.log(JSON.stringify(FORMAT_CAPABILITIES, null, 2));
+    return;
+  }
+
+  const yesNo = (value: boolean): string => (value ? 'yes' : 'no');
+  const rows = [
+    ['Format', 'Read', 'Write', 'Quality', 'Animation', 'Extensions'],
+    ...FORMAT_CAPABILITIES.map((format) => [
+      format.name,
+      yesNo(format.input),
+      format.output === 'native' ? 'native' : yesNo(format.output !== null),
+      yesNo(format.quality),
+      yesNo(format.animation),
+      format.extensions.join(', '),
+    ]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  for (const row of rows) {
+    console.log(
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd()
+    );
+  }
+}
+
+/**
+ * Runs the compare command.
+ *
+ * @param first - First image path
+ * @param second - Second image path
+ * @param options - Parsed compare command options
+ */
+async function runCompare(
+  first: string,
+  second: string,
+  options: { diff?: string; threshold?: number; json?: boolean }
+): Promise<void> {
+  try {
+    if (
+      options.threshold !== undefined &&
+      (!Number.isInteger(options.threshold) || options.threshold < 0 || options.threshold > 255)
+    ) {
+      console.error('Error: Threshold must be an integer between 0 and 255');
+      process.exit(1);
+    }
+
+    const comparison: ImageComparison = await compareImages(first, second, {
+      threshold: options.threshold,
+      diffPath: options.diff ? path.resolve(options.diff) : undefined,
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(comparison, null, 2));
+      return;
+    }
+    console.log(`Dimensions:        ${comparison.width}x${comparison.height}`);
+    console.log(
+      `Different pixels:  ${comparison.differentPixels} (${comparison.differentPercent.toFixed(2)}%)`
+    );
+    console.log(`Mean abs. error:   ${comparison.meanAbsoluteError.toFixed(3)}`);
+    console.log(
+      `PSNR:              ${Number.isFinite(comparison.psnr) ? `${comparison.psnr.toFixed(2)} dB` : 'identical'}`
+    );
+    console.log(`SSIM:              ${comparison.ssim.toFixed(4)}`);
+    if (comparison.diffPath) {
+      console.log(`Diff image:        ${comparison.diffPath}`);
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Runs the validate command, exiting non-zero if any image fails to decode.
+ *
+ * @param input - Image file or directory path
+ * @param options - Parsed validate command options
+ */
+async function runValidate(
+  input: string,
+  options: { recursive?: boolean; concurrency?: number; json?: boolean; silent?: boolean }
+): Promise<void> {
+  try {
+    const concurrency = options.concurrency ?? getDefaultConcurrency();
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      console.error('Error: Concurrency must be a positive integer');
+      process.exit(1);
+    }
+
+    const inputPath = path.resolve(input);
+    const stats = await fs.stat(inputPath);
+    const files = stats.isDirectory()
+      ? await findValidatableFiles(inputPath, options.recursive ?? false)
+      : [inputPath];
+    const results = await mapWithConcurrency(files, concurrency, validateImageFile);
+    const invalid = results.filter((result) => !result.valid);
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+    } else {
+      for (const result of invalid) {
+        console.error(`❌ ${result.path}: ${result.error}`);
+      }
+      if (!options.silent) {
+        console.log(`\n=== Summary ===`);
+        console.log(`Total files: ${results.length}`);
+        console.log(`✅ Valid: ${results.length - invalid.length}`);
+        if (invalid.length > 0) {
+          console.log(`❌ Invalid: ${invalid.length}`);
+        }
+      }
+    }
+
+    if (invalid.length > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Runs the config print command.
+ *
+ * @param options - Parsed config print command options
+ */
+async function runConfigPrint(options: {
+  input: string;
+  config?: string;
+  json?: boolean;
+}): Promise<void> {
+  try {
+    const {
+      options: values,
+      sources,
+      layers,
+    } = await resolveConfig({
+      input: options.input,
+      configPath: options.config,
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify({ values, sources }, null, 2));
+      return;
+    }
+
+    console.log('Sources (lowest precedence first):');
+    if (layers.length === 0) {
+      console.log('  (none)');
+    }
+    for (const layer of layers) {
+      console.log(`  ${layer.source}`);
+    }
+    console.log('\nOptions:');
+    if (Object.keys(values).length === 0) {
+      console.log('  (none)');
+    }
+    for (const [key, value] of Object.entries(values)) {
+      console.log(`  ${key}: ${JSON.stringify(value)}  ← ${sources[key]}`);
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Main CLI function.
+ */
+async function main(): Promise<void> {
+  program
+    .name('img-tool')
+    .description(
+      'A production-quality CLI tool for converting images between any supported formats with advanced transformation options'
+    )
+    .version('1.0.0');
+
+  program
+    .command('convert', { isDefault: true })
+    .description('Convert an image or a directory of images (default command)')
+    .requiredOption('-i, --input <path>', 'Input file or directory path')
+    .option('-o, --output <path>', 'Output file or directory path (not with --in-place)')
+    .option(
+      '-f, --format <format>',
+      `Target output format (${listFormats((format) => format.output !== null).join(', ')}); ` +
+        'required unless --variants lists formats'
+    )
+    .option('-w, --width <number>', 'Desired width in pixels', parseInt)
+    .option('-h, --height <number>', 'Desired height in pixels', parseInt)
+    .option('--min-width <number>', 'Minimum width constraint', parseInt)
+    .option('--min-height <number>', 'Minimum height constraint', parseInt)
+    .option('--max-width <number>', 'Maximum width constraint', parseInt)
+    .option('--max-height <number>', 'Maximum height constraint', parseInt)
+    .option('-q, --quality <1-100>', 'Output quality (1-100) for formats that support it', parseInt)
+    .option(
+      '--fit <mode>',
+      'How to fit both width and height (cover, contain, fill, inside, outside)'
+    )
+    .option(
+      '--position <position>',
+      'Crop/letterbox anchor (center, north, ..., northwest) or smart crop (entropy, attention)'
+    )
+    .option('--background <color>', 'Background color for letterboxed contain output')
+    .option(
+      '--metadata <policy>',
+      'Metadata to keep from the source (strip, keep, keep-icc-only, keep-copyright)'
+    )
+    .option(
+      '--variants <spec>',
+      'Responsive variants as widths:formats, e.g. 320,640,1280:avif,webp,jpeg'
+    )
+    .option('--variant-manifest <type>', 'Write a manifest per source for variants (html, json)')
+    .option(
+      '--frame <index>',
+      'Convert only this frame (0-based) of animated sources, as a still',
+      parseInt
+    )
+    .option('--dump-frames', 'Write every frame of animated sources as numbered stills')
+    .option(
+      '--density <dpi>',
+      'Resolution to rasterize vector sources such as SVG at (default: 72)',
+      parseFloat
+    )
+    .option('--preset <name>', 'Apply a named preset of options from the config file')
+    .option('--explain <file>', 'Show the rules and effective options for a file, then exit')
+    .option('--pipeline <name>', 'Run this named pipeline from the config file before resizing')
+    .option('--watermark <image>', 'Composite this image onto every output')
+    .option('--watermark-text <text>', 'Composite this text onto every output')
+    .option('--max-size <size>', 'Maximum output file size (e.g. 204800, 200KB, 1.5MB)')
+    .option(
+      '--min-quality <1-100>',
+      'Lowest quality tried by --max-size and --target-ssim (default: 30)',
+      parseInt
+    )
+    .option(
+      '--target-ssim <0-1>',
+      'Use the lowest quality whose output reaches this SSIM against the source (e.g. 0.98)',
+      parseFloat
+    )
+    .option('--shrink-to-fit', 'Reduce dimensions when --max-size cannot be met otherwise')
+    .option('--allow-upscale', 'Allow upscaling images beyond original dimensions')
+    .option('-r, --recursive', 'Process subdirectories recursively')
+    .option(
+      '--any-extension',
+      'Also process files with other or no extensions whose content is an image'
+    )
+    .option(
+      '--input-formats <list>',
+      'Only process sources whose content is one of these formats (e.g. jpeg,png)'
+    )
+    .option('--include <glob>', 'Only process files matching the glob (repeatable)', collect)
+    .option(
+      '--exclude <glob>',
+      'Skip files and directories matching the glob (repeatable)',
+      collect
+    )
+    .option('--only-larger-than <size>', 'Only process sources larger than a size (e.g. 500KB)')
+    .option('--only-smaller-than <size>', 'Only process sources smaller than a size (e.g. 5MB)')
+    .option('--min-source-width <number>', 'Only process sources at least this wide', parseInt)
+    .option('--min-source-height <number>', 'Only process sources at least this tall', parseInt)
+    .option('--max-source-width <number>', 'Only process sources at most this wide', parseInt)
+    .option('--max-source-height <number>', 'Only process sources at most this tall', parseInt)
+    .option(
+      '--concurrency <number>',
+      'Number of images to process in parallel (default: CPU count)',
+      parseInt
+    )
+    .option(
+      '--output-template <template>',
+      'Output path template, e.g. "{dir}/{name}-{width}x{height}.{ext}" (default: "{dir}/{name}.{ext}")'
+    )
+    .option('--flatten', 'Write all outputs directly into the output directory')
+    .option(
+      '--on-collision <policy>',
+      'When sources map to the same output: fail or rename with a numbered suffix (default: fail)'
+    )
+    .option('--overwrite', 'Overwrite existing output files')
+    .option('--in-place', 'Write outputs next to the sources and remove each converted source')
+    .option('--backup', 'With --in-place, keep each replaced source as <source>.bak')
+    .option(
+      '--source-action <action>',
+      `What to do with each source after a verified conversion: ${SOURCE_ACTIONS.join(', ')} (default: keep)`
+    )
+    .option('--archive-dir <dir>', 'Directory sources are moved to by --source-action archive')
+    .option('--keep-if-larger', 'Discard outputs larger than their source')
+    .option(
+      '--incremental',
+      'Skip sources unchanged since the previous run (tracked in the output directory)'
+    )
+    .option('--watch', 'Keep watching the input directory and convert new or changed images')
+    .option('--watch-delete', 'In watch mode, delete outputs of removed source images')
+    .option('--dry-run', 'Plan every file, output path and size without writing anything')
+    .option('--plan-format <format>', 'Dry-run plan format (text, json)')
+    .option('-v, --verbose', 'Print detailed logs for each file')
+    .option('-s, --silent', 'Only print errors and summary')
+    .option('-c, --config <path>', 'Path to a configuration file, used instead of discovery')
+    .option('--report <path>', 'Write a machine-readable report of the run to a file')
+    .option('--report-format <format>', 'Report format (json, csv, junit)')
+    .action(runConvert);
+
+  program
+    .command('serve')
+    .description('Serve images from a directory, transforming them from query parameters')
+    .requiredOption('--root <dir>', 'Directory to serve images from')
+    .option('-p, --port <number>', `Port to listen on (default: ${DEFAULT_SERVE_PORT})`, parseInt)
+    .option(
+      '--host <host>',
+      `Host to bind to (default: ${DEFAULT_SERVE_HOST}; 0.0.0.0 for all interfaces)`
+    )
+    .option('--cache-dir <dir>', 'Directory for rendered variants (default: in the OS temp dir)')
+    .option(
+      '--max-age <seconds>',
+      `Cache-Control max-age of responses (default: ${DEFAULT_SERVE_MAX_AGE})`,
+      parseInt
+    )
+    .option(
+      '--max-dimension <pixels>',
+      `Largest w or h a request may ask for (default: ${DEFAULT_SERVE_MAX_DIMENSION})`,
+      parseInt
+    )
+    .action(runServe);
+
+  program
+    .command('info')
+    .description('Show dimensions, format, color space, metadata and frames of images')
+    .argument('<files...>', 'Image files to inspect')
+    .option('--json', 'Print the properties as JSON', false)
+    .action(runInfo);
+
+  program
+    .command('formats')
+    .description('List the image formats this build can read and write')
+    .option('--json', 'Print the capabilities as JSON', false)
+    .action(runFormats);
+
+  program
+    .command('compare')
+    .description('Compare two images pixel by pixel and perceptually (SSIM)')
+    .argument('<first>', 'First image')
+    .argument('<second>', 'Second image')
+    .option('--diff <path>', 'Write a diff image highlighting differing pixels in red')
+    .option(
+      '--threshold <0-255>',
+      'Largest per-channel difference still counted as equal (default: 0)',
+      parseInt
+    )
+    .option('--json', 'Print the metrics as JSON', false)
+    .action(runCompare);
+
+  program
+    .command('validate')
+    .description('Check that images decode completely; exits non-zero if any are corrupt')
+    .argument('<path>', 'Image file or directory')
+    .option('-r, --recursive', 'Check subdirectories recursively', false)
+    .option(
+      '--concurrency <number>',
+      'Number of images to check in parallel (default: CPU count)',
+      parseInt
+    )
+    .option('--json', 'Print every result as JSON', false)
+    .option('-s, --silent', 'Only print invalid files', false)
+    .action(runValidate);
+
+  program
+    .command('config')
+    .description('Inspect the configuration')
+    .command('print')
+    .description('Print the merged configuration and the source of each option')
+    .option('-i, --input <path>', 'Input file or directory to discover config files from', '.')
+    .option('-c, --config <path>', 'Path to a configuration file, used instead of discovery')
+    .option('--json', 'Print the options and their sources as JSON', false)
+    .action(runConfigPrint);
+
+  await program.parseAsync(process.argv);
+}
+
 // Run CLI
 main().catch((error) => {
   console.error(`Fatal error: ${error instanceof Error ? error.message : String(error)}`);
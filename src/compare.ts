@@ -0,0 +1,125 @@
+import sharp from 'sharp';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { ImageComparison } from './types';
+import { computeSsim } from './similarity';
+
+/**
+ * Options for comparing two images.
+ */
+export interface CompareOptions {
+  /** Largest per-channel difference (0-255) still counted as equal (default: 0) */
+  threshold?: number;
+  /** Path to write a diff image to; the format follows the extension */
+  diffPath?: string;
+}
+
+/**
+ * Decodes an image to 8-bit RGBA samples, after EXIF orientation.
+ *
+ * @param filePath - Image file path
+ * @returns Promise resolving to the samples and dimensions
+ */
+async function decodeRgba(
+  filePath: string
+): Promise<{ data: Buffer; width: number; height: number }> {
+  const { data, info } = await sharp(filePath)
+    .rotate()
+    .ensureAlpha()
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+/**
+ * Converts RGBA samples to luma, compositing transparent pixels onto black.
+ *
+ * @param rgba - RGBA samples
+ * @returns One luma sample per pixel
+ */
+function toLuma(rgba: Buffer): Uint8Array {
+  const luma = new Uint8Array(rgba.length / 4);
+  for (let i = 0; i < luma.length; i++) {
+    const offset = i * 4;
+    const alpha = rgba[offset + 3] / 255;
+    luma[i] = Math.round(
+      (0.299 * rgba[offset] + 0.587 * rgba[offset + 1] + 0.114 * rgba[offset + 2]) * alpha
+    );
+  }
+  return luma;
+}
+
+/**
+ * Compares two images of the same dimensions pixel by pixel.
+ *
+ * The optional diff image shows differing pixels in red over a faded
+ * greyscale copy of the first image.
+ *
+ * @param pathA - First image path
+ * @param pathB - Second image path
+ * @param options - Comparison options
+ * @returns Promise resolving to the comparison metrics
+ * @throws Error if an image cannot be decoded or the dimensions differ
+ */
+export async function compareImages(
+  pathA: string,
+  pathB: string,
+  options: CompareOptions = {}
+): Promise<ImageComparison> {
+  const threshold = options.threshold ?? 0;
+  const [a, b] = await Promise.all([decodeRgba(pathA), decodeRgba(pathB)]);
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error(`Images differ in size: ${a.width}x${a.height} vs ${b.width}x${b.height}`);
+  }
+
+  const { width, height } = a;
+  const pixelCount = width * height;
+  const lumaA = toLuma(a.data);
+  const diff = options.diffPath ? Buffer.alloc(pixelCount * 4) : undefined;
+
+  let differentPixels = 0;
+  let absoluteSum = 0;
+  let squaredSum = 0;
+  for (let i = 0; i < pixelCount; i++) {
+    const offset = i * 4;
+    let maxDelta = 0;
+    for (let channel = 0; channel < 4; channel++) {
+      const delta = Math.abs(a.data[offset + channel] - b.data[offset + channel]);
+      absoluteSum += delta;
+      squaredSum += delta * delta;
+      maxDelta = Math.max(maxDelta, delta);
+    }
+
+    const different = maxDelta > threshold;
+    if (different) {
+      differentPixels++;
+    }
+    if (diff) {
+      const faded = 192 + (lumaA[i] >> 2);
+      diff[offset] = different ? 255 : faded;
+      diff[offset + 1] = different ? 0 : faded;
+      diff[offset + 2] = different ? 0 : faded;
+      diff[offset + 3] = 255;
+    }
+  }
+
+  if (diff && options.diffPath) {
+    await fs.mkdir(path.dirname(options.diffPath), { recursive: true });
+    await sharp(diff, { raw: { width, height, channels: 4 } }).toFile(options.diffPath);
+  }
+
+  const sampleCount = pixelCount * 4;
+  const meanSquaredError = squaredSum / sampleCount;
+
+  return {
+    width,
+    height,
+    differentPixels,
+    differentPercent: (differentPixels / pixelCount) * 100,
+    meanAbsoluteError: absoluteSum / sampleCount,
+    psnr: meanSquaredError === 0 ? Infinity : 10 * Math.log10((255 * 255) / meanSquaredError),
+    ssim: computeSsim(lumaA, toLuma(b.data), width, height),
+    diffPath: options.diffPath,
+  };
+}
@@ -0,0 +1,48 @@
+import * as os from 'os';
+
+/**
+ * Returns the default number of concurrent workers (one per CPU core).
+ *
+ * @returns Default concurrency level
+ */
+export function getDefaultConcurrency(): number {
+  return Math.max(1, os.cpus().length);
+}
+
+/**
+ * Maps over items with a bounded number of concurrently running tasks.
+ *
+ * Results are returned in the same order as the input items, regardless of
+ * the order in which the tasks complete.
+ *
+ * @param items - Items to process
+ * @param concurrency - Maximum number of tasks running at once
+ * @param task - Async function applied to each item
+ * @returns Promise resolving to results in input order
+ * @throws Error if concurrency is not a positive integer
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Concurrency must be a positive integer, got: ${concurrency}`);
+  }
+
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  // Each worker pulls the next unclaimed index until the queue is drained
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  const workerCount = Math.min(concurrency, items.length);
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return results;
+}
@@ -1,4 +1,11 @@
-import type { ImageFormat, ImageProcessingOptions } from './types';
+import type {
+  FitMode,
+  ImageFormat,
+  ImagePosition,
+  ImageProcessingOptions,
+  MetadataPolicy,
+} from './types';
+import { FORMAT_CAPABILITIES, getFormatCapability, listFormatNames, listFormats } from './formats';
 
 /**
  * Default quality setting for formats that support quality control.
@@ -6,45 +13,115 @@ import type { ImageFormat, ImageProcessingOptions } from './types';
 export const DEFAULT_QUALITY = 80;
 
 /**
- * Supported input formats that can be read by sharp.
+ * Highest quality setting, where the target SSIM search starts when no quality is given.
  */
-export const SUPPORTED_INPUT_FORMATS: readonly ImageFormat[] = [
-  'jpg',
-  'jpeg',
-  'png',
-  'webp',
-  'gif',
-  'tiff',
-  'bmp',
-  'avif',
-  'heic',
-  'heif',
+export const MAX_QUALITY = 100;
+
+/**
+ * Default lowest quality tried when searching for a quality that fits a byte budget.
+ */
+export const DEFAULT_MIN_QUALITY = 30;
+
+/**
+ * Factor the dimensions are multiplied by at each shrink-to-fit step.
+ */
+export const SHRINK_TO_FIT_STEP = 0.85;
+
+/**
+ * Maximum number of shrink-to-fit steps before giving up on a byte budget.
+ */
+export const SHRINK_TO_FIT_MAX_STEPS = 10;
+
+/**
+ * Multipliers of the byte size units accepted by parseByteSize.
+ */
+const BYTE_SIZE_UNITS: Readonly<Record<string, number>> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+  gb: 1024 * 1024 * 1024,
+};
+
+/**
+ * Supported input formats (names and aliases) that this libvips build can read.
+ */
+export const SUPPORTED_INPUT_FORMATS: readonly ImageFormat[] = listFormatNames(
+  (capability) => capability.input
+);
+
+/**
+ * Supported output formats (names and aliases), written by sharp or a native encoder.
+ */
+export const SUPPORTED_OUTPUT_FORMATS: readonly ImageFormat[] = listFormatNames(
+  (capability) => capability.output !== null
+);
+
+/**
+ * Formats that support quality settings.
+ */
+export const QUALITY_SUPPORTED_FORMATS: readonly ImageFormat[] = listFormatNames(
+  (capability) => capability.quality
+);
+
+/**
+ * Formats that can store multiple frames with delays and a loop count.
+ */
+export const ANIMATED_FORMATS: readonly ImageFormat[] = listFormatNames(
+  (capability) => capability.animation
+);
+
+/**
+ * Supported fit modes for resizing into a width/height box.
+ */
+export const FIT_MODES: readonly FitMode[] = [
+  'cover',
+  'contain',
+  'fill',
+  'inside',
+  'outside',
 ] as const;
 
 /**
- * Supported output formats that can be written by sharp.
+ * Supported crop/letterbox positions, including smart cropping strategies.
  */
-export const SUPPORTED_OUTPUT_FORMATS: readonly ImageFormat[] = [
-  'jpg',
-  'jpeg',
-  'png',
-  'webp',
-  'gif',
-  'tiff',
-  'bmp',
-  'avif',
+export const IMAGE_POSITIONS: readonly ImagePosition[] = [
+  'center',
+  'north',
+  'northeast',
+  'east',
+  'southeast',
+  'south',
+  'southwest',
+  'west',
+  'northwest',
+  'entropy',
+  'attention',
 ] as const;
 
 /**
- * Formats that support quality settings.
+ * Positions that select the crop region automatically (only valid with `cover`).
+ */
+export const SMART_CROP_POSITIONS: readonly ImagePosition[] = ['entropy', 'attention'] as const;
+
+/**
+ * Supported metadata policies.
  */
-export const QUALITY_SUPPORTED_FORMATS: readonly ImageFormat[] = [
-  'jpg',
-  'jpeg',
-  'webp',
-  'avif',
+export const METADATA_POLICIES: readonly MetadataPolicy[] = [
+  'strip',
+  'keep',
+  'keep-icc-only',
+  'keep-copyright',
 ] as const;
 
+/**
+ * MIME types of the known formats, by name and alias.
+ */
+export const FORMAT_MIME_TYPES: Readonly<Record<ImageFormat, string>> = Object.fromEntries(
+  FORMAT_CAPABILITIES.flatMap((capability) =>
+    [capability.name, ...capability.aliases].map((name) => [name, capability.mimeType])
+  )
+) as Record<ImageFormat, string>;
+
 /**
  * Default image processing options.
  */
@@ -85,19 +162,187 @@ export function formatSupportsQuality(format: ImageFormat): boolean {
 }
 
 /**
- * Normalizes a format string to a standard ImageFormat.
+ * Checks if a format can store animations.
+ *
+ * @param format - Format to check
+ * @returns True if the format keeps every frame of an animated source
+ */
+export function formatSupportsAnimation(format: ImageFormat): boolean {
+  return ANIMATED_FORMATS.includes(format);
+}
+
+/**
+ * Validates if a string is a supported fit mode.
+ *
+ * @param fit - Fit mode string to validate
+ * @returns True if the fit mode is supported
+ */
+export function isFitMode(fit: string): fit is FitMode {
+  return FIT_MODES.includes(fit as FitMode);
+}
+
+/**
+ * Validates if a string is a supported crop/letterbox position.
+ *
+ * @param position - Position string to validate
+ * @returns True if the position is supported
+ */
+export function isImagePosition(position: string): position is ImagePosition {
+  return IMAGE_POSITIONS.includes(position as ImagePosition);
+}
+
+/**
+ * Validates if a string is a supported metadata policy.
+ *
+ * @param policy - Policy string to validate
+ * @returns True if the metadata policy is supported
+ */
+export function isMetadataPolicy(policy: string): policy is MetadataPolicy {
+  return METADATA_POLICIES.includes(policy as MetadataPolicy);
+}
+
+/**
+ * Normalizes an output format name or alias to its canonical name (`jpg` → `jpeg`).
  *
  * @param format - Format string to normalize
- * @returns Normalized ImageFormat
- * @throws Error if format is not supported
+ * @returns Canonical format name
+ * @throws Error if the format is unknown or cannot be written in this libvips build
  */
 export function normalizeFormat(format: string): ImageFormat {
-  const normalized = format.toLowerCase();
-  if (normalized === 'jpg') {
-    return 'jpeg';
+  const capability = getFormatCapability(format);
+  if (capability?.output) {
+    return capability.name;
+  }
+  const writable = listFormats((capability) => capability.output !== null);
+  throw new Error(`Unsupported format: ${format} (output formats: ${writable.join(', ')})`);
+}
+
+/**
+ * Gets the MIME type for an image format.
+ *
+ * @param format - Image format
+ * @returns MIME type string
+ */
+export function getMimeType(format: ImageFormat): string {
+  return FORMAT_MIME_TYPES[format];
+}
+
+/**
+ * Parses a byte size such as `204800`, `200KB`, `1.5 MB` (1 KB = 1024 bytes).
+ *
+ * @param value - Size string or number of bytes
+ * @returns Size in bytes
+ * @throws Error if the size is not a positive number with an optional B, KB, MB or GB unit
+ */
+export function parseByteSize(value: string | number): number {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new Error(`Invalid size: ${value}`);
+    }
+    return Math.floor(value);
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]*)\s*$/i.exec(value);
+  const multiplier = match ? BYTE_SIZE_UNITS[(match[2] || 'b').toLowerCase()] : undefined;
+  if (!match || multiplier === undefined || parseFloat(match[1]) <= 0) {
+    throw new Error(`Invalid size: ${value} (expected e.g. 204800, 200KB or 1.5MB)`);
+  }
+  return Math.floor(parseFloat(match[1]) * multiplier);
+}
+
+/**
+ * Validates image processing options that don't depend on the source image.
+ *
+ * @param options - Image processing options
+ * @throws Error describing the first invalid option
+ */
+export function validateProcessingOptions(options: ImageProcessingOptions): void {
+  // Validate dimensions
+  const dimensions: [string, number | undefined][] = [
+    ['Width', options.width],
+    ['Height', options.height],
+    ['Min width', options.minWidth],
+    ['Min height', options.minHeight],
+    ['Max width', options.maxWidth],
+    ['Max height', options.maxHeight],
+  ];
+  for (const [name, value] of dimensions) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw new Error(`${name} must be a positive integer`);
+    }
+  }
+
+  // Validate quality range
+  if (options.quality !== undefined) {
+    if (!(options.quality >= 1 && options.quality <= 100)) {
+      throw new Error('Quality must be between 1 and 100');
+    }
+  }
+
+  // Validate fit and position
+  if (options.fit !== undefined && !isFitMode(options.fit)) {
+    throw new Error(`Fit must be one of: ${FIT_MODES.join(', ')}`);
+  }
+  if (options.position !== undefined) {
+    if (!isImagePosition(options.position)) {
+      throw new Error(`Position must be one of: ${IMAGE_POSITIONS.join(', ')}`);
+    }
+    if (SMART_CROP_POSITIONS.includes(options.position) && options.fit !== 'cover') {
+      throw new Error(`Position "${options.position}" requires fit "cover"`);
+    }
+  }
+
+  // Validate metadata policy
+  if (options.metadata !== undefined && !isMetadataPolicy(options.metadata)) {
+    throw new Error(`Metadata policy must be one of: ${METADATA_POLICIES.join(', ')}`);
+  }
+
+  // Validate minimum quality for byte budgets
+  if (options.minQuality !== undefined) {
+    if (!(options.minQuality >= 1 && options.minQuality <= 100)) {
+      throw new Error('Minimum quality must be between 1 and 100');
+    }
+    if (options.quality !== undefined && options.minQuality > options.quality) {
+      throw new Error('min-quality cannot be greater than quality');
+    }
   }
-  if (isSupportedOutputFormat(normalized)) {
-    return normalized as ImageFormat;
+
+  // Validate perceptual quality target
+  if (options.targetSsim !== undefined) {
+    if (!(options.targetSsim > 0 && options.targetSsim <= 1)) {
+      throw new Error('Target SSIM must be greater than 0 and at most 1');
+    }
+    if (options.maxSize !== undefined) {
+      throw new Error('A target SSIM cannot be combined with a maximum size');
+    }
+  }
+
+  // Validate dimension constraints
+  if (options.minWidth && options.maxWidth && options.minWidth > options.maxWidth) {
+    throw new Error('min-width cannot be greater than max-width');
+  }
+  if (options.minHeight && options.maxHeight && options.minHeight > options.maxHeight) {
+    throw new Error('min-height cannot be greater than max-height');
+  }
+
+  // Validate the rasterization density of vector sources
+  if (options.density !== undefined && !(options.density >= 1 && options.density <= 100000)) {
+    throw new Error('Density must be between 1 and 100000 DPI');
+  }
+
+  // Validate frame selection
+  if (options.frame !== undefined && (!Number.isInteger(options.frame) || options.frame < 0)) {
+    throw new Error('Frame must be a non-negative integer');
+  }
+  if (options.dumpFrames && options.frame !== undefined) {
+    throw new Error('Dumping frames cannot be combined with selecting a frame');
+  }
+  if (options.dumpFrames && options.variants) {
+    throw new Error('Dumping frames cannot be combined with variants');
+  }
+
+  // Only a single output is compared with its source
+  if (options.keepIfLarger && (options.variants || options.dumpFrames)) {
+    throw new Error('Keeping larger sources cannot be combined with variants or dumping frames');
   }
-  throw new Error(`Unsupported format: ${format}`);
 }
@@ -0,0 +1,310 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { CliOptions } from './types';
+import {
+  CONFIG_KEYS,
+  parseEnvValue,
+  suggestConfigKey,
+  toEnvName,
+  validateConfig,
+} from './configSchema';
+import type { ConfigFile } from './configSchema';
+import { isPlainObject } from './encoders';
+
+/**
+ * Config file names looked for in each directory, in order of preference.
+ */
+export const CONFIG_FILENAMES = ['.imgtoolrc', 'imgtool.config.json', 'imgtool.config.js'] as const;
+
+/**
+ * Key of the config object in package.json.
+ */
+export const PACKAGE_JSON_KEY = 'imgtool';
+
+/**
+ * Prefix of environment variables that override config keys, e.g. `IMGTOOL_QUALITY`.
+ */
+export const ENV_PREFIX = 'IMGTOOL_';
+
+/**
+ * One layer of configuration and where it came from.
+ */
+export interface ConfigLayer {
+  /** Description of the source, e.g. a file path or `env IMGTOOL_QUALITY` */
+  source: string;
+  /** Validated options of the layer */
+  values: ConfigFile;
+  /** Source of each key, when keys of the layer come from different places */
+  sources?: Record<string, string>;
+}
+
+/**
+ * Configuration merged from every layer.
+ */
+export interface ResolvedConfig {
+  /** Merged options */
+  options: Partial<CliOptions>;
+  /** Source of each merged key */
+  sources: Record<string, string>;
+  /** Layers from lowest to highest precedence */
+  layers: ConfigLayer[];
+}
+
+/**
+ * Options for resolving the configuration.
+ */
+export interface ResolveConfigOptions {
+  /** Input file or directory; config files are looked for from here upwards */
+  input?: string;
+  /** Explicit config file, used instead of discovery */
+  configPath?: string;
+  /** Environment variables (default: process.env) */
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Finds the config key a validation error is about.
+ *
+ * @param message - Error message, e.g. `pipelines.web[0]: ...`
+ * @param keys - Candidate keys
+ * @returns The key the message starts with, if any
+ */
+function getErrorKey(message: string, keys: string[]): string | undefined {
+  return keys.find((key) => /^[:.[]/.test(message.slice(key.length)) && message.startsWith(key));
+}
+
+/**
+ * Parsed but not yet validated content of a config file.
+ */
+interface RawConfigFile {
+  /** Description of the file, e.g. its path */
+  source: string;
+  /** Parsed content */
+  content: unknown;
+}
+
+/**
+ * Reads a config file.
+ *
+ * `.js` files export the config object; package.json holds it under the
+ * `imgtool` key. Other files are JSON.
+ *
+ * @param filePath - Config file path
+ * @returns Promise resolving to the content, or undefined for a package.json without an `imgtool` key
+ * @throws Error if the file cannot be read or parsed
+ */
+async function readConfigFile(filePath: string): Promise<RawConfigFile | undefined> {
+  try {
+    if (filePath.endsWith('.js')) {
+      const loaded = (await import(filePath)) as { default?: unknown };
+      return { source: filePath, content: loaded.default ?? loaded };
+    }
+
+    const content = JSON.parse(await fs.readFile(filePath, 'utf-8')) as unknown;
+    if (path.basename(filePath) !== 'package.json') {
+      return { source: filePath, content };
+    }
+    return isPlainObject(content) && content[PACKAGE_JSON_KEY] !== undefined
+      ? { source: `${filePath} ("${PACKAGE_JSON_KEY}" key)`, content: content[PACKAGE_JSON_KEY] }
+      : undefined;
+  } catch (error) {
+    throw new Error(
+      `Failed to load config file: ${filePath}. ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Validates a config file into a layer.
+ *
+ * @param file - Config file content
+ * @param inherited - Config of lower-precedence layers
+ * @returns The layer
+ * @throws Error naming the file and the first invalid key
+ */
+function toConfigLayer(file: RawConfigFile, inherited: ConfigFile): ConfigLayer {
+  try {
+    return { source: file.source, values: validateConfig(file.content, inherited) };
+  } catch (error) {
+    throw new Error(
+      `Invalid config in ${file.source}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Loads and validates one config file.
+ *
+ * @param filePath - Config file path
+ * @param inherited - Config of lower-precedence layers, whose named pipelines and presets the file may use
+ * @returns Promise resolving to the layer, or undefined for a package.json without an `imgtool` key
+ * @throws Error naming the file and the first invalid key
+ */
+export async function loadConfigFile(
+  filePath: string,
+  inherited: ConfigFile = {}
+): Promise<ConfigLayer | undefined> {
+  const file = await readConfigFile(path.resolve(filePath));
+  return file ? toConfigLayer(file, inherited) : undefined;
+}
+
+/**
+ * Finds the config file of a directory, if it has one.
+ *
+ * @param dirPath - Directory to look in
+ * @returns Promise resolving to the file content, or undefined if the directory has no config
+ */
+async function findDirectoryConfig(dirPath: string): Promise<RawConfigFile | undefined> {
+  for (const filename of [...CONFIG_FILENAMES, 'package.json']) {
+    const filePath = path.join(dirPath, filename);
+    const stats = await fs.stat(filePath).catch(() => null);
+    if (!stats?.isFile()) {
+      continue;
+    }
+    const file = await readConfigFile(filePath);
+    if (file) {
+      return file;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Discovers config files from a directory up to the filesystem root.
+ *
+ * Each directory contributes at most one file (the first of `.imgtoolrc`,
+ * `imgtool.config.json`, `imgtool.config.js` and package.json with an
+ * `imgtool` key). The search stops at a config with `"root": true`.
+ *
+ * @param startDir - Directory to start from
+ * @returns Promise resolving to the files, farthest first
+ */
+async function discoverConfigFiles(startDir: string): Promise<RawConfigFile[]> {
+  const files: RawConfigFile[] = [];
+  let dirPath = path.resolve(startDir);
+  for (;;) {
+    const file = await findDirectoryConfig(dirPath);
+    if (file) {
+      files.unshift(file);
+      if (isPlainObject(file.content) && file.content.root === true) {
+        break;
+      }
+    }
+    const parent = path.dirname(dirPath);
+    if (parent === dirPath) {
+      break;
+    }
+    dirPath = parent;
+  }
+  return files;
+}
+
+/**
+ * Reads config overrides from `IMGTOOL_*` environment variables.
+ *
+ * @param env - Environment variables
+ * @param inherited - Config of the config files
+ * @returns The layer, or undefined if no variable is set
+ * @throws Error naming the variable when it is unknown or its value is invalid
+ */
+export function getEnvConfigLayer(
+  env: NodeJS.ProcessEnv = process.env,
+  inherited: ConfigFile = {}
+): ConfigLayer | undefined {
+  const names = new Map(CONFIG_KEYS.map((key) => [toEnvName(key, ENV_PREFIX), key]));
+  const values: Record<string, unknown> = {};
+  const sources: Record<string, string> = {};
+
+  for (const [name, raw] of Object.entries(env)) {
+    if (!name.startsWith(ENV_PREFIX) || raw === undefined) {
+      continue;
+    }
+    const key = names.get(name);
+    if (!key || key === 'root') {
+      const suggestion = suggestConfigKey(
+        name
+          .slice(ENV_PREFIX.length)
+          .toLowerCase()
+          .replace(/_([a-z])/g, (_, char: string) => char.toUpperCase())
+      );
+      throw new Error(
+        `${name}: unknown environment variable` +
+          (suggestion ? ` (did you mean "${toEnvName(suggestion, ENV_PREFIX)}"?)` : '')
+      );
+    }
+    try {
+      values[key] = parseEnvValue(key, raw);
+    } catch (error) {
+      throw new Error(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    sources[key] = `env ${name}`;
+  }
+
+  if (Object.keys(values).length === 0) {
+    return undefined;
+  }
+  try {
+    return { source: 'environment', values: validateConfig(values, inherited), sources };
+  } catch (error) {
+    // Name the variable rather than the config key
+    const message = error instanceof Error ? error.message : String(error);
+    const key = getErrorKey(message, Object.keys(values));
+    throw new Error(key ? `${toEnvName(key, ENV_PREFIX)}${message.slice(key.length)}` : message);
+  }
+}
+
+/**
+ * Resolves the configuration from every layer.
+ *
+ * From lowest to highest precedence: config files discovered from the input
+ * upwards (or the explicit config file instead), then environment variables.
+ * Top-level keys of a higher layer replace those of lower ones; options on
+ * the command line override the result.
+ *
+ * @param options - Where to look for configuration
+ * @returns Promise resolving to the merged configuration
+ * @throws Error naming the file or variable and the key when a layer is invalid
+ */
+export async function resolveConfig(options: ResolveConfigOptions = {}): Promise<ResolvedConfig> {
+  let files: RawConfigFile[];
+  if (options.configPath) {
+    const file = await readConfigFile(path.resolve(options.configPath));
+    files = file ? [file] : [];
+  } else {
+    const input = path.resolve(options.input ?? '.');
+    const inputStats = await fs.stat(input).catch(() => null);
+    files = await discoverConfigFiles(inputStats?.isDirectory() ? input : path.dirname(input));
+  }
+
+  const layers: ConfigLayer[] = [];
+  const merged: ConfigFile = {};
+  const sources: Record<string, string> = {};
+  const addLayer = (layer: ConfigLayer): void => {
+    layers.push(layer);
+    for (const [key, value] of Object.entries(layer.values)) {
+      if (key !== 'root') {
+        Object.assign(merged, { [key]: value });
+        sources[key] = layer.sources?.[key] ?? layer.source;
+      }
+    }
+  };
+
+  for (const file of files) {
+    addLayer(toConfigLayer(file, merged));
+  }
+  const envLayer = getEnvConfigLayer(options.env ?? process.env, merged);
+  if (envLayer) {
+    addLayer(envLayer);
+  }
+
+  // A nearer layer may redefine the pipelines or presets a farther layer uses
+  try {
+    validateConfig(merged);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const key = getErrorKey(message, Object.keys(sources));
+    throw new Error(`Invalid config${key ? ` in ${sources[key]}` : ''}: ${message}`);
+  }
+
+  return { options: merged, sources, layers };
+}
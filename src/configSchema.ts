@@ -0,0 +1,381 @@
+import type { CliOptions } from './types';
+import {
+  FIT_MODES,
+  IMAGE_POSITIONS,
+  METADATA_POLICIES,
+  SUPPORTED_OUTPUT_FORMATS,
+  parseByteSize,
+} from './config';
+import { isPlainObject, validateEncoderOptions } from './encoders';
+import { resolveVariantSpec } from './variants';
+import { validateWatermarkOptions } from './watermark';
+import { resolvePipeline } from './pipeline';
+import { normalizeFileOptions, resolveRules } from './rules';
+import { COLLISION_POLICIES, getTemplatePlaceholders } from './naming';
+import { REPORT_FORMATS } from './report';
+import { PLAN_FORMATS } from './plan';
+import { SOURCE_ACTIONS } from './sources';
+import { resolveInputFormats } from './sniff';
+
+/**
+ * Validation rule for a single config key.
+ */
+type ConfigRule =
+  | { type: 'string' }
+  | { type: 'boolean' }
+  | { type: 'integer'; min: number; max?: number }
+  | { type: 'number'; min: number; max: number; exclusiveMin?: boolean }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'size' }
+  | { type: 'patterns' }
+  | { type: 'json'; expected: string; validate: (value: unknown, config: ConfigFile) => void };
+
+/**
+ * Validated content of a config file or environment layer.
+ */
+export type ConfigFile = Partial<CliOptions> & {
+  /** Stop looking for config files in parent directories */
+  root?: boolean;
+};
+
+const positiveInteger: ConfigRule = { type: 'integer', min: 1 };
+const quality: ConfigRule = { type: 'integer', min: 1, max: 100 };
+const flag: ConfigRule = { type: 'boolean' };
+
+/**
+ * Every key a config file accepts, with its rule.
+ */
+const CONFIG_RULES: Readonly<Record<string, ConfigRule>> = {
+  root: flag,
+  format: { type: 'enum', values: SUPPORTED_OUTPUT_FORMATS },
+  width: positiveInteger,
+  height: positiveInteger,
+  minWidth: positiveInteger,
+  minHeight: positiveInteger,
+  maxWidth: positiveInteger,
+  maxHeight: positiveInteger,
+  quality,
+  maxSize: { type: 'size' },
+  minQuality: quality,
+  shrinkToFit: flag,
+  targetSsim: { type: 'number', min: 0, max: 1, exclusiveMin: true },
+  allowUpscale: flag,
+  keepIfLarger: flag,
+  encoders: {
+    type: 'json',
+    expected: 'an object keyed by output format',
+    validate: (value) => validateEncoderOptions(value),
+  },
+  fit: { type: 'enum', values: FIT_MODES },
+  position: { type: 'enum', values: IMAGE_POSITIONS },
+  background: { type: 'string' },
+  metadata: { type: 'enum', values: METADATA_POLICIES },
+  copyright: { type: 'string' },
+  artist: { type: 'string' },
+  variants: {
+    type: 'json',
+    expected: 'a spec string or an object with widths and formats',
+    validate: (value) => {
+      if (typeof value !== 'string' && !isPlainObject(value)) {
+        throw new Error('expected a spec string or an object with widths and formats');
+      }
+      resolveVariantSpec(value as Parameters<typeof resolveVariantSpec>[0]);
+    },
+  },
+  variantManifest: { type: 'enum', values: ['html', 'json'] },
+  frame: { type: 'integer', min: 0 },
+  density: { type: 'number', min: 1, max: 100000 },
+  dumpFrames: flag,
+  watermark: {
+    type: 'json',
+    expected: 'an object',
+    validate: (value) => validateWatermarkOptions(value),
+  },
+  pipeline: {
+    type: 'json',
+    expected: 'an array of steps',
+    validate: (value, config) => resolvePipeline(value, config.pipelines ?? {}),
+  },
+  pipelines: {
+    type: 'json',
+    expected: 'an object of named pipelines',
+    validate: (value) => {
+      if (!isPlainObject(value)) {
+        throw new Error('expected an object of named pipelines');
+      }
+      for (const name of Object.keys(value)) {
+        resolvePipeline([name], value);
+      }
+    },
+  },
+  presets: {
+    type: 'json',
+    expected: 'an object of named presets',
+    validate: (value, config) => {
+      if (!isPlainObject(value)) {
+        throw new Error('expected an object of named presets');
+      }
+      for (const [name, preset] of Object.entries(value)) {
+        normalizeFileOptions(preset, `presets.${name}`, config.pipelines ?? {});
+      }
+    },
+  },
+  rules: {
+    type: 'json',
+    expected: 'an array of rules',
+    validate: (value, config) => resolveRules(value, config.presets ?? {}, config.pipelines ?? {}),
+  },
+  recursive: flag,
+  anyExtension: flag,
+  inputFormats: {
+    type: 'json',
+    expected: 'a list of input formats',
+    validate: (value) => resolveInputFormats(value),
+  },
+  include: { type: 'patterns' },
+  exclude: { type: 'patterns' },
+  onlyLargerThan: { type: 'size' },
+  onlySmallerThan: { type: 'size' },
+  minSourceWidth: positiveInteger,
+  minSourceHeight: positiveInteger,
+  maxSourceWidth: positiveInteger,
+  maxSourceHeight: positiveInteger,
+  outputTemplate: {
+    type: 'json',
+    expected: 'a template string',
+    validate: (value) => {
+      if (typeof value !== 'string') {
+        throw new Error(`expected a template string, got ${JSON.stringify(value)}`);
+      }
+      getTemplatePlaceholders(value);
+    },
+  },
+  flatten: flag,
+  onCollision: { type: 'enum', values: COLLISION_POLICIES },
+  concurrency: positiveInteger,
+  overwrite: flag,
+  inPlace: flag,
+  backup: flag,
+  sourceAction: { type: 'enum', values: SOURCE_ACTIONS },
+  archiveDir: { type: 'string' },
+  incremental: flag,
+  watch: flag,
+  watchDelete: flag,
+  dryRun: flag,
+  verbose: flag,
+  silent: flag,
+  report: { type: 'string' },
+  reportFormat: { type: 'enum', values: REPORT_FORMATS },
+  planFormat: { type: 'enum', values: PLAN_FORMATS },
+};
+
+/**
+ * Keys a config file accepts.
+ */
+export const CONFIG_KEYS = Object.keys(CONFIG_RULES);
+
+/**
+ * Describes what a config rule expects, for error messages.
+ *
+ * @param rule - Config rule
+ * @returns Human-readable expectation
+ */
+function describeRule(rule: ConfigRule): string {
+  switch (rule.type) {
+    case 'string':
+      return 'a string';
+    case 'boolean':
+      return 'a boolean';
+    case 'integer':
+      return rule.max !== undefined
+        ? `an integer between ${rule.min} and ${rule.max}`
+        : `an integer >= ${rule.min}`;
+    case 'number':
+      return rule.exclusiveMin
+        ? `a number greater than ${rule.min} and at most ${rule.max}`
+        : `a number between ${rule.min} and ${rule.max}`;
+    case 'enum':
+      return `one of ${rule.values.map((value) => `"${value}"`).join(', ')}`;
+    case 'size':
+      return 'a number of bytes or a size such as "200KB"';
+    case 'patterns':
+      return 'a glob pattern or a list of glob patterns';
+    case 'json':
+      return rule.expected;
+  }
+}
+
+/**
+ * Checks a value against a config rule.
+ *
+ * @param rule - Config rule (other than `json`, which validates itself)
+ * @param value - Value to check
+ * @returns True if the value satisfies the rule
+ */
+function matchesRule(rule: Exclude<ConfigRule, { type: 'json' }>, value: unknown): boolean {
+  switch (rule.type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'integer':
+      return (
+        typeof value === 'number' &&
+        Number.isInteger(value) &&
+        value >= rule.min &&
+        (rule.max === undefined || value <= rule.max)
+      );
+    case 'number':
+      return (
+        typeof value === 'number' &&
+        (rule.exclusiveMin ? value > rule.min : value >= rule.min) &&
+        value <= rule.max
+      );
+    case 'enum':
+      return typeof value === 'string' && rule.values.includes(value);
+    case 'size':
+      try {
+        return (typeof value === 'string' || typeof value === 'number') && !!parseByteSize(value);
+      } catch {
+        return false;
+      }
+    case 'patterns':
+      return (
+        typeof value === 'string' ||
+        (Array.isArray(value) && value.every((pattern) => typeof pattern === 'string'))
+      );
+  }
+}
+
+/**
+ * Counts the single-character edits between two strings.
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns Levenshtein distance
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Suggests the config key closest to an unknown key.
+ *
+ * @param key - Unknown key
+ * @returns Closest known key, or undefined if none is close
+ */
+export function suggestConfigKey(key: string): string | undefined {
+  const lower = key.toLowerCase();
+  let best: { key: string; distance: number } | undefined;
+  for (const candidate of CONFIG_KEYS) {
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (!best || distance < best.distance) {
+      best = { key: candidate, distance };
+    }
+  }
+  return best && best.distance <= Math.max(2, Math.floor(key.length / 3)) ? best.key : undefined;
+}
+
+/**
+ * Validates one config value.
+ *
+ * @param key - Config key
+ * @param value - Value to check
+ * @param config - Whole config, for keys that refer to others (pipelines, presets)
+ * @throws Error naming the key path, the expected type or allowed values, and the value
+ */
+export function validateConfigValue(key: string, value: unknown, config: ConfigFile): void {
+  const rule = Object.hasOwn(CONFIG_RULES, key) ? CONFIG_RULES[key] : undefined;
+  if (!rule) {
+    const suggestion = suggestConfigKey(key);
+    throw new Error(
+      `${key}: unknown option` + (suggestion ? ` (did you mean "${suggestion}"?)` : '')
+    );
+  }
+
+  if (rule.type === 'json') {
+    try {
+      rule.validate(value, config);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // Nested validators already name the key path, e.g. "encoders.png.colors: ..."
+      throw new Error(message.startsWith(key) ? message : `${key}: ${message}`);
+    }
+    return;
+  }
+  if (!matchesRule(rule, value)) {
+    throw new Error(`${key}: expected ${describeRule(rule)}, got ${JSON.stringify(value)}`);
+  }
+}
+
+/**
+ * Validates the content of a config file against the schema.
+ *
+ * @param value - Parsed config file content
+ * @param inherited - Config of lower-precedence layers, whose named pipelines and presets the content may use
+ * @returns The config, typed
+ * @throws Error naming the first invalid key
+ */
+export function validateConfig(value: unknown, inherited: ConfigFile = {}): ConfigFile {
+  if (!isPlainObject(value)) {
+    throw new Error('expected an object of options');
+  }
+  const config = { ...inherited, ...value } as ConfigFile;
+  for (const [key, optionValue] of Object.entries(value)) {
+    validateConfigValue(key, optionValue, config);
+  }
+  return value as ConfigFile;
+}
+
+/**
+ * Gets the environment variable that overrides a config key, e.g. `IMGTOOL_MAX_WIDTH`.
+ *
+ * @param key - Config key
+ * @param prefix - Variable name prefix
+ * @returns Environment variable name
+ */
+export function toEnvName(key: string, prefix: string): string {
+  return prefix + key.replace(/[A-Z]/g, (char) => `_${char}`).toUpperCase();
+}
+
+/**
+ * Parses an environment variable value for a config key.
+ *
+ * Numbers and booleans (`true`/`false`/`1`/`0`) are converted, pattern and
+ * input format lists are comma-separated, and object-valued keys take JSON.
+ *
+ * @param key - Config key
+ * @param raw - Environment variable value
+ * @returns Parsed value (validated later like a config file value)
+ */
+export function parseEnvValue(key: string, raw: string): unknown {
+  const rule = Object.hasOwn(CONFIG_RULES, key) ? CONFIG_RULES[key] : undefined;
+  switch (rule?.type) {
+    case 'boolean':
+      return raw === 'true' || raw === '1' ? true : raw === 'false' || raw === '0' ? false : raw;
+    case 'integer':
+    case 'number':
+      return raw.trim() !== '' && Number.isFinite(Number(raw)) ? Number(raw) : raw;
+    case 'patterns':
+      return raw
+        .split(',')
+        .map((pattern) => pattern.trim())
+        .filter((pattern) => pattern !== '');
+    case 'json':
+      if (key === 'variants' || key === 'outputTemplate' || key === 'inputFormats') {
+        return raw.trim().startsWith('{') ? JSON.parse(raw) : raw;
+      }
+      return JSON.parse(raw);
+    default:
+      return raw;
+  }
+}
@@ -0,0 +1,193 @@
+import type { EncoderOptions, ImageFormat } from './types';
+
+/**
+ * Validation rule for a single encoder option.
+ */
+type OptionRule =
+  | { type: 'boolean' }
+  | { type: 'integer'; min: number; max: number }
+  | { type: 'number'; min: number; max: number }
+  | { type: 'enum'; values: readonly string[] };
+
+/**
+ * Output formats that accept encoder options.
+ */
+type EncoderFormat = keyof EncoderOptions;
+
+/**
+ * Allowed encoder options and their rules, per output format.
+ */
+const ENCODER_OPTION_RULES: Readonly<Record<EncoderFormat, Readonly<Record<string, OptionRule>>>> =
+  {
+    jpeg: {
+      progressive: { type: 'boolean' },
+      mozjpeg: { type: 'boolean' },
+      chromaSubsampling: { type: 'enum', values: ['4:2:0', '4:4:4'] },
+      optimiseCoding: { type: 'boolean' },
+    },
+    png: {
+      progressive: { type: 'boolean' },
+      compressionLevel: { type: 'integer', min: 0, max: 9 },
+      palette: { type: 'boolean' },
+      colors: { type: 'integer', min: 2, max: 256 },
+      dither: { type: 'number', min: 0, max: 1 },
+      effort: { type: 'integer', min: 1, max: 10 },
+    },
+    webp: {
+      lossless: { type: 'boolean' },
+      nearLossless: { type: 'boolean' },
+      alphaQuality: { type: 'integer', min: 0, max: 100 },
+      smartSubsample: { type: 'boolean' },
+      effort: { type: 'integer', min: 0, max: 6 },
+    },
+    avif: {
+      lossless: { type: 'boolean' },
+      effort: { type: 'integer', min: 0, max: 9 },
+      chromaSubsampling: { type: 'enum', values: ['4:2:0', '4:4:4'] },
+    },
+    tiff: {
+      compression: {
+        type: 'enum',
+        values: ['none', 'jpeg', 'deflate', 'packbits', 'lzw', 'webp', 'zstd'],
+      },
+      predictor: { type: 'enum', values: ['none', 'horizontal', 'float'] },
+    },
+    gif: {
+      colors: { type: 'integer', min: 2, max: 256 },
+      dither: { type: 'number', min: 0, max: 1 },
+      effort: { type: 'integer', min: 1, max: 10 },
+    },
+    jxl: {
+      lossless: { type: 'boolean' },
+      effort: { type: 'integer', min: 3, max: 9 },
+      decodingTier: { type: 'integer', min: 0, max: 4 },
+    },
+    jp2: {
+      lossless: { type: 'boolean' },
+      chromaSubsampling: { type: 'enum', values: ['4:2:0', '4:4:4'] },
+    },
+  };
+
+/**
+ * Describes what an option rule expects, for error messages.
+ *
+ * @param rule - Option rule
+ * @returns Human-readable expectation
+ */
+function describeRule(rule: OptionRule): string {
+  switch (rule.type) {
+    case 'boolean':
+      return 'a boolean';
+    case 'integer':
+      return `an integer between ${rule.min} and ${rule.max}`;
+    case 'number':
+      return `a number between ${rule.min} and ${rule.max}`;
+    case 'enum':
+      return `one of ${rule.values.map((value) => `"${value}"`).join(', ')}`;
+  }
+}
+
+/**
+ * Checks a value against an option rule.
+ *
+ * @param rule - Option rule
+ * @param value - Value to check
+ * @returns True if the value satisfies the rule
+ */
+function matchesRule(rule: OptionRule, value: unknown): boolean {
+  switch (rule.type) {
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'integer':
+      return (
+        typeof value === 'number' &&
+        Number.isInteger(value) &&
+        value >= rule.min &&
+        value <= rule.max
+      );
+    case 'number':
+      return typeof value === 'number' && value >= rule.min && value <= rule.max;
+    case 'enum':
+      return typeof value === 'string' && rule.values.includes(value);
+  }
+}
+
+/**
+ * Checks whether a value is a plain object.
+ *
+ * @param value - Value to check
+ * @returns True for non-null, non-array objects
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates encoder options from a config file.
+ *
+ * `jpg` is accepted as an alias for `jpeg`.
+ *
+ * @param value - Raw `encoders` value from the config file
+ * @returns Validated EncoderOptions
+ * @throws Error naming the offending key when a format or option doesn't apply or a value is invalid
+ */
+export function validateEncoderOptions(value: unknown): EncoderOptions {
+  if (!isPlainObject(value)) {
+    throw new Error('encoders: expected an object keyed by output format');
+  }
+
+  const formats = Object.keys(ENCODER_OPTION_RULES);
+  const result: EncoderOptions = {};
+
+  for (const [key, formatOptions] of Object.entries(value)) {
+    const format = (key === 'jpg' ? 'jpeg' : key) as EncoderFormat;
+    const rules = Object.hasOwn(ENCODER_OPTION_RULES, format)
+      ? ENCODER_OPTION_RULES[format]
+      : undefined;
+    if (!rules) {
+      throw new Error(
+        `encoders.${key}: no encoder options for this format (allowed: ${formats.join(', ')})`
+      );
+    }
+    if (!isPlainObject(formatOptions)) {
+      throw new Error(`encoders.${key}: expected an object of ${format} encoder options`);
+    }
+
+    for (const [option, optionValue] of Object.entries(formatOptions)) {
+      const rule = Object.hasOwn(rules, option) ? rules[option] : undefined;
+      if (!rule) {
+        throw new Error(
+          `encoders.${key}.${option}: not a ${format} encoder option ` +
+            `(allowed: ${Object.keys(rules).join(', ')})`
+        );
+      }
+      if (!matchesRule(rule, optionValue)) {
+        throw new Error(
+          `encoders.${key}.${option}: expected ${describeRule(rule)}, got ${JSON.stringify(optionValue)}`
+        );
+      }
+    }
+
+    result[format] = { ...result[format], ...formatOptions };
+  }
+
+  return result;
+}
+
+/**
+ * Gets the encoder options that apply to an output format.
+ *
+ * @param format - Normalized output format
+ * @param encoders - Encoder options for all formats
+ * @returns Options to pass to sharp for this format (empty if none apply)
+ */
+export function getEncoderOptionsForFormat(
+  format: ImageFormat,
+  encoders: EncoderOptions | undefined
+): Record<string, unknown> {
+  if (!encoders) {
+    return {};
+  }
+  const key = (format === 'jpg' ? 'jpeg' : format) as EncoderFormat;
+  return { ...(encoders[key] ?? {}) };
+}
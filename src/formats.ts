@@ -0,0 +1,266 @@
+import sharp from 'sharp';
+
+/**
+ * Static description of an image format.
+ *
+ * Whether a format can actually be read or written depends on the libvips
+ * build sharp was installed with, so the loaders and savers named here are
+ * checked against `sharp.format` when the capabilities are resolved.
+ */
+interface FormatDefinition {
+  /** Canonical format name, also the extension outputs are written with */
+  name: string;
+  /** Other names accepted for the format (`jpg` for `jpeg`) */
+  aliases: readonly string[];
+  /** File extensions of the format, without dot */
+  extensions: readonly string[];
+  /** MIME type of the format */
+  mimeType: string;
+  /** Key of sharp.format whose loader reads the format */
+  loader?: string;
+  /** How outputs are encoded: by sharp (checked against the sharp.format key `saver`), or natively */
+  encoder?: { sharp: keyof sharp.FormatEnum; saver: string } | 'native';
+  /** Whether the encoder takes a quality setting */
+  quality?: boolean;
+  /** Whether the format can store multiple frames with delays and a loop count */
+  animation?: boolean;
+}
+
+/**
+ * Every format the tool knows about. BMP and ICO are written by the native
+ * encoders in `nativeEncoders.ts`, since libvips has no saver for them, and
+ * are only read when libvips was built with ImageMagick.
+ */
+const FORMAT_DEFINITIONS = [
+  {
+    name: 'jpeg',
+    aliases: ['jpg', 'jpe', 'jfif'],
+    extensions: ['jpg', 'jpeg', 'jpe', 'jfif'],
+    mimeType: 'image/jpeg',
+    loader: 'jpeg',
+    encoder: { sharp: 'jpeg', saver: 'jpeg' },
+    quality: true,
+  },
+  {
+    name: 'png',
+    aliases: [],
+    extensions: ['png'],
+    mimeType: 'image/png',
+    loader: 'png',
+    encoder: { sharp: 'png', saver: 'png' },
+  },
+  {
+    name: 'webp',
+    aliases: [],
+    extensions: ['webp'],
+    mimeType: 'image/webp',
+    loader: 'webp',
+    encoder: { sharp: 'webp', saver: 'webp' },
+    quality: true,
+    animation: true,
+  },
+  {
+    name: 'gif',
+    aliases: [],
+    extensions: ['gif'],
+    mimeType: 'image/gif',
+    loader: 'gif',
+    encoder: { sharp: 'gif', saver: 'gif' },
+    animation: true,
+  },
+  {
+    name: 'tiff',
+    aliases: ['tif'],
+    extensions: ['tiff', 'tif'],
+    mimeType: 'image/tiff',
+    loader: 'tiff',
+    encoder: { sharp: 'tiff', saver: 'tiff' },
+  },
+  {
+    name: 'avif',
+    aliases: [],
+    extensions: ['avif'],
+    mimeType: 'image/avif',
+    loader: 'heif',
+    encoder: { sharp: 'avif', saver: 'heif' },
+    quality: true,
+  },
+  {
+    name: 'heif',
+    aliases: ['heic', 'hif'],
+    extensions: ['heif', 'heic', 'hif'],
+    mimeType: 'image/heif',
+    // No loader: HEIC images are HEVC-coded, and the heif loader of the prebuilt
+    // libvips only decodes AV1 (AVIF). sharp.format cannot tell the two apart,
+    // so HEIF sources would be picked up and then fail to decode.
+  },
+  {
+    name: 'jxl',
+    aliases: [],
+    extensions: ['jxl'],
+    mimeType: 'image/jxl',
+    loader: 'jxl',
+    encoder: { sharp: 'jxl', saver: 'jxl' },
+    quality: true,
+  },
+  {
+    name: 'jp2',
+    aliases: ['j2k', 'j2c', 'jpx'],
+    extensions: ['jp2', 'j2k', 'j2c', 'jpx'],
+    mimeType: 'image/jp2',
+    loader: 'jp2k',
+    encoder: { sharp: 'jp2', saver: 'jp2k' },
+    quality: true,
+  },
+  {
+    name: 'svg',
+    aliases: [],
+    extensions: ['svg'],
+    mimeType: 'image/svg+xml',
+    loader: 'svg',
+  },
+  {
+    name: 'bmp',
+    aliases: [],
+    extensions: ['bmp'],
+    mimeType: 'image/bmp',
+    loader: 'magick',
+    encoder: 'native',
+  },
+  {
+    name: 'ico',
+    aliases: [],
+    extensions: ['ico'],
+    mimeType: 'image/x-icon',
+    loader: 'magick',
+    encoder: 'native',
+  },
+] as const satisfies readonly FormatDefinition[];
+
+/**
+ * Canonical name of a known format.
+ */
+export type FormatName = (typeof FORMAT_DEFINITIONS)[number]['name'];
+
+/**
+ * Alternative name of a known format.
+ */
+export type FormatAlias = (typeof FORMAT_DEFINITIONS)[number]['aliases'][number];
+
+/**
+ * What the tool can do with a format in this libvips build.
+ */
+export interface FormatCapability {
+  /** Canonical format name, also the extension outputs are written with */
+  name: FormatName;
+  /** Other names accepted for the format */
+  aliases: readonly FormatAlias[];
+  /** File extensions of the format, without dot */
+  extensions: readonly string[];
+  /** MIME type of the format */
+  mimeType: string;
+  /** Whether sources in this format can be read */
+  input: boolean;
+  /** How outputs are encoded, or null if the format cannot be written */
+  output: 'sharp' | 'native' | null;
+  /** Format passed to sharp's toFormat, for outputs encoded by sharp */
+  sharpFormat?: keyof sharp.FormatEnum;
+  /** Whether the encoder takes a quality setting */
+  quality: boolean;
+  /** Whether the format can store multiple frames with delays and a loop count */
+  animation: boolean;
+}
+
+/**
+ * Loader and saver availability, as reported by sharp.format.
+ */
+export type FormatAvailability = Readonly<
+  Record<string, Pick<sharp.AvailableFormatInfo, 'input' | 'output'> | undefined>
+>;
+
+/**
+ * Resolves the format capabilities against the loaders and savers libvips provides.
+ *
+ * @param available - Format availability (default: sharp.format)
+ * @returns Capability of every known format
+ */
+export function resolveFormatCapabilities(
+  available: FormatAvailability = sharp.format as unknown as FormatAvailability
+): FormatCapability[] {
+  return FORMAT_DEFINITIONS.map((definition: FormatDefinition): FormatCapability => {
+    const { encoder } = definition;
+    let output: FormatCapability['output'] = null;
+    if (encoder === 'native') {
+      output = 'native';
+    } else if (encoder && available[encoder.saver]?.output.buffer) {
+      output = 'sharp';
+    }
+    return {
+      name: definition.name as FormatName,
+      aliases: definition.aliases as readonly FormatAlias[],
+      extensions: definition.extensions,
+      mimeType: definition.mimeType,
+      input: definition.loader !== undefined && !!available[definition.loader]?.input.file,
+      output,
+      sharpFormat: output === 'sharp' && typeof encoder === 'object' ? encoder.sharp : undefined,
+      quality: output !== null && !!definition.quality,
+      animation: output !== null && !!definition.animation,
+    };
+  });
+}
+
+/**
+ * Capabilities of every known format in this libvips build.
+ */
+export const FORMAT_CAPABILITIES: readonly FormatCapability[] = resolveFormatCapabilities();
+
+/**
+ * Gets the capability of a format by its name or an alias.
+ *
+ * @param format - Format name or alias (case-insensitive)
+ * @returns Format capability, or undefined for unknown formats
+ */
+export function getFormatCapability(format: string): FormatCapability | undefined {
+  const normalized = format.toLowerCase();
+  return FORMAT_CAPABILITIES.find(
+    (capability) =>
+      capability.name === normalized ||
+      (capability.aliases as readonly string[]).includes(normalized)
+  );
+}
+
+/**
+ * Gets the capability of the format a file extension belongs to.
+ *
+ * @param extension - File extension, without dot (case-insensitive)
+ * @returns Format capability, or undefined for unknown extensions
+ */
+export function getFormatByExtension(extension: string): FormatCapability | undefined {
+  const normalized = extension.toLowerCase();
+  return FORMAT_CAPABILITIES.find((capability) => capability.extensions.includes(normalized));
+}
+
+/**
+ * Lists the canonical names of the formats matching a capability.
+ *
+ * @param matches - Capability check
+ * @returns Canonical names, in table order
+ */
+export function listFormats(matches: (capability: FormatCapability) => boolean): FormatName[] {
+  return FORMAT_CAPABILITIES.filter(matches).map((capability) => capability.name);
+}
+
+/**
+ * Lists the names and aliases of the formats matching a capability.
+ *
+ * @param matches - Capability check
+ * @returns Canonical names, each followed by its aliases
+ */
+export function listFormatNames(
+  matches: (capability: FormatCapability) => boolean
+): (FormatName | FormatAlias)[] {
+  return FORMAT_CAPABILITIES.filter(matches).flatMap((capability) => [
+    capability.name,
+    ...capability.aliases,
+  ]);
+}
@@ -0,0 +1,89 @@
+/**
+ * Escapes a character that has a special meaning in regular expressions.
+ *
+ * @param char - Character to escape
+ * @returns Escaped character
+ */
+function escapeRegExpChar(char: string): string {
+  return /[.+^${}()|[\]\\/]/.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * Converts a glob pattern to a regular expression matching whole paths.
+ *
+ * Supports `*` (any characters except `/`), `**` (any number of directories),
+ * `?`, character classes (`[a-z]`, `[!0-9]`) and alternatives (`{png,jpg}`).
+ * Paths use `/` as the separator.
+ *
+ * @param glob - Glob pattern
+ * @returns Regular expression anchored at both ends
+ */
+export function globToRegExp(glob: string): RegExp {
+  return new RegExp(`^${globToRegExpSource(glob)}$`);
+}
+
+/**
+ * Converts a glob pattern to regular expression source.
+ *
+ * @param glob - Glob pattern
+ * @returns Unanchored regular expression source
+ */
+function globToRegExpSource(glob: string): string {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        i++;
+        if (glob[i + 1] === '/') {
+          // `**/` matches zero or more leading directories
+          i++;
+          source += '(?:.*/)?';
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const end = glob.indexOf(']', i + 2);
+      const members = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += members.startsWith('!') ? `[^${members.slice(1)}]` : `[${members}]`;
+      i = end;
+    } else if (char === '{' && glob.indexOf('}', i + 1) !== -1) {
+      const end = glob.indexOf('}', i + 1);
+      const alternatives = glob
+        .slice(i + 1, end)
+        .split(',')
+        .map(globToRegExpSource);
+      source += `(?:${alternatives.join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExpChar(char);
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Checks whether a relative path matches a gitignore-style pattern.
+ *
+ * Patterns without a `/` (other than a trailing one) match the name at any
+ * depth, e.g. `*.gif` matches `a/b/c.gif`. Patterns containing a `/` are
+ * anchored to the base directory, e.g. `photos/*.png` or `/logo.png`.
+ *
+ * @param relativePath - Path relative to the base directory, with `/` separators
+ * @param pattern - Glob pattern
+ * @returns True if the path matches
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  const trimmed = pattern.replace(/\/+$/, '');
+  const anchored = trimmed.includes('/');
+  const glob = trimmed.replace(/^\/+/, '');
+  return globToRegExp(anchored ? glob : `**/${glob}`).test(relativePath);
+}
@@ -1,18 +1,56 @@
 import sharp from 'sharp';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import type { ImageProcessingOptions, ProcessResult } from './types';
-import { formatSupportsQuality, normalizeFormat } from './config';
+import { Readable } from 'stream';
+import { buffer as readAll } from 'stream/consumers';
+import type {
+  BufferProcessResult,
+  FrameResult,
+  PlannedFile,
+  ImageFormat,
+  ImageProcessingOptions,
+  ProcessResult,
+  StreamProcessResult,
+  VariantResult,
+  VariantSpec,
+} from './types';
+import {
+  DEFAULT_MIN_QUALITY,
+  DEFAULT_QUALITY,
+  MAX_QUALITY,
+  SHRINK_TO_FIT_MAX_STEPS,
+  SHRINK_TO_FIT_STEP,
+  formatSupportsAnimation,
+  formatSupportsQuality,
+  normalizeFormat,
+} from './config';
+import { applyMetadataPolicy } from './metadata';
+import { getEncoderOptionsForFormat } from './encoders';
+import { getFormatByExtension, getFormatCapability } from './formats';
+import { encodeNative, toNativeEncoderInput } from './nativeEncoders';
+import { computeSsim } from './similarity';
+import { createWatermarkOverlay } from './watermark';
+import { applyPipeline, toSharpPosition } from './pipeline';
+import {
+  buildPictureHtml,
+  buildVariantManifest,
+  expandVariants,
+  getFrameOutputPath,
+  getVariantOutputPath,
+} from './variants';
 
 /**
- * Calculates the target dimensions while maintaining aspect ratio.
+ * Calculates the target dimensions for the given constraints.
+ *
+ * The aspect ratio is preserved unless both width and height are given with a
+ * `cover`, `contain` or `fill` fit, in which case the output is exactly that box.
  *
  * @param originalWidth - Original image width
  * @param originalHeight - Original image height
  * @param options - Processing options with width/height constraints
  * @returns Object with target width and height
  */
-function calculateTargetDimensions(
+export function calculateTargetDimensions(
   originalWidth: number,
   originalHeight: number,
   options: ImageProcessingOptions
@@ -30,12 +68,20 @@ function calculateTargetDimensions(
     targetHeight = options.height;
     targetWidth = Math.round((originalWidth * options.height) / originalHeight);
   } else if (options.width && options.height) {
-    // Both specified - fit within bounding box while maintaining aspect ratio
-    const widthRatio = options.width / originalWidth;
-    const heightRatio = options.height / originalHeight;
-    const ratio = Math.min(widthRatio, heightRatio);
-    targetWidth = Math.round(originalWidth * ratio);
-    targetHeight = Math.round(originalHeight * ratio);
+    const fit = options.fit ?? 'inside';
+    if (fit === 'cover' || fit === 'contain' || fit === 'fill') {
+      // Exact box - cropping, letterboxing or stretching absorbs the ratio change
+      targetWidth = options.width;
+      targetHeight = options.height;
+    } else {
+      // Fit within (inside) or around (outside) the box while maintaining aspect ratio
+      const widthRatio = options.width / originalWidth;
+      const heightRatio = options.height / originalHeight;
+      const ratio =
+        fit === 'outside' ? Math.max(widthRatio, heightRatio) : Math.min(widthRatio, heightRatio);
+      targetWidth = Math.round(originalWidth * ratio);
+      targetHeight = Math.round(originalHeight * ratio);
+    }
   }
 
   // Apply min constraints
@@ -75,9 +121,638 @@ function calculateTargetDimensions(
   return { width: targetWidth, height: targetHeight };
 }
 
+/**
+ * Predicts the dimensions of the encoded output without decoding the image.
+ *
+ * Follows calculateTargetDimensions, then the resize sharp applies: `contain`
+ * pads to the exact box, `cover` and `fill` never exceed the source on either
+ * axis, and `inside`/`outside` keep the source size instead of enlarging
+ * (unless upscaling is allowed). Shrink-to-fit may still reduce the result.
+ *
+ * @param sourceWidth - Source display width in pixels
+ * @param sourceHeight - Source display height in pixels
+ * @param options - Image processing options
+ * @returns Planned output dimensions
+ */
+export function calculateOutputDimensions(
+  sourceWidth: number,
+  sourceHeight: number,
+  options: ImageProcessingOptions
+): { width: number; height: number } {
+  const target = calculateTargetDimensions(sourceWidth, sourceHeight, options);
+  if (target.width === sourceWidth && target.height === sourceHeight) {
+    return target;
+  }
+
+  const fit = options.fit ?? 'inside';
+  if (fit === 'contain') {
+    return target;
+  }
+  if (fit === 'cover' || fit === 'fill') {
+    return options.allowUpscale
+      ? target
+      : {
+          width: Math.min(target.width, sourceWidth),
+          height: Math.min(target.height, sourceHeight),
+        };
+  }
+  const scaled = scaleDimensions(sourceWidth, sourceHeight, target, fit);
+  if (!options.allowUpscale && (scaled.width > sourceWidth || scaled.height > sourceHeight)) {
+    return { width: sourceWidth, height: sourceHeight };
+  }
+  return scaled;
+}
+
+/**
+ * Scales source dimensions to fit inside or around a box, keeping the aspect ratio.
+ *
+ * @param sourceWidth - Source width in pixels
+ * @param sourceHeight - Source height in pixels
+ * @param box - Box dimensions
+ * @param fit - `inside` or `outside`
+ * @returns Scaled dimensions
+ */
+function scaleDimensions(
+  sourceWidth: number,
+  sourceHeight: number,
+  box: { width: number; height: number },
+  fit: 'inside' | 'outside'
+): { width: number; height: number } {
+  const widthRatio = box.width / sourceWidth;
+  const heightRatio = box.height / sourceHeight;
+  const ratio =
+    fit === 'outside' ? Math.max(widthRatio, heightRatio) : Math.min(widthRatio, heightRatio);
+  return { width: Math.round(sourceWidth * ratio), height: Math.round(sourceHeight * ratio) };
+}
+
+/**
+ * Source image properties needed to build a processing pipeline.
+ */
+interface SourceInfo {
+  /** Display width in pixels, after EXIF orientation */
+  width: number;
+  /** Display height in pixels, after EXIF orientation (of one frame, when animated) */
+  height: number;
+  /** Frames decoded into the pipeline; above 1 only when encoding an animation */
+  pages: number;
+  /** Raw EXIF block, if present */
+  exif?: Buffer;
+}
+
+/**
+ * A source image opened for encoding to a particular format.
+ */
+interface OpenedSource {
+  /** Sharp instance reading the source image */
+  image: sharp.Sharp;
+  /** Source image properties */
+  source: SourceInfo;
+  /** Number of frames in the source file */
+  frameCount: number;
+}
+
+/**
+ * Reads the source properties from sharp metadata.
+ *
+ * EXIF orientations 5-8 rotate the image by 90 degrees, so the stored width
+ * and height are swapped to get the displayed dimensions.
+ *
+ * @param metadata - Sharp metadata of the source image
+ * @param animated - Whether the source was opened with all frames
+ * @returns SourceInfo with display dimensions
+ * @throws Error if the dimensions cannot be read
+ */
+function getSourceInfo(metadata: sharp.Metadata, animated = false): SourceInfo {
+  if (!metadata.width || !metadata.height) {
+    throw new Error('Unable to read image dimensions');
+  }
+  // Animated sources are decoded as one tall strip of frames
+  const height = animated ? (metadata.pageHeight ?? metadata.height) : metadata.height;
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  return {
+    width: rotated ? height : metadata.width,
+    height: rotated ? metadata.width : height,
+    pages: animated ? (metadata.pages ?? 1) : 1,
+    exif: metadata.exif,
+  };
+}
+
+/**
+ * Opens a source image for encoding to the given format.
+ *
+ * Animated sources keep every frame when the format can store an animation
+ * (GIF, WebP) and no single frame is selected; otherwise one frame is
+ * decoded as a still (the first, unless `options.frame` is set). A
+ * transform pipeline also decodes a still, and runs on it here. Vector
+ * sources are rasterized at `options.density`.
+ *
+ * @param input - Source file path or encoded image data
+ * @param options - Image processing options
+ * @param format - Output format the source is encoded to
+ * @returns Promise resolving to the opened source
+ * @throws Error if the source cannot be read, the selected frame does not exist or a pipeline step fails
+ */
+async function openSource(
+  input: string | Buffer,
+  options: ImageProcessingOptions,
+  format: ImageFormat
+): Promise<OpenedSource> {
+  const frameCount = (await sharp(input, { density: options.density }).metadata()).pages ?? 1;
+  if (options.frame !== undefined && options.frame >= frameCount) {
+    throw new Error(
+      `Frame ${options.frame} does not exist (the source has ${frameCount} frame${frameCount === 1 ? '' : 's'})`
+    );
+  }
+
+  const animated =
+    frameCount > 1 &&
+    options.frame === undefined &&
+    !options.dumpFrames &&
+    !options.pipeline?.length &&
+    formatSupportsAnimation(normalizeFormat(format));
+  let image = sharp(input, {
+    density: options.density,
+    ...(animated ? { animated: true } : { page: options.frame ?? 0 }),
+  });
+  if (options.pipeline?.length) {
+    image = await applyPipeline(image, options.pipeline);
+  }
+  return { image, source: getSourceInfo(await image.metadata(), animated), frameCount };
+}
+
+/**
+ * Applies orientation, resizing, metadata and output encoding to a sharp pipeline.
+ *
+ * @param pipeline - Sharp pipeline reading the source image
+ * @param source - Source image properties
+ * @param options - Image processing options
+ * @returns Pipeline with transforms applied
+ */
+function buildPipeline(
+  pipeline: sharp.Sharp,
+  source: SourceInfo,
+  options: ImageProcessingOptions,
+  overlay?: sharp.OverlayOptions
+): sharp.Sharp {
+  // Calculate target dimensions
+  const { width, height } = calculateTargetDimensions(source.width, source.height, options);
+
+  // Correct EXIF orientation before resizing (also drops the orientation tag);
+  // animations carry no orientation, and sharp cannot rotate multi-page images
+  if (source.pages === 1) {
+    pipeline = pipeline.rotate();
+  }
+
+  // Apply resizing if dimensions changed
+  if (width !== source.width || height !== source.height) {
+    pipeline = pipeline.resize(width, height, {
+      fit: options.fit ?? 'inside',
+      position: toSharpPosition(options.position),
+      background: options.background,
+      withoutEnlargement: !options.allowUpscale,
+    });
+  }
+
+  // Composite the watermark onto the resized image
+  if (overlay) {
+    pipeline = pipeline.composite([overlay]);
+  }
+
+  // Convert format, applying quality if supported and the format's encoder options;
+  // formats libvips cannot write get the input of their native encoder instead
+  const format = normalizeFormat(options.format);
+  const capability = getFormatCapability(format);
+  if (capability?.output === 'native') {
+    pipeline = toNativeEncoderInput(pipeline, format);
+  } else {
+    const encoderOptions = getEncoderOptionsForFormat(format, options.encoders);
+    if (formatSupportsQuality(format) && options.quality !== undefined) {
+      encoderOptions.quality = options.quality;
+    }
+    pipeline = pipeline.toFormat(capability?.sharpFormat as keyof sharp.FormatEnum, encoderOptions);
+  }
+
+  // Carry over source metadata according to the policy
+  return applyMetadataPolicy(pipeline, source.exif, options);
+}
+
+/**
+ * Builds the watermark overlay for the output dimensions, if a watermark is set.
+ *
+ * @param source - Source image properties
+ * @param options - Image processing options
+ * @returns Promise resolving to the overlay, or undefined without a watermark
+ */
+async function createOverlay(
+  source: SourceInfo,
+  options: ImageProcessingOptions
+): Promise<sharp.OverlayOptions | undefined> {
+  if (!options.watermark) {
+    return undefined;
+  }
+  const { width, height } = calculateOutputDimensions(source.width, source.height, options);
+  return createWatermarkOverlay(options.watermark, width, height, source.pages);
+}
+
+/**
+ * An encoded output image held in memory.
+ */
+interface EncodedImage {
+  /** Encoded image data */
+  data: Buffer;
+  /** Output info reported by sharp */
+  info: sharp.OutputInfo;
+  /** Quality the image was encoded at, for formats that support quality */
+  quality?: number;
+  /** SSIM against the resized source, when targeting perceptual quality */
+  ssim?: number;
+  /** Whether the SSIM reached the target, when targeting perceptual quality */
+  targetMet?: boolean;
+}
+
+/**
+ * Encodes the source image with the given options.
+ *
+ * @param image - Sharp instance reading the source image
+ * @param source - Source image properties
+ * @param options - Image processing options
+ * @returns Promise resolving to the encoded image
+ */
+async function encode(
+  image: sharp.Sharp,
+  source: SourceInfo,
+  options: ImageProcessingOptions
+): Promise<EncodedImage> {
+  // clone() shares the decoded input between repeated encodes
+  const overlay = await createOverlay(source, options);
+  const output = await buildPipeline(image.clone(), source, options, overlay).toBuffer({
+    resolveWithObject: true,
+  });
+  const format = normalizeFormat(options.format);
+  const data =
+    getFormatCapability(format)?.output === 'native'
+      ? encodeNative(format, output.data, output.info)
+      : output.data;
+  const info = { ...output.info, format, size: data.length };
+  const quality = formatSupportsQuality(normalizeFormat(options.format))
+    ? options.quality
+    : undefined;
+  // Report the height of one frame rather than the whole strip of an animation
+  return { data, info: { ...info, height: info.height / source.pages }, quality };
+}
+
+/**
+ * Binary-searches the highest quality whose output fits in the byte budget.
+ *
+ * @param image - Sharp instance reading the source image
+ * @param source - Source image properties
+ * @param options - Image processing options
+ * @param maxSize - Byte budget
+ * @returns Promise resolving to the best fitting encode and the smallest encode tried
+ */
+async function searchQualityForSize(
+  image: sharp.Sharp,
+  source: SourceInfo,
+  options: ImageProcessingOptions,
+  maxSize: number
+): Promise<{ fit?: EncodedImage; smallest: EncodedImage }> {
+  const maxQuality = options.quality ?? DEFAULT_QUALITY;
+  const minQuality = Math.min(options.minQuality ?? DEFAULT_MIN_QUALITY, maxQuality);
+
+  // Formats without a quality setting get a single attempt
+  if (!formatSupportsQuality(normalizeFormat(options.format))) {
+    const encoded = await encode(image, source, options);
+    return { fit: encoded.data.length <= maxSize ? encoded : undefined, smallest: encoded };
+  }
+
+  // Try the requested quality first; most images already fit
+  const first = await encode(image, source, { ...options, quality: maxQuality });
+  if (first.data.length <= maxSize) {
+    return { fit: first, smallest: first };
+  }
+
+  let fit: EncodedImage | undefined;
+  let smallest = first;
+  let low = minQuality;
+  let high = maxQuality - 1;
+  while (low <= high) {
+    const quality = Math.floor((low + high) / 2);
+    const encoded = await encode(image, source, { ...options, quality });
+    if (encoded.data.length < smallest.data.length) {
+      smallest = encoded;
+    }
+    if (encoded.data.length <= maxSize) {
+      fit = encoded;
+      low = quality + 1;
+    } else {
+      high = quality - 1;
+    }
+  }
+
+  return { fit, smallest };
+}
+
+/**
+ * Encodes the source image within the `options.maxSize` byte budget.
+ *
+ * The highest quality between `minQuality` and `quality`
+ * that fits is used. If nothing fits and `shrinkToFit` is set, the output
+ * dimensions are stepped down until it does.
+ *
+ * @param image - Sharp instance reading the source image
+ * @param source - Source image properties
+ * @param options - Image processing options
+ * @returns Promise resolving to the encoded image
+ * @throws Error if the output cannot fit in the byte budget
+ */
+async function encodeWithinBudget(
+  image: sharp.Sharp,
+  source: SourceInfo,
+  options: ImageProcessingOptions & { maxSize: number }
+): Promise<EncodedImage> {
+  const maxSize = options.maxSize;
+
+  const target = calculateTargetDimensions(source.width, source.height, options);
+  let attemptOptions = options;
+  let smallestSize = Infinity;
+
+  for (let step = 0; ; step++) {
+    const { fit, smallest } = await searchQualityForSize(image, source, attemptOptions, maxSize);
+    if (fit) {
+      return fit;
+    }
+    smallestSize = Math.min(smallestSize, smallest.data.length);
+
+    // Step the dimensions down, keeping the target box aspect ratio
+    const scale = Math.pow(SHRINK_TO_FIT_STEP, step + 1);
+    const width = Math.round(target.width * scale);
+    const height = Math.round(target.height * scale);
+    if (!options.shrinkToFit || step >= SHRINK_TO_FIT_MAX_STEPS || width < 1 || height < 1) {
+      const minQuality = options.minQuality ?? DEFAULT_MIN_QUALITY;
+      throw new Error(
+        `Output cannot fit in ${maxSize} bytes at minimum quality ${minQuality}` +
+          `${options.shrinkToFit ? ' even after shrinking' : ''} (smallest: ${smallestSize} bytes)`
+      );
+    }
+    attemptOptions = {
+      ...options,
+      width,
+      height,
+      minWidth: undefined,
+      minHeight: undefined,
+    };
+  }
+}
+
+/**
+ * Decodes an image to single-channel 8-bit luma samples for similarity scoring.
+ *
+ * @param pipeline - Sharp pipeline producing the image
+ * @returns Promise resolving to the samples and dimensions
+ */
+async function toLuma(
+  pipeline: sharp.Sharp
+): Promise<{ data: Buffer; width: number; height: number }> {
+  const { data, info } = await pipeline
+    .flatten({ background: '#000000' })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+/**
+ * Searches the lowest quality whose output reaches the target SSIM.
+ *
+ * Each candidate is encoded, decoded again and compared against the resized
+ * source. The search starts at `quality`, or at the highest quality when none
+ * is given. If even that misses the target, the output is encoded at it and
+ * reported with its (lower) score and `targetMet: false`.
+ *
+ * @param image - Sharp instance reading the source image
+ * @param source - Source image properties
+ * @param options - Image processing options with a target SSIM
+ * @returns Promise resolving to the chosen encode with its quality and SSIM
+ */
+async function encodeForTargetSsim(
+  image: sharp.Sharp,
+  source: SourceInfo,
+  options: ImageProcessingOptions & { targetSsim: number }
+): Promise<EncodedImage> {
+  // Reference: the source after the same orientation and resizing, before encoding
+  const overlay = await createOverlay(source, options);
+  const reference = await toLuma(buildPipeline(image.clone(), source, options, overlay));
+
+  const score = async (quality: number | undefined): Promise<EncodedImage> => {
+    const encoded = await encode(image, source, { ...options, quality });
+    // Native encoders store the pixels losslessly, in formats libvips may not read back
+    const decoded =
+      getFormatCapability(options.format)?.output === 'native'
+        ? reference
+        : await toLuma(sharp(encoded.data, { animated: source.pages > 1 }));
+    const ssim = computeSsim(reference.data, decoded.data, reference.width, reference.height);
+    return { ...encoded, ssim, targetMet: ssim >= options.targetSsim };
+  };
+
+  // Formats without a quality setting get scored once for the audit trail
+  if (!formatSupportsQuality(normalizeFormat(options.format))) {
+    return score(options.quality);
+  }
+
+  const maxQuality = options.quality ?? MAX_QUALITY;
+  const minQuality = Math.min(options.minQuality ?? DEFAULT_MIN_QUALITY, maxQuality);
+
+  let best = await score(maxQuality);
+  if (!best.targetMet) {
+    return best;
+  }
+
+  let low = minQuality;
+  let high = maxQuality - 1;
+  while (low <= high) {
+    const quality = Math.floor((low + high) / 2);
+    const candidate = await score(quality);
+    if (candidate.targetMet) {
+      best = candidate;
+      high = quality - 1;
+    } else {
+      low = quality + 1;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Encodes the output, searching the quality when a byte budget or SSIM target is set.
+ *
+ * @param image - Sharp instance reading the source image
+ * @param source - Source image properties
+ * @param options - Image processing options
+ * @returns Promise resolving to the encoded image
+ * @throws Error if a byte budget cannot be met
+ */
+async function encodeOutput(
+  image: sharp.Sharp,
+  source: SourceInfo,
+  options: ImageProcessingOptions
+): Promise<EncodedImage> {
+  if (options.targetSsim !== undefined) {
+    return encodeForTargetSsim(image, source, { ...options, targetSsim: options.targetSsim });
+  }
+  if (options.maxSize !== undefined) {
+    return encodeWithinBudget(image, source, { ...options, maxSize: options.maxSize });
+  }
+  return encode(image, source, options);
+}
+
+/**
+ * Writes an output file.
+ *
+ * The data is written to a temporary file next to the output and renamed,
+ * so an interrupted conversion never leaves a truncated output that later
+ * runs would take for a finished one.
+ *
+ * @param filePath - Output file path
+ * @param data - File contents
+ */
+async function writeOutputFile(filePath: string, data: Buffer | string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Writes every responsive variant of a source image from a single input.
+ *
+ * Animated sources are reopened as a still for variant formats that cannot
+ * store an animation, and vice versa.
+ *
+ * @param opened - Source opened for the main output format
+ * @param inputPath - Path to the input image file
+ * @param outputPath - Output path whose directory and basename prefix the variants
+ * @param options - Image processing options with a variants spec
+ * @returns Variant results and the manifest path, if one was written
+ */
+async function writeVariants(
+  opened: OpenedSource,
+  inputPath: string,
+  outputPath: string,
+  options: ImageProcessingOptions & { variants: VariantSpec }
+): Promise<{ variants: VariantResult[]; manifestPath?: string }> {
+  const { source } = opened;
+  const openedByAnimation = new Map<boolean, OpenedSource>([
+    [formatSupportsAnimation(normalizeFormat(options.format)), opened],
+  ]);
+  const outputDir = path.dirname(outputPath);
+  const basePath = path.join(outputDir, path.basename(outputPath, path.extname(outputPath)));
+  const planned = expandVariants(
+    options.variants,
+    options.format,
+    source.width,
+    options.allowUpscale
+  );
+
+  const variants: VariantResult[] = [];
+  for (const variant of planned) {
+    const variantPath = getVariantOutputPath(basePath, variant.format, variant.width);
+    const variantOptions: ImageProcessingOptions = {
+      ...options,
+      format: variant.format,
+      ...(variant.width !== undefined && { width: variant.width, height: undefined }),
+    };
+
+    const animatable = formatSupportsAnimation(variant.format);
+    let input = openedByAnimation.get(animatable);
+    if (!input) {
+      input = await openSource(inputPath, options, variant.format);
+      openedByAnimation.set(animatable, input);
+    }
+
+    const { data, info, quality, ssim, targetMet } = await encodeOutput(
+      input.image,
+      input.source,
+      variantOptions
+    );
+    await writeOutputFile(variantPath, data);
+
+    variants.push({
+      outputPath: variantPath,
+      format: variant.format,
+      width: info.width,
+      height: info.height,
+      size: data.length,
+      quality,
+      ssim,
+      targetMet,
+    });
+  }
+
+  // Write the optional manifest next to the variants
+  let manifestPath: string | undefined;
+  if (options.variantManifest === 'html') {
+    manifestPath = `${basePath}.html`;
+    const alt = path.basename(inputPath, path.extname(inputPath));
+    await writeOutputFile(manifestPath, buildPictureHtml(variants, outputDir, alt));
+  } else if (options.variantManifest === 'json') {
+    manifestPath = `${basePath}.json`;
+    await writeOutputFile(manifestPath, buildVariantManifest(inputPath, variants, outputDir));
+  }
+
+  return { variants, manifestPath };
+}
+
+/**
+ * Writes every frame of a source image as a numbered still next to `outputPath`.
+ *
+ * @param opened - Source opened at its first frame
+ * @param inputPath - Path to the input image file
+ * @param outputPath - Output path whose directory and basename prefix the stills
+ * @param options - Image processing options
+ * @returns Promise resolving to the written stills in frame order
+ */
+async function writeFrames(
+  opened: OpenedSource,
+  inputPath: string,
+  outputPath: string,
+  options: ImageProcessingOptions
+): Promise<FrameResult[]> {
+  const format = normalizeFormat(options.format);
+  const basePath = path.join(
+    path.dirname(outputPath),
+    path.basename(outputPath, path.extname(outputPath))
+  );
+
+  const frames: FrameResult[] = [];
+  for (let index = 0; index < opened.frameCount; index++) {
+    const { image, source } =
+      index === 0 ? opened : await openSource(inputPath, { ...options, frame: index }, format);
+    const { data, info } = await encodeOutput(image, source, options);
+    const framePath = getFrameOutputPath(basePath, format, index);
+    await writeOutputFile(framePath, data);
+    frames.push({
+      index,
+      outputPath: framePath,
+      width: info.width,
+      height: info.height,
+      size: data.length,
+    });
+  }
+  return frames;
+}
+
 /**
  * Processes a single image file with the given options.
  *
+ * When `options.variants` is set, every variant is written next to
+ * `outputPath`, named after its basename (e.g. `hero-640w.webp`). Outputs
+ * are written to a temporary file and renamed into place.
+ *
  * @param inputPath - Path to the input image file
  * @param outputPath - Path where the output image should be written
  * @param options - Image processing options
@@ -88,56 +763,188 @@ export async function processImage(
   outputPath: string,
   options: ImageProcessingOptions
 ): Promise<ProcessResult> {
+  const startTime = performance.now();
+  const elapsed = (): number => Math.round(performance.now() - startTime);
+
   try {
     // Get original file size
     const originalStats = await fs.stat(inputPath);
     const originalSize = originalStats.size;
 
-    // Read image metadata
-    const metadata = await sharp(inputPath).metadata();
-    if (!metadata.width || !metadata.height) {
-      throw new Error('Unable to read image dimensions');
-    }
-
-    // Calculate target dimensions
-    const { width, height } = calculateTargetDimensions(metadata.width, metadata.height, options);
+    // Read image metadata, keeping every frame of animations the format can store
+    const opened = await openSource(inputPath, options, options.format);
+    const { image, source } = opened;
 
-    // Build sharp pipeline
-    let pipeline = sharp(inputPath);
+    // Write every frame as a numbered still
+    if (options.dumpFrames) {
+      const frameOutputs = await writeFrames(opened, inputPath, outputPath, options);
+      return {
+        inputPath,
+        outputPath: frameOutputs[0].outputPath,
+        success: true,
+        originalSize,
+        newSize: frameOutputs.reduce((total, frame) => total + frame.size, 0),
+        originalWidth: source.width,
+        originalHeight: source.height,
+        width: frameOutputs[0].width,
+        height: frameOutputs[0].height,
+        durationMs: elapsed(),
+        frameOutputs,
+      };
+    }
 
-    // Apply resizing if dimensions changed
-    if (width !== metadata.width || height !== metadata.height) {
-      pipeline = pipeline.resize(width, height, {
-        fit: 'inside',
-        withoutEnlargement: !options.allowUpscale,
+    // Fan out to every variant from the same input
+    if (options.variants) {
+      const { variants, manifestPath } = await writeVariants(opened, inputPath, outputPath, {
+        ...options,
+        variants: options.variants,
       });
+
+      return {
+        inputPath,
+        outputPath: variants[0].outputPath,
+        success: true,
+        originalSize,
+        newSize: variants.reduce((total, variant) => total + variant.size, 0),
+        originalWidth: source.width,
+        originalHeight: source.height,
+        width: variants[0].width,
+        height: variants[0].height,
+        durationMs: elapsed(),
+        variants,
+        manifestPath,
+      };
     }
 
-    // Convert format and apply quality if supported
-    const format = normalizeFormat(options.format);
-    const sharpFormat = format === 'jpeg' ? 'jpg' : format;
+    // Encode, searching the quality for a byte budget or SSIM target if one is set
+    const { data, info, quality, ssim, targetMet } = await encodeOutput(image, source, options);
 
-    if (formatSupportsQuality(format) && options.quality !== undefined) {
-      pipeline = pipeline.toFormat(sharpFormat as keyof sharp.FormatEnum, {
-        quality: options.quality,
-      });
-    } else {
-      pipeline = pipeline.toFormat(sharpFormat as keyof sharp.FormatEnum);
+    // Keep the source instead of an output that would be larger
+    if (options.keepIfLarger && data.length > originalSize) {
+      return {
+        inputPath,
+        outputPath,
+        success: true,
+        skipped: true,
+        skipReason: 'output larger than the source',
+        originalSize,
+        newSize: data.length,
+        originalWidth: source.width,
+        originalHeight: source.height,
+        width: info.width,
+        height: info.height,
+        durationMs: elapsed(),
+      };
     }
 
     // Write output file
-    await pipeline.toFile(outputPath);
-
-    // Get new file size
-    const newStats = await fs.stat(outputPath);
-    const newSize = newStats.size;
+    await writeOutputFile(outputPath, data);
 
     return {
       inputPath,
       outputPath,
       success: true,
       originalSize,
-      newSize,
+      newSize: data.length,
+      originalWidth: source.width,
+      originalHeight: source.height,
+      width: info.width,
+      height: info.height,
+      durationMs: elapsed(),
+      quality,
+      ssim,
+      targetMet,
+      frames: source.pages > 1 ? source.pages : undefined,
+    };
+  } catch (error) {
+    return {
+      inputPath,
+      outputPath,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: elapsed(),
+    };
+  }
+}
+
+/**
+ * Plans the conversion of a single image file without encoding or writing anything.
+ *
+ * Reads the source the way processImage does and lists every file the
+ * conversion would write (each variant, frame still and manifest) with its
+ * planned dimensions. A transform pipeline still runs, in memory, since it
+ * may change the dimensions the resize options apply to.
+ *
+ * @param inputPath - Path to the input image file
+ * @param outputPath - Path where the output image would be written
+ * @param options - Image processing options
+ * @returns Promise resolving to a ProcessResult with the plan (action `create`; existing outputs are not checked)
+ */
+export async function planImage(
+  inputPath: string,
+  outputPath: string,
+  options: ImageProcessingOptions
+): Promise<ProcessResult> {
+  const startTime = performance.now();
+  const elapsed = (): number => Math.round(performance.now() - startTime);
+
+  try {
+    const { size: originalSize } = await fs.stat(inputPath);
+    const { source, frameCount } = await openSource(inputPath, options, options.format);
+    const format = normalizeFormat(options.format);
+    const basePath = path.join(
+      path.dirname(outputPath),
+      path.basename(outputPath, path.extname(outputPath))
+    );
+    const plan = (
+      filePath: string,
+      fileOptions: ImageProcessingOptions = options
+    ): PlannedFile => ({
+      outputPath: filePath,
+      ...calculateOutputDimensions(source.width, source.height, fileOptions),
+    });
+
+    let files: PlannedFile[];
+    if (options.dumpFrames) {
+      files = Array.from({ length: frameCount }, (_, index) =>
+        plan(getFrameOutputPath(basePath, format, index))
+      );
+    } else if (options.variants) {
+      files = expandVariants(
+        options.variants,
+        options.format,
+        source.width,
+        options.allowUpscale
+      ).map((variant) =>
+        plan(getVariantOutputPath(basePath, variant.format, variant.width), {
+          ...options,
+          format: variant.format,
+          ...(variant.width !== undefined && { width: variant.width, height: undefined }),
+        })
+      );
+      if (options.variantManifest) {
+        files.push({ outputPath: `${basePath}.${options.variantManifest}` });
+      }
+    } else {
+      files = [plan(outputPath)];
+    }
+
+    return {
+      inputPath,
+      outputPath: files[0].outputPath,
+      success: true,
+      originalSize,
+      originalWidth: source.width,
+      originalHeight: source.height,
+      width: files[0].width,
+      height: files[0].height,
+      durationMs: elapsed(),
+      frames: source.pages > 1 ? source.pages : undefined,
+      plan: {
+        action: 'create',
+        format: options.variants?.formats?.[0] ?? format,
+        files,
+      },
     };
   } catch (error) {
     return {
@@ -145,10 +952,77 @@ export async function processImage(
       outputPath,
       success: false,
       error: error instanceof Error ? error.message : String(error),
+      durationMs: elapsed(),
     };
   }
 }
 
+/**
+ * Processes an image held in memory with the given options.
+ *
+ * Uses the same dimension, metadata and quality search logic as processImage
+ * but never touches the filesystem. Variants are not supported; call this
+ * once per width/format instead.
+ *
+ * @param input - Encoded source image, as a Buffer or a Readable stream
+ * @param options - Image processing options
+ * @returns Promise resolving to the encoded output and its properties
+ * @throws Error if the input cannot be decoded, variants are requested, or a byte budget cannot be met
+ */
+export async function processImageBuffer(
+  input: Buffer | Readable,
+  options: ImageProcessingOptions
+): Promise<BufferProcessResult> {
+  if (options.variants) {
+    throw new Error('Variants are not supported for in-memory processing');
+  }
+  if (options.dumpFrames) {
+    throw new Error('Dumping frames is not supported for in-memory processing');
+  }
+
+  const sourceData = Buffer.isBuffer(input) ? input : await readAll(input);
+  const { image, source } = await openSource(sourceData, options, options.format);
+
+  const { data, info, quality, ssim, targetMet } = await encodeOutput(image, source, options);
+
+  return {
+    data,
+    info: {
+      format: normalizeFormat(options.format),
+      width: info.width,
+      height: info.height,
+      size: data.length,
+      originalSize: sourceData.length,
+      originalWidth: source.width,
+      originalHeight: source.height,
+      quality,
+      ssim,
+      targetMet,
+      frames: source.pages > 1 ? source.pages : undefined,
+    },
+  };
+}
+
+/**
+ * Processes an image stream with the given options.
+ *
+ * The source is read completely before encoding, since the quality search and
+ * the reported output properties need the whole image; the returned stream
+ * then yields the encoded output.
+ *
+ * @param input - Encoded source image, as a Readable stream or a Buffer
+ * @param options - Image processing options
+ * @returns Promise resolving to a stream of the encoded output and its properties
+ * @throws Error if the input cannot be decoded, variants are requested, or a byte budget cannot be met
+ */
+export async function processImageStream(
+  input: Readable | Buffer,
+  options: ImageProcessingOptions
+): Promise<StreamProcessResult> {
+  const { data, info } = await processImageBuffer(input, options);
+  return { stream: Readable.from([data]), info };
+}
+
 /**
  * Gets the file extension from a path.
  *
@@ -161,24 +1035,11 @@ export function getFileExtension(filePath: string): string {
 }
 
 /**
- * Checks if a file extension corresponds to a supported image format.
+ * Checks if a file extension belongs to an image format this libvips build can read.
  *
  * @param extension - File extension (without dot)
- * @returns True if the extension represents a supported image format
+ * @returns True if the extension represents a readable image format
  */
 export function isImageExtension(extension: string): boolean {
-  const imageExtensions = [
-    'jpg',
-    'jpeg',
-    'png',
-    'webp',
-    'gif',
-    'tiff',
-    'tif',
-    'bmp',
-    'avif',
-    'heic',
-    'heif',
-  ];
-  return imageExtensions.includes(extension.toLowerCase());
+  return getFormatByExtension(extension)?.input ?? false;
 }
@@ -1,34 +1,127 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import type { CliOptions, ProcessResult, ProcessingSummary } from './types';
-import { processImage, isImageExtension, getFileExtension } from './imageProcessor';
-import { normalizeFormat } from './config';
+import type {
+  CliOptions,
+  ConversionPlan,
+  ConvertControl,
+  ImageProcessingOptions,
+  ProcessResult,
+  ProcessingSummary,
+  SourceControl,
+} from './types';
+import { planImage, processImage } from './imageProcessor';
+import { DEFAULT_QUALITY, normalizeFormat } from './config';
+import { getDefaultConcurrency, mapWithConcurrency } from './concurrency';
+import { listOutputPaths, planOutputPaths, resolveOutputPath } from './outputPaths';
+import type { PlannedOutput } from './outputPaths';
+import {
+  hashFile,
+  hashOptions,
+  isCacheEntryFresh,
+  loadCacheManifest,
+  saveCacheManifest,
+} from './cache';
+import type { CacheEntry } from './cache';
+import { createPathFilter, getFilterReason } from './selection';
+import type { PathFilter } from './selection';
+import { DEFAULT_OUTPUT_TEMPLATE, validateOutputTemplate } from './naming';
+import { resolveFileOptions, toRulePath } from './rules';
+import { createProgressTracker } from './progress';
+import { backupSource, finishSource, listWrittenImages, validateSourceOptions } from './sources';
+import { checkContent, isImageCandidate } from './sniff';
+import type { ContentCheck } from './sniff';
+
+// Library API: the file-path API below plus in-memory processing for services
+export {
+  calculateOutputDimensions,
+  calculateTargetDimensions,
+  planImage,
+  processImage,
+  processImageBuffer,
+  processImageStream,
+} from './imageProcessor';
+export { validateWatermarkOptions } from './watermark';
+export { PipelineError, resolvePipeline } from './pipeline';
+export { explainFileOptions, resolveFileOptions, resolveRules } from './rules';
+export { resolveConfig } from './configLoader';
+export { validateConfig } from './configSchema';
+export type * from './types';
 
 /**
- * Processes a single image file.
+ * Extracts the image processing options from CLI options.
  *
- * @param inputPath - Path to input image file
- * @param outputPath - Path to output image file
- * @param options - Processing options
- * @returns Promise resolving to ProcessResult
+ * The default quality is filled in here, once rules have been applied, so a
+ * rule that only sets a target SSIM still searches up to the highest quality.
+ *
+ * @param options - CLI options
+ * @returns Image processing options with a normalized format
  */
-export async function convertSingleImage(
+function toProcessingOptions(options: CliOptions): ImageProcessingOptions {
+  return {
+    format: normalizeFormat(options.format),
+    width: options.width,
+    height: options.height,
+    minWidth: options.minWidth,
+    minHeight: options.minHeight,
+    maxWidth: options.maxWidth,
+    maxHeight: options.maxHeight,
+    quality: options.quality ?? (options.targetSsim === undefined ? DEFAULT_QUALITY : undefined),
+    maxSize: options.maxSize,
+    minQuality: options.minQuality,
+    shrinkToFit: options.shrinkToFit,
+    targetSsim: options.targetSsim,
+    allowUpscale: options.allowUpscale,
+    encoders: options.encoders,
+    fit: options.fit,
+    position: options.position,
+    background: options.background,
+    metadata: options.metadata,
+    copyright: options.copyright,
+    artist: options.artist,
+    variants: options.variants,
+    variantManifest: options.variantManifest,
+    frame: options.frame,
+    density: options.density,
+    dumpFrames: options.dumpFrames,
+    watermark: options.watermark,
+    pipeline: options.pipeline,
+    keepIfLarger: options.keepIfLarger,
+  };
+}
+
+/**
+ * Checks whether any file the conversion would write already exists.
+ *
+ * @param inputPath - Input file path
+ * @param outputPath - Output file path (base path when generating variants)
+ * @param options - CLI options
+ * @param recorded - Outputs an earlier incremental run wrote for this source, which may be replaced
+ * @returns A failed ProcessResult if an output exists and overwrite is disabled, otherwise null
+ */
+async function checkExistingOutput(
   inputPath: string,
   outputPath: string,
-  options: CliOptions
-): Promise<ProcessResult> {
-  // Ensure output directory exists
-  const outputDir = path.dirname(outputPath);
-  await fs.mkdir(outputDir, { recursive: true });
+  options: CliOptions,
+  recorded: readonly string[] = []
+): Promise<ProcessResult | null> {
+  if (options.overwrite) {
+    return null;
+  }
 
-  // Check if output file exists
-  if (!options.overwrite) {
+  for (const candidate of listOutputPaths(outputPath, options)) {
+    // In place, an output may replace its own source
+    if (options.inPlace && path.resolve(candidate) === path.resolve(inputPath)) {
+      continue;
+    }
+    if (recorded.includes(path.resolve(candidate))) {
+      continue;
+    }
     try {
-      await fs.access(outputPath);
+      await fs.access(candidate);
       // File exists and overwrite is not enabled
       return {
         inputPath,
-        outputPath,
+        outputPath: candidate,
         success: false,
         error: 'Output file already exists. Use --overwrite to replace it.',
       };
@@ -37,20 +130,235 @@ export async function convertSingleImage(
     }
   }
 
-  // Process the image
-  const result = await processImage(inputPath, outputPath, {
-    format: normalizeFormat(options.format),
-    width: options.width,
-    height: options.height,
-    minWidth: options.minWidth,
-    minHeight: options.minHeight,
-    maxWidth: options.maxWidth,
-    maxHeight: options.maxHeight,
-    quality: options.quality,
-    allowUpscale: options.allowUpscale,
-  });
+  return null;
+}
+
+/**
+ * Plans the conversion of a source for a dry run, including which outputs already exist.
+ *
+ * @param inputPath - Input file path
+ * @param outputPath - Output file path (base path when generating variants)
+ * @param options - CLI options
+ * @param renamedFrom - Output path from the template, when a collision suffix was added
+ * @param recorded - Outputs an earlier incremental run wrote for this source, which may be replaced
+ * @returns A ProcessResult with the plan; failed if an output exists and overwrite is disabled
+ */
+async function planConversion(
+  inputPath: string,
+  outputPath: string,
+  options: CliOptions,
+  renamedFrom?: string,
+  recorded: readonly string[] = []
+): Promise<ProcessResult> {
+  const result = await planImage(inputPath, outputPath, toProcessingOptions(options));
+  if (!result.plan) {
+    return result;
+  }
+
+  const files = await Promise.all(
+    result.plan.files.map(async (file) => ({
+      ...file,
+      exists: await fs.access(file.outputPath).then(
+        () => true,
+        () => false
+      ),
+    }))
+  );
+  const plan: ConversionPlan = {
+    ...result.plan,
+    action: files.some((file) => file.exists) ? 'overwrite' : 'create',
+    files,
+    ...(renamedFrom !== undefined && { renamedFrom }),
+  };
+  // In place, an output may replace its own source
+  const existing = files.find(
+    (file) =>
+      file.exists &&
+      !(options.inPlace && path.resolve(file.outputPath) === path.resolve(inputPath)) &&
+      !recorded.includes(path.resolve(file.outputPath))
+  );
+  if (existing && !options.overwrite) {
+    return {
+      ...result,
+      outputPath: existing.outputPath,
+      success: false,
+      error: 'Output file already exists. Use --overwrite to replace it.',
+      plan,
+    };
+  }
+  return { ...result, plan };
+}
+
+/**
+ * Checks a source against the size and dimension selection options.
+ *
+ * @param inputPath - Input file path
+ * @param outputPath - Output file path
+ * @param options - CLI options
+ * @returns A filtered ProcessResult if the source is left out, a failed one if it
+ *   cannot be read (e.g. it was removed since the scan), otherwise null
+ */
+async function checkSelection(
+  inputPath: string,
+  outputPath: string,
+  options: CliOptions
+): Promise<ProcessResult | null> {
+  let size: number;
+  try {
+    ({ size } = await fs.stat(inputPath));
+  } catch (error) {
+    return {
+      inputPath,
+      outputPath,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  const reason = await getFilterReason(inputPath, size, options);
+  if (reason === null) {
+    return null;
+  }
+  return { inputPath, outputPath, success: true, filtered: true, filterReason: reason };
+}
+
+/**
+ * Adds what a source's content says about its format to its result.
+ *
+ * @param result - Processing result
+ * @param content - Content check made before the conversion (the source may be gone after it)
+ * @returns The result with the content format and any extension mismatch
+ */
+function withContentCheck(result: ProcessResult, content: ContentCheck): ProcessResult {
+  return {
+    ...result,
+    ...(content.format !== null && { contentFormat: content.format }),
+    ...(content.mismatch && { extensionMismatch: true }),
+  };
+}
+
+/**
+ * Builds a processing summary from per-file results.
+ *
+ * @param results - Per-file results in input order
+ * @param startTime - `performance.now()` timestamp when the operation started
+ * @param dryRun - Whether the results are a dry-run plan
+ * @param cancelled - Number of files left out because the run was cancelled
+ * @returns ProcessingSummary with aggregate counts
+ */
+function summarizeResults(
+  results: ProcessResult[],
+  startTime: number,
+  dryRun = false,
+  cancelled = 0
+): ProcessingSummary {
+  return {
+    total: results.length,
+    successful: results.filter((r) => r.success && !r.skipped && !r.filtered).length,
+    skipped: results.filter((r) => r.skipped).length,
+    filtered: results.filter((r) => r.filtered).length,
+    failed: results.filter((r) => !r.success).length,
+    results,
+    durationMs: Math.round(performance.now() - startTime),
+    ...(dryRun && { dryRun }),
+    ...(cancelled > 0 && { cancelled }),
+  };
+}
+
+/**
+ * Converts a source, backing it up first and applying the in-place or
+ * source action options after.
+ *
+ * @param inputPath - Input file path
+ * @param outputPath - Output file path
+ * @param processingOptions - Image processing options for the file
+ * @param inputDir - Input directory, for the paths of archived sources
+ * @param options - CLI options
+ * @param control - Abort signal and verification callback of the source action
+ * @returns Promise resolving to ProcessResult
+ */
+async function convertSource(
+  inputPath: string,
+  outputPath: string,
+  processingOptions: ImageProcessingOptions,
+  inputDir: string,
+  options: CliOptions,
+  control: SourceControl = {}
+): Promise<ProcessResult> {
+  let backupPath: string | undefined;
+  if (options.inPlace && options.backup) {
+    try {
+      backupPath = await backupSource(inputPath, options.overwrite);
+    } catch (error) {
+      return {
+        inputPath,
+        outputPath,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  const result = await processImage(inputPath, outputPath, processingOptions);
+  return finishSource(result, inputDir, options, backupPath, control);
+}
 
-  return result;
+/**
+ * Processes a single image file.
+ *
+ * @param inputPath - Path to input image file
+ * @param outputPath - Path to output image file
+ * @param options - Processing options
+ * @param inputDir - Input directory, for the paths of archived sources (default: the file's directory)
+ * @param control - Abort signal and verification callback of the source action
+ * @returns Promise resolving to ProcessResult
+ */
+export async function convertSingleImage(
+  inputPath: string,
+  outputPath: string,
+  options: CliOptions,
+  inputDir = path.dirname(inputPath),
+  control: SourceControl = {}
+): Promise<ProcessResult> {
+  try {
+    // Leave out sources that don't match the selection options
+    const filtered = await checkSelection(inputPath, outputPath, options);
+    if (filtered) {
+      return filtered;
+    }
+
+    // Dry run: plan the conversion without writing anything
+    if (options.dryRun) {
+      return await planConversion(inputPath, outputPath, options);
+    }
+
+    // Ensure output directory exists
+    const outputDir = path.dirname(outputPath);
+    await fs.mkdir(outputDir, { recursive: true });
+
+    // Check if output file exists
+    const existing = await checkExistingOutput(inputPath, outputPath, options);
+    if (existing) {
+      return existing;
+    }
+
+    // Process the image
+    return await convertSource(
+      inputPath,
+      outputPath,
+      toProcessingOptions(options),
+      inputDir,
+      options,
+      control
+    );
+  } catch (error) {
+    // A source that vanished or can't be read fails on its own, without ending a watch or batch
+    return {
+      inputPath,
+      outputPath,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
 }
 
 /**
@@ -58,21 +366,37 @@ export async function convertSingleImage(
  *
  * @param dirPath - Directory path to search
  * @param recursive - Whether to search subdirectories
+ * @param filter - Include/exclude filter; excluded directories are not traversed
+ * @param rootDir - Directory the filter's relative paths are based on
+ * @param anyExtension - Also find files whose content is an image, whatever their extension
  * @returns Promise resolving to array of image file paths
  */
-async function findImageFiles(dirPath: string, recursive: boolean): Promise<string[]> {
+export async function findImageFiles(
+  dirPath: string,
+  recursive: boolean,
+  filter?: PathFilter,
+  rootDir = dirPath,
+  anyExtension = false
+): Promise<string[]> {
   const imageFiles: string[] = [];
   const entries = await fs.readdir(dirPath, { withFileTypes: true });
 
   for (const entry of entries) {
     const fullPath = path.join(dirPath, entry.name);
+    const relativePath = path.relative(rootDir, fullPath).split(path.sep).join('/');
 
     if (entry.isDirectory() && recursive) {
-      const subFiles = await findImageFiles(fullPath, recursive);
+      if (filter && !(await filter.isDirectorySelected(relativePath))) {
+        continue;
+      }
+      const subFiles = await findImageFiles(fullPath, recursive, filter, rootDir, anyExtension);
       imageFiles.push(...subFiles);
     } else if (entry.isFile()) {
-      const ext = getFileExtension(entry.name);
-      if (isImageExtension(ext)) {
+      // Patterns are checked first, so excluded files are never read
+      if (
+        (!filter || (await filter.isFileSelected(relativePath))) &&
+        (await isImageCandidate(fullPath, anyExtension))
+      ) {
         imageFiles.push(fullPath);
       }
     }
@@ -81,156 +405,284 @@ async function findImageFiles(dirPath: string, recursive: boolean): Promise<stri
   return imageFiles;
 }
 
-/**
- * Generates output path for a file in batch processing.
- *
- * @param inputPath - Input file path
- * @param inputDir - Input directory path
- * @param outputDir - Output directory path
- * @param format - Target output format
- * @returns Output file path
- */
-function generateOutputPath(
-  inputPath: string,
-  inputDir: string,
-  outputDir: string,
-  format: string
-): string {
-  // Get relative path from input directory
-  const relativePath = path.relative(inputDir, inputPath);
-  const dirname = path.dirname(relativePath);
-  const basename = path.basename(relativePath, path.extname(relativePath));
-
-  // Construct output path with new extension
-  const outputSubDir = dirname === '.' ? outputDir : path.join(outputDir, dirname);
-  const outputFileName = `${basename}.${format}`;
-  return path.join(outputSubDir, outputFileName);
-}
-
 /**
  * Processes all images in a directory.
  *
+ * Aborting `control.signal` stops the batch: files in flight finish and
+ * files not yet started are left out of the results (and counted as
+ * `cancelled`). The incremental manifest still records the finished files.
+ *
  * @param inputDir - Input directory path
  * @param outputDir - Output directory path
  * @param options - Processing options
+ * @param control - Progress callback and abort signal
  * @returns Promise resolving to ProcessingSummary
  */
 export async function convertDirectory(
   inputDir: string,
   outputDir: string,
-  options: CliOptions
+  options: CliOptions,
+  control: ConvertControl = {}
 ): Promise<ProcessingSummary> {
-  // Ensure output directory exists
-  await fs.mkdir(outputDir, { recursive: true });
+  const startTime = performance.now();
+
+  // Find all image files that pass the include/exclude patterns and ignore files
+  const filter = createPathFilter(inputDir, options);
+  const imageFiles = await findImageFiles(
+    inputDir,
+    options.recursive ?? false,
+    filter,
+    inputDir,
+    options.anyExtension
+  );
 
-  // Find all image files
-  const imageFiles = await findImageFiles(inputDir, options.recursive ?? false);
+  // Resolve every output path up front, so collisions fail before anything is written
+  const planned = await planOutputPaths(imageFiles, inputDir, outputDir, options);
+
+  // Ensure output directory exists
+  if (!options.dryRun) {
+    await fs.mkdir(outputDir, { recursive: true });
+  }
 
   if (imageFiles.length === 0) {
-    return {
-      total: 0,
-      successful: 0,
-      failed: 0,
-      results: [],
-    };
+    return summarizeResults([], startTime, options.dryRun);
   }
 
-  // Process each image
-  const results: ProcessResult[] = [];
-  const format = normalizeFormat(options.format);
+  // Process images through a bounded worker pool; results keep input order
+  const concurrency = options.concurrency ?? getDefaultConcurrency();
+  const createdDirs = new Map<string, Promise<unknown>>();
+
+  // Incremental mode: load the manifest of previous runs
+  const cache = options.incremental ? await loadCacheManifest(outputDir) : undefined;
+  // A changed watermark image changes every output, even if its path is the same;
+  // a changed output path (template, flattening) means the old outputs don't count
+  const watermarkHashes = new Map<string, Promise<string>>();
+  const getOptionsHash = async (
+    processingOptions: ImageProcessingOptions,
+    outputPath: string
+  ): Promise<string> => {
+    const relativeOutput = path.relative(outputDir, outputPath);
+    const watermark = processingOptions.watermark;
+    if (!watermark?.image) {
+      return hashOptions(processingOptions, relativeOutput);
+    }
+    let watermarkHash = watermarkHashes.get(watermark.image);
+    if (!watermarkHash) {
+      watermarkHash = hashFile(watermark.image);
+      watermarkHashes.set(watermark.image, watermarkHash);
+    }
+    return hashOptions(
+      { ...processingOptions, watermark: { ...watermark, image: await watermarkHash } },
+      relativeOutput
+    );
+  };
+  // Sources left out of this run (cancelled, filtered, unplanned) keep their entries
+  const nextEntries: Record<string, CacheEntry> = { ...cache?.entries };
+  const tracker = createProgressTracker(planned.length, control.onProgress);
 
-  for (const inputPath of imageFiles) {
-    const outputPath = generateOutputPath(inputPath, inputDir, outputDir, format);
+  const convertPlanned = async ({
+    inputPath,
+    outputPath = '',
+    error,
+    renamedFrom,
+  }: PlannedOutput): Promise<ProcessResult> => {
+    if (error !== undefined) {
+      return { inputPath, outputPath, success: false, error };
+    }
+    const cacheKey = toRulePath(inputDir, inputPath);
+    const fileOptions = resolveFileOptions(options, inputDir, inputPath);
+    const processingOptions = toProcessingOptions(fileOptions);
+    const optionsHash = cache ? await getOptionsHash(processingOptions, outputPath) : '';
 
-    // Check if output file exists
-    if (!options.overwrite) {
-      try {
-        await fs.access(outputPath);
-        // File exists and overwrite is not enabled - skip
-        results.push({
+    // Leave out sources that don't match the selection options, before decoding
+    const filtered = await checkSelection(inputPath, outputPath, fileOptions);
+    if (filtered) {
+      return filtered;
+    }
+
+    const entry = cache?.entries[cacheKey];
+    if (cache) {
+      // Skip sources whose content and settings match the previous run
+      const stats = await fs.stat(inputPath);
+      if (await isCacheEntryFresh(entry, inputPath, stats, optionsHash, outputDir)) {
+        return {
           inputPath,
-          outputPath,
-          success: false,
-          error: 'Output file already exists. Use --overwrite to replace it.',
-        });
-        continue;
-      } catch {
-        // File doesn't exist, proceed
+          outputPath: path.join(outputDir, entry?.outputs[0] ?? ''),
+          success: true,
+          skipped: true,
+        };
       }
     }
+    // Incremental runs replace the outputs they recorded for a source, nothing else
+    const recorded = entry?.outputs.map((output) => path.resolve(outputDir, output)) ?? [];
+
+    // Dry run: plan the conversion without writing anything
+    if (options.dryRun) {
+      return planConversion(inputPath, outputPath, fileOptions, renamedFrom, recorded);
+    }
+
+    // Check if output file exists
+    const existing = await checkExistingOutput(inputPath, outputPath, fileOptions, recorded);
+    if (existing) {
+      return existing;
+    }
 
-    // Ensure output subdirectory exists
+    // Ensure output subdirectory exists (shared between workers hitting the same folder)
     const outputSubDir = path.dirname(outputPath);
-    await fs.mkdir(outputSubDir, { recursive: true });
+    let mkdirPromise = createdDirs.get(outputSubDir);
+    if (!mkdirPromise) {
+      mkdirPromise = fs.mkdir(outputSubDir, { recursive: true });
+      createdDirs.set(outputSubDir, mkdirPromise);
+    }
+    await mkdirPromise;
 
     // Process the image
-    const result = await processImage(inputPath, outputPath, {
-      format,
-      width: options.width,
-      height: options.height,
-      minWidth: options.minWidth,
-      minHeight: options.minHeight,
-      maxWidth: options.maxWidth,
-      maxHeight: options.maxHeight,
-      quality: options.quality,
-      allowUpscale: options.allowUpscale,
-    });
-
-    results.push(result);
-  }
+    const result = await convertSource(
+      inputPath,
+      outputPath,
+      processingOptions,
+      inputDir,
+      fileOptions,
+      {
+        signal: control.signal,
+        onVerified: () => tracker.fileVerified(inputPath, outputPath),
+      }
+    );
 
-  const successful = results.filter((r) => r.success).length;
-  const failed = results.filter((r) => !r.success).length;
+    // Record the conversion so the next incremental run can skip it; a source
+    // that failed or was removed meanwhile loses its entry
+    delete nextEntries[cacheKey];
+    if (cache && result.success) {
+      const stats = await fs.stat(inputPath).catch(() => null);
+      const contentHash = stats ? await hashFile(inputPath).catch(() => null) : null;
+      if (stats && contentHash !== null) {
+        // A discarded larger output leaves nothing to check for
+        const outputs = result.skipped ? [] : listWrittenImages(result);
+        if (result.manifestPath) {
+          outputs.push(result.manifestPath);
+        }
+        nextEntries[cacheKey] = {
+          size: stats.size,
+          mtimeMs: stats.mtimeMs,
+          contentHash,
+          optionsHash,
+          outputs: outputs.map((output) => path.relative(outputDir, output)),
+        };
+      }
+    }
 
-  return {
-    total: results.length,
-    successful,
-    failed,
-    results,
+    return result;
   };
+
+  tracker.start();
+  const results = await mapWithConcurrency(planned, concurrency, async (entry) => {
+    if (control.signal?.aborted) {
+      return null;
+    }
+    tracker.fileStarted(entry.inputPath, entry.outputPath ?? '');
+    let result: ProcessResult;
+    try {
+      const content = await checkContent(entry.inputPath);
+      result = withContentCheck(await convertPlanned(entry), content);
+    } catch (error) {
+      // One unreadable source fails on its own instead of rejecting the whole batch
+      result = {
+        inputPath: entry.inputPath,
+        outputPath: entry.outputPath ?? '',
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+    tracker.fileFinished(result);
+    return result;
+  });
+  const finished = results.filter((result): result is ProcessResult => result !== null);
+
+  // Entries of sources no longer on disk are dropped from the manifest
+  if (cache && !options.dryRun) {
+    const found = new Set(imageFiles.map((filePath) => toRulePath(inputDir, filePath)));
+    for (const key of Object.keys(nextEntries)) {
+      if (!found.has(key) && !(await fs.stat(path.join(inputDir, key)).catch(() => null))) {
+        delete nextEntries[key];
+      }
+    }
+    await saveCacheManifest(outputDir, { ...cache, entries: nextEntries });
+  }
+
+  return summarizeResults(finished, startTime, options.dryRun, results.length - finished.length);
 }
 
 /**
  * Main conversion function that handles both single files and directories.
  *
  * @param options - CLI options
+ * @param control - Progress callback and abort signal
  * @returns Promise resolving to ProcessingSummary
  */
-export async function convertImages(options: CliOptions): Promise<ProcessingSummary> {
+export async function convertImages(
+  options: CliOptions,
+  control: ConvertControl = {}
+): Promise<ProcessingSummary> {
+  const startTime = performance.now();
+  validateSourceOptions(options);
   const inputPath = path.resolve(options.input);
-  const outputPath = path.resolve(options.output);
 
   // Check if input exists
+  let isDirectory: boolean;
   try {
-    const stats = await fs.stat(inputPath);
-    const isDirectory = stats.isDirectory();
-
-    if (isDirectory) {
-      // Process directory
-      return await convertDirectory(inputPath, outputPath, options);
-    } else {
-      // Process single file
-      // Determine output path
-      let finalOutputPath = outputPath;
-      if ((await fs.stat(outputPath).catch(() => null))?.isDirectory()) {
-        // Output is a directory, generate filename
-        const inputBasename = path.basename(inputPath, path.extname(inputPath));
-        const format = normalizeFormat(options.format);
-        finalOutputPath = path.join(outputPath, `${inputBasename}.${format}`);
-      }
-
-      const result = await convertSingleImage(inputPath, finalOutputPath, options);
-
-      return {
-        total: 1,
-        successful: result.success ? 1 : 0,
-        failed: result.success ? 0 : 1,
-        results: [result],
-      };
-    }
+    isDirectory = (await fs.stat(inputPath)).isDirectory();
   } catch (error) {
     throw new Error(
       `Input path does not exist or is not accessible: ${inputPath}. ${error instanceof Error ? error.message : String(error)}`
     );
   }
+
+  // In place, outputs are written next to their sources
+  const outputPath = options.inPlace
+    ? isDirectory
+      ? inputPath
+      : path.dirname(inputPath)
+    : path.resolve(options.output);
+
+  if (isDirectory) {
+    // Process directory
+    return convertDirectory(inputPath, outputPath, options, control);
+  }
+
+  // Process single file; rules match its name
+  const fileOptions = resolveFileOptions(options, path.dirname(inputPath), inputPath);
+
+  // Determine output path
+  let finalOutputPath = outputPath;
+  if ((await fs.stat(outputPath).catch(() => null))?.isDirectory()) {
+    // Output is a directory, name the file from the output template
+    validateOutputTemplate(
+      options.outputTemplate ?? DEFAULT_OUTPUT_TEMPLATE,
+      !!fileOptions.variants
+    );
+    finalOutputPath = await resolveOutputPath(
+      inputPath,
+      path.dirname(inputPath),
+      outputPath,
+      fileOptions
+    );
+  }
+
+  if (control.signal?.aborted) {
+    return summarizeResults([], startTime, options.dryRun, 1);
+  }
+  const tracker = createProgressTracker(1, control.onProgress);
+  tracker.start();
+  tracker.fileStarted(inputPath, finalOutputPath);
+  const content = await checkContent(inputPath);
+  const result = withContentCheck(
+    await convertSingleImage(inputPath, finalOutputPath, fileOptions, path.dirname(inputPath), {
+      signal: control.signal,
+      onVerified: () => tracker.fileVerified(inputPath, finalOutputPath),
+    }),
+    content
+  );
+  tracker.fileFinished(result);
+
+  return summarizeResults([result], startTime, options.dryRun);
 }
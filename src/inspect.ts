@@ -0,0 +1,112 @@
+import sharp from 'sharp';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { ImageInfo, ImageValidationResult } from './types';
+import { readExifTags, readIccDescription } from './metadata';
+import { getFormatByExtension, getFormatCapability } from './formats';
+import { checkNativeImage } from './nativeEncoders';
+import { sniffImageFormat } from './sniff';
+import { getFileExtension } from './imageProcessor';
+
+/**
+ * Reads the properties of an image file without decoding its pixels.
+ *
+ * @param filePath - Image file path
+ * @returns Promise resolving to the image properties
+ * @throws Error if the file cannot be read or is not a supported image
+ */
+export async function getImageInfo(filePath: string): Promise<ImageInfo> {
+  const stats = await fs.stat(filePath);
+  const metadata = await sharp(filePath).metadata();
+  if (!metadata.format || !metadata.width || !metadata.height) {
+    throw new Error('Unable to read image dimensions');
+  }
+
+  // Multi-page images report the height of all frames stacked
+  const frameHeight = metadata.pageHeight ?? metadata.height;
+  const frames = metadata.pages ?? 1;
+  // EXIF orientations 5-8 rotate the image by 90 degrees
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const exif = metadata.exif ? readExifTags(metadata.exif) : {};
+
+  return {
+    path: filePath,
+    size: stats.size,
+    format: metadata.format,
+    width: rotated ? frameHeight : metadata.width,
+    height: rotated ? metadata.width : frameHeight,
+    colorSpace: metadata.space,
+    channels: metadata.channels,
+    hasAlpha: metadata.hasAlpha ?? false,
+    bitDepth: metadata.depth,
+    density: metadata.density,
+    orientation: metadata.orientation,
+    exif: Object.keys(exif).length > 0 ? exif : undefined,
+    icc: metadata.icc
+      ? { size: metadata.icc.length, description: readIccDescription(metadata.icc) }
+      : undefined,
+    frames,
+    frameDelays: frames > 1 ? metadata.delay : undefined,
+    loop: frames > 1 ? metadata.loop : undefined,
+  };
+}
+
+/**
+ * Checks that an image file decodes completely.
+ *
+ * Every frame is decoded, and decoder warnings such as truncated data are
+ * treated as errors. Files in formats this libvips build cannot read but the
+ * native encoders write (BMP, ICO) have their structure checked instead.
+ *
+ * @param filePath - Image file path
+ * @returns Promise resolving to the validation result (never rejects)
+ */
+export async function validateImageFile(filePath: string): Promise<ImageValidationResult> {
+  try {
+    const format = await sniffImageFormat(filePath);
+    if (format !== null && getFormatCapability(format)?.input === false) {
+      await checkNativeImage(await fs.readFile(filePath), format);
+    } else {
+      await sharp(filePath, { animated: true, failOn: 'warning' }).stats();
+    }
+    return { path: filePath, valid: true };
+  } catch (error) {
+    return {
+      path: filePath,
+      valid: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Checks whether validateImageFile can check files with an extension: formats
+ * libvips can read, and formats the native encoders write.
+ *
+ * @param extension - File extension (without dot)
+ * @returns True if files with this extension can be validated
+ */
+export function isValidatableExtension(extension: string): boolean {
+  const format = getFormatByExtension(extension);
+  return format !== undefined && (format.input || format.output === 'native');
+}
+
+/**
+ * Finds the files in a directory that validateImageFile can check.
+ *
+ * @param dirPath - Directory path to search
+ * @param recursive - Whether to search subdirectories
+ * @returns Promise resolving to the file paths
+ */
+export async function findValidatableFiles(dirPath: string, recursive: boolean): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(dirPath, { withFileTypes: true })) {
+    const fullPath = path.join(dirPath, entry.name);
+    if (entry.isDirectory() && recursive) {
+      files.push(...(await findValidatableFiles(fullPath, recursive)));
+    } else if (entry.isFile() && isValidatableExtension(getFileExtension(entry.name))) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
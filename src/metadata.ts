@@ -0,0 +1,195 @@
+import type sharp from 'sharp';
+import type { ImageProcessingOptions, MetadataPolicy } from './types';
+
+/**
+ * EXIF IFD0 ASCII tags understood by readExifTags, by tag id.
+ */
+const EXIF_ASCII_TAGS: Readonly<Record<number, string>> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+};
+
+/**
+ * EXIF IFD0 tags preserved by the `keep-copyright` policy.
+ */
+const COPYRIGHT_TAGS: readonly string[] = ['Artist', 'Copyright'];
+
+/**
+ * EXIF field type id for ASCII strings.
+ */
+const EXIF_TYPE_ASCII = 2;
+
+/**
+ * Reads the descriptive ASCII tags (Make, Model, DateTime, Artist, Copyright, ...)
+ * from IFD0 of a raw EXIF block.
+ *
+ * Malformed or truncated EXIF data yields the tags read so far rather than an error.
+ *
+ * @param exif - Raw EXIF buffer as returned by sharp, with or without the `Exif\0\0` header
+ * @returns Tag values keyed by EXIF tag name
+ */
+export function readExifTags(exif: Buffer): Record<string, string> {
+  const tags: Record<string, string> = {};
+
+  try {
+    const tiffStart = exif.subarray(0, 6).toString('latin1') === 'Exif\0\0' ? 6 : 0;
+    const byteOrder = exif.subarray(tiffStart, tiffStart + 2).toString('latin1');
+    if (byteOrder !== 'II' && byteOrder !== 'MM') {
+      return tags;
+    }
+
+    const littleEndian = byteOrder === 'II';
+    const readUInt16 = (offset: number): number =>
+      littleEndian ? exif.readUInt16LE(offset) : exif.readUInt16BE(offset);
+    const readUInt32 = (offset: number): number =>
+      littleEndian ? exif.readUInt32LE(offset) : exif.readUInt32BE(offset);
+
+    const ifdStart = tiffStart + readUInt32(tiffStart + 4);
+    const entryCount = readUInt16(ifdStart);
+
+    for (let i = 0; i < entryCount; i++) {
+      const entry = ifdStart + 2 + i * 12;
+      const name = EXIF_ASCII_TAGS[readUInt16(entry)];
+      if (!name || readUInt16(entry + 2) !== EXIF_TYPE_ASCII) {
+        continue;
+      }
+
+      // Values of up to 4 bytes are stored inline, longer ones at an offset
+      const length = readUInt32(entry + 4);
+      const valueStart = length <= 4 ? entry + 8 : tiffStart + readUInt32(entry + 8);
+      if (valueStart + length > exif.length) {
+        continue;
+      }
+
+      const value = exif
+        .subarray(valueStart, valueStart + length)
+        .toString('latin1')
+        .replace(/\0+$/, '')
+        .replace(/\0/g, ', ')
+        .trim();
+      if (value) {
+        tags[name] = value;
+      }
+    }
+  } catch {
+    // Truncated EXIF block - keep what was read
+  }
+
+  return tags;
+}
+
+/**
+ * Reads the copyright-related ASCII tags (Artist, Copyright) from IFD0 of a raw EXIF block.
+ *
+ * @param exif - Raw EXIF buffer as returned by sharp
+ * @returns Tag values keyed by EXIF tag name
+ */
+export function readCopyrightTags(exif: Buffer): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(readExifTags(exif)).filter(([name]) => COPYRIGHT_TAGS.includes(name))
+  );
+}
+
+/**
+ * Reads the profile description of an ICC profile.
+ *
+ * Supports the `desc` tag of both v2 (`desc` type) and v4 (`mluc` type)
+ * profiles. Malformed profiles yield undefined rather than an error.
+ *
+ * @param icc - Raw ICC profile as returned by sharp
+ * @returns Profile description, if present
+ */
+export function readIccDescription(icc: Buffer): string | undefined {
+  try {
+    const tagCount = icc.readUInt32BE(128);
+    for (let i = 0; i < tagCount; i++) {
+      const entry = 132 + i * 12;
+      if (icc.subarray(entry, entry + 4).toString('latin1') !== 'desc') {
+        continue;
+      }
+
+      const offset = icc.readUInt32BE(entry + 4);
+      const type = icc.subarray(offset, offset + 4).toString('latin1');
+      let value: string | undefined;
+      if (type === 'desc') {
+        // v2: ASCII length and string follow the type signature
+        const length = icc.readUInt32BE(offset + 8);
+        value = icc.subarray(offset + 12, offset + 12 + length).toString('latin1');
+      } else if (type === 'mluc') {
+        // v4: the first localized record holds the UTF-16BE string
+        const length = icc.readUInt32BE(offset + 20);
+        const start = offset + icc.readUInt32BE(offset + 24);
+        value = Buffer.from(icc.subarray(start, start + length))
+          .swap16()
+          .toString('utf16le');
+      }
+      return value?.replace(/\0+$/, '').trim() || undefined;
+    }
+  } catch {
+    // Truncated profile
+  }
+  return undefined;
+}
+
+/**
+ * Collects the custom EXIF fields configured in the processing options.
+ *
+ * @param options - Image processing options
+ * @returns IFD0 tag values keyed by EXIF tag name
+ */
+function getCustomExifFields(options: ImageProcessingOptions): Record<string, string> {
+  const fields: Record<string, string> = {};
+  if (options.copyright) {
+    fields.Copyright = options.copyright;
+  }
+  if (options.artist) {
+    fields.Artist = options.artist;
+  }
+  return fields;
+}
+
+/**
+ * Applies the metadata policy and custom EXIF fields to a sharp pipeline.
+ *
+ * - `strip`: remove all metadata (sharp's default)
+ * - `keep`: keep EXIF, ICC, XMP and IPTC (including GPS data)
+ * - `keep-icc-only`: keep only the ICC color profile
+ * - `keep-copyright`: keep only the EXIF Artist and Copyright tags
+ *
+ * Custom copyright/artist fields are written in every policy and take
+ * precedence over the source values.
+ *
+ * @param pipeline - Sharp pipeline to configure
+ * @param sourceExif - Raw EXIF block of the source image, if any
+ * @param options - Image processing options
+ * @returns Pipeline with metadata output configured
+ */
+export function applyMetadataPolicy(
+  pipeline: sharp.Sharp,
+  sourceExif: Buffer | undefined,
+  options: ImageProcessingOptions
+): sharp.Sharp {
+  const policy: MetadataPolicy = options.metadata ?? 'strip';
+  const custom = getCustomExifFields(options);
+  const hasCustom = Object.keys(custom).length > 0;
+
+  switch (policy) {
+    case 'keep':
+      pipeline = pipeline.keepMetadata();
+      return hasCustom ? pipeline.withExifMerge({ IFD0: custom }) : pipeline;
+    case 'keep-icc-only':
+      pipeline = pipeline.keepIccProfile();
+      return hasCustom ? pipeline.withExif({ IFD0: custom }) : pipeline;
+    case 'keep-copyright': {
+      const fields = { ...(sourceExif ? readCopyrightTags(sourceExif) : {}), ...custom };
+      return Object.keys(fields).length > 0 ? pipeline.withExif({ IFD0: fields }) : pipeline;
+    }
+    case 'strip':
+      return hasCustom ? pipeline.withExif({ IFD0: custom }) : pipeline;
+  }
+}
@@ -0,0 +1,158 @@
+import type { CollisionPolicy } from './types';
+
+/**
+ * Output path template reproducing the input directory layout.
+ */
+export const DEFAULT_OUTPUT_TEMPLATE = '{dir}/{name}.{ext}';
+
+/**
+ * Supported output path collision policies.
+ */
+export const COLLISION_POLICIES: readonly CollisionPolicy[] = ['fail', 'rename'];
+
+/**
+ * Number of hex characters `{hash}` expands to without an explicit length.
+ */
+const DEFAULT_HASH_LENGTH = 8;
+
+/**
+ * Length of a hex-encoded SHA-256 hash, the longest `{hash:N}` allowed.
+ */
+const MAX_HASH_LENGTH = 64;
+
+/**
+ * Placeholders an output template may use.
+ */
+const TEMPLATE_PLACEHOLDERS = ['dir', 'name', 'ext', 'format', 'width', 'height', 'hash', 'date'];
+
+/**
+ * Values substituted into an output template for one source.
+ */
+export interface OutputNameFields {
+  /** Source directory relative to the input directory, with `/` separators ('' at the root) */
+  dir: string;
+  /** Source file name without extension */
+  name: string;
+  /** Output format, also used as the extension */
+  format: string;
+  /** Planned output width in pixels (required when the template uses `{width}`) */
+  width?: number;
+  /** Planned output height in pixels (required when the template uses `{height}`) */
+  height?: number;
+  /** Hex-encoded content hash of the source (required when the template uses `{hash}`) */
+  hash?: string;
+  /** Date of the run as YYYY-MM-DD */
+  date: string;
+}
+
+/**
+ * Checks whether a string is a supported collision policy.
+ *
+ * @param value - Value to check
+ * @returns True if value is a CollisionPolicy
+ */
+export function isCollisionPolicy(value: string): value is CollisionPolicy {
+  return (COLLISION_POLICIES as readonly string[]).includes(value);
+}
+
+/**
+ * Lists the placeholders an output template uses.
+ *
+ * @param template - Output path template
+ * @returns Placeholder names in order of appearance
+ * @throws Error if the template uses an unknown placeholder or an invalid hash length
+ */
+export function getTemplatePlaceholders(template: string): string[] {
+  const names: string[] = [];
+  for (const match of template.matchAll(/\{([^{}]*)\}/g)) {
+    const [name, length] = match[1].split(':');
+    if (!TEMPLATE_PLACEHOLDERS.includes(name)) {
+      throw new Error(`Unknown output template placeholder: ${match[0]}`);
+    }
+    if (length !== undefined) {
+      const hashLength = Number(length);
+      if (
+        name !== 'hash' ||
+        !Number.isInteger(hashLength) ||
+        hashLength < 1 ||
+        hashLength > MAX_HASH_LENGTH
+      ) {
+        throw new Error(
+          `Invalid output template placeholder: ${match[0]} (only {hash:N} takes a length, 1-${MAX_HASH_LENGTH})`
+        );
+      }
+    }
+    names.push(name);
+  }
+  return names;
+}
+
+/**
+ * Validates an output path template.
+ *
+ * @param template - Output path template
+ * @param hasVariants - Whether responsive variants are generated, which name outputs by width
+ * @throws Error if the template is invalid
+ */
+export function validateOutputTemplate(template: string, hasVariants = false): void {
+  const placeholders = getTemplatePlaceholders(template);
+  if (!placeholders.includes('name') && !placeholders.includes('hash')) {
+    throw new Error('Output template must contain {name} or {hash} to tell sources apart');
+  }
+  if (hasVariants && (placeholders.includes('width') || placeholders.includes('height'))) {
+    throw new Error('Output template cannot use {width} or {height} with variants');
+  }
+  if (template.split(/[\\/]/).some((segment) => segment === '..')) {
+    throw new Error('Output template must stay inside the output directory');
+  }
+}
+
+/**
+ * Formats a date for the `{date}` placeholder (local time).
+ *
+ * @param date - Date to format
+ * @returns Date as YYYY-MM-DD
+ */
+export function formatTemplateDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Renders an output path template for one source.
+ *
+ * Empty path segments are dropped, so `{dir}/{name}.{ext}` renders to
+ * `photo.webp` for a source at the root of the input directory.
+ *
+ * @param template - Output path template
+ * @param fields - Values for the placeholders
+ * @returns Output path relative to the output directory, with `/` separators
+ * @throws Error if a placeholder has no value or the path is empty
+ */
+export function renderOutputTemplate(template: string, fields: OutputNameFields): string {
+  const rendered = template.replace(/\{([^{}]*)\}/g, (placeholder, body: string) => {
+    const [name, length] = body.split(':');
+    let value: string | number | undefined;
+    if (name === 'hash') {
+      value = fields.hash?.slice(0, length !== undefined ? Number(length) : DEFAULT_HASH_LENGTH);
+    } else if (name === 'ext') {
+      value = fields.format;
+    } else if (TEMPLATE_PLACEHOLDERS.includes(name)) {
+      value = fields[name as keyof OutputNameFields];
+    }
+    if (value === undefined) {
+      throw new Error(`No value for output template placeholder ${placeholder}`);
+    }
+    return String(value);
+  });
+
+  const relativePath = rendered
+    .split(/[\\/]/)
+    .filter((segment) => segment !== '' && segment !== '.')
+    .join('/');
+  if (!relativePath) {
+    throw new Error(`Output template "${template}" renders an empty path`);
+  }
+  return relativePath;
+}
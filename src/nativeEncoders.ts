@@ -0,0 +1,259 @@
+import sharp from 'sharp';
+import type { ImageFormat } from './types';
+
+/**
+ * Size of the BMP file header.
+ */
+const BMP_FILE_HEADER_SIZE = 14;
+
+/**
+ * Size of the BITMAPINFOHEADER used for 24-bit BMPs.
+ */
+const BMP_INFO_HEADER_SIZE = 40;
+
+/**
+ * Size of the BITMAPV4HEADER used for 32-bit BMPs, which carries the channel masks.
+ */
+const BMP_V4_HEADER_SIZE = 108;
+
+/**
+ * BMP compression values: uncompressed, and uncompressed with channel masks.
+ */
+const BI_RGB = 0;
+const BI_BITFIELDS = 3;
+
+/**
+ * Pixels per metre written to BMP headers (72 DPI).
+ */
+const BMP_PIXELS_PER_METRE = 2835;
+
+/**
+ * Largest width and height an ICO directory entry can describe.
+ */
+const ICO_MAX_DIMENSION = 256;
+
+/**
+ * Size of the ICO directory header and of one directory entry.
+ */
+const ICO_HEADER_SIZE = 6;
+const ICO_ENTRY_SIZE = 16;
+
+/**
+ * Channels per pixel of each PNG color type (grey, RGB, palette, grey + alpha, RGBA).
+ */
+const PNG_CHANNELS: Readonly<Record<number, number>> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Gets the bits per pixel of PNG data from its IHDR chunk.
+ *
+ * @param png - PNG data
+ * @returns Bits per pixel (bit depth times channels)
+ * @throws Error if the data does not start with a PNG header
+ */
+function getPngBitsPerPixel(png: Buffer): number {
+  if (png.length < 29 || png.toString('latin1', 12, 16) !== 'IHDR') {
+    throw new Error('ICO images must be embedded as PNG');
+  }
+  const channels = PNG_CHANNELS[png[25]];
+  if (channels === undefined) {
+    throw new Error(`Unsupported PNG color type ${png[25]}`);
+  }
+  return png[24] * channels;
+}
+
+/**
+ * Encodes raw 8-bit sRGB pixels as an uncompressed BMP.
+ *
+ * Three channels are written as a 24-bit BMP. Four channels are written as a
+ * 32-bit BMP with a V4 header, whose channel masks tell readers to use the alpha.
+ *
+ * @param pixels - Raw pixels, row by row from the top, 3 (RGB) or 4 (RGBA) bytes each
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @param channels - Number of channels (3 or 4)
+ * @returns BMP file data
+ * @throws Error if the channel count is not 3 or 4 or the image is too large for BMP
+ */
+export function encodeBmp(pixels: Buffer, width: number, height: number, channels: number): Buffer {
+  if (channels !== 3 && channels !== 4) {
+    throw new Error(`BMP output needs RGB or RGBA pixels, got ${channels} channels`);
+  }
+  const alpha = channels === 4;
+  const headerSize = alpha ? BMP_V4_HEADER_SIZE : BMP_INFO_HEADER_SIZE;
+  const dataOffset = BMP_FILE_HEADER_SIZE + headerSize;
+  // Rows are padded to a multiple of 4 bytes
+  const rowSize = Math.ceil((width * channels) / 4) * 4;
+  const fileSize = dataOffset + rowSize * height;
+  if (fileSize > 0xffffffff) {
+    throw new Error(`Image too large for BMP output (${width}x${height})`);
+  }
+
+  const bmp = Buffer.alloc(fileSize);
+  bmp.write('BM', 0, 'latin1');
+  bmp.writeUInt32LE(fileSize, 2);
+  bmp.writeUInt32LE(dataOffset, 10);
+
+  bmp.writeUInt32LE(headerSize, 14);
+  bmp.writeInt32LE(width, 18);
+  bmp.writeInt32LE(height, 22); // positive: rows are stored bottom-up
+  bmp.writeUInt16LE(1, 26);
+  bmp.writeUInt16LE(channels * 8, 28);
+  bmp.writeUInt32LE(alpha ? BI_BITFIELDS : BI_RGB, 30);
+  bmp.writeUInt32LE(rowSize * height, 34);
+  bmp.writeInt32LE(BMP_PIXELS_PER_METRE, 38);
+  bmp.writeInt32LE(BMP_PIXELS_PER_METRE, 42);
+  if (alpha) {
+    bmp.writeUInt32LE(0x00ff0000, 54);
+    bmp.writeUInt32LE(0x0000ff00, 58);
+    bmp.writeUInt32LE(0x000000ff, 62);
+    bmp.writeUInt32LE(0xff000000, 66);
+    bmp.write('BGRs', 70, 'latin1'); // LCS_sRGB, stored little-endian
+  }
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = dataOffset + (height - 1 - y) * rowSize;
+    for (let x = 0; x < width; x++) {
+      const source = (y * width + x) * channels;
+      const target = rowStart + x * channels;
+      bmp[target] = pixels[source + 2];
+      bmp[target + 1] = pixels[source + 1];
+      bmp[target + 2] = pixels[source];
+      if (alpha) {
+        bmp[target + 3] = pixels[source + 3];
+      }
+    }
+  }
+  return bmp;
+}
+
+/**
+ * Wraps a PNG image in a single-image ICO file.
+ *
+ * @param png - PNG data
+ * @param width - Width in pixels (at most 256)
+ * @param height - Height in pixels (at most 256)
+ * @returns ICO file data
+ * @throws Error if the image is larger than an icon can be or the data is not PNG
+ */
+export function encodeIco(png: Buffer, width: number, height: number): Buffer {
+  if (width > ICO_MAX_DIMENSION || height > ICO_MAX_DIMENSION) {
+    throw new Error(
+      `ICO images are at most ${ICO_MAX_DIMENSION}x${ICO_MAX_DIMENSION} pixels, got ${width}x${height} ` +
+        `(use --max-width and --max-height to fit)`
+    );
+  }
+  const header = Buffer.alloc(ICO_HEADER_SIZE + ICO_ENTRY_SIZE);
+  header.writeUInt16LE(1, 2); // type: icon
+  header.writeUInt16LE(1, 4); // image count
+  // Width and height are stored in one byte each, with 0 meaning 256
+  header.writeUInt8(width % ICO_MAX_DIMENSION, 6);
+  header.writeUInt8(height % ICO_MAX_DIMENSION, 7);
+  header.writeUInt16LE(1, 10); // color planes
+  header.writeUInt16LE(getPngBitsPerPixel(png), 12);
+  header.writeUInt32LE(png.length, 14);
+  header.writeUInt32LE(header.length, 18);
+  return Buffer.concat([header, png]);
+}
+
+/**
+ * Sets a pipeline's output to what the native encoder of a format takes:
+ * 8-bit sRGB raw pixels for BMP, PNG data for ICO.
+ *
+ * @param pipeline - Sharp pipeline producing the output image
+ * @param format - Normalized output format with a native encoder
+ * @returns Pipeline with its output set
+ * @throws Error if the format has no native encoder
+ */
+export function toNativeEncoderInput(pipeline: sharp.Sharp, format: ImageFormat): sharp.Sharp {
+  switch (format) {
+    case 'bmp':
+      return pipeline.toColourspace('srgb').raw({ depth: 'uchar' });
+    case 'ico':
+      return pipeline.png();
+    default:
+      throw new Error(`No native encoder for ${format}`);
+  }
+}
+
+/**
+ * Encodes the output of a pipeline prepared by toNativeEncoderInput.
+ *
+ * @param format - Normalized output format with a native encoder
+ * @param data - Pipeline output
+ * @param info - Pipeline output info
+ * @returns Encoded file data
+ * @throws Error if the format has no native encoder or the image does not fit the format
+ */
+export function encodeNative(format: ImageFormat, data: Buffer, info: sharp.OutputInfo): Buffer {
+  switch (format) {
+    case 'bmp':
+      return encodeBmp(data, info.width, info.height, info.channels);
+    case 'ico':
+      return encodeIco(data, info.width, info.height);
+    default:
+      throw new Error(`No native encoder for ${format}`);
+  }
+}
+
+/**
+ * Checks the structure of a file written by a native encoder, for builds
+ * where libvips cannot decode the format itself.
+ *
+ * The headers must be consistent and the file long enough for the pixel data
+ * (BMP) or every embedded image (ICO); ICO images embedded as PNG are decoded.
+ *
+ * @param data - File data
+ * @param format - Format the data is expected to be in
+ * @returns Promise resolving when the file is well-formed
+ * @throws Error describing the first problem found
+ */
+export async function checkNativeImage(data: Buffer, format: string): Promise<void> {
+  if (format === 'bmp') {
+    if (
+      data.length < BMP_FILE_HEADER_SIZE + BMP_INFO_HEADER_SIZE ||
+      data.toString('latin1', 0, 2) !== 'BM'
+    ) {
+      throw new Error('Not a BMP file');
+    }
+    const width = data.readInt32LE(18);
+    const height = Math.abs(data.readInt32LE(22));
+    const bitsPerPixel = data.readUInt16LE(28);
+    const compression = data.readUInt32LE(30);
+    if (width <= 0 || height === 0 || ![24, 32].includes(bitsPerPixel)) {
+      throw new Error(`Unsupported BMP: ${width}x${height} at ${bitsPerPixel} bits per pixel`);
+    }
+    if (compression !== BI_RGB && compression !== BI_BITFIELDS) {
+      throw new Error('Unsupported BMP: compressed pixel data');
+    }
+    const rowSize = Math.ceil((width * bitsPerPixel) / 32) * 4;
+    if (data.length < data.readUInt32LE(10) + rowSize * height) {
+      throw new Error('Truncated BMP pixel data');
+    }
+    return;
+  }
+
+  if (format === 'ico') {
+    if (data.length < ICO_HEADER_SIZE || data.readUInt16LE(0) !== 0 || data.readUInt16LE(2) !== 1) {
+      throw new Error('Not an ICO file');
+    }
+    const count = data.readUInt16LE(4);
+    if (count === 0 || data.length < ICO_HEADER_SIZE + count * ICO_ENTRY_SIZE) {
+      throw new Error('Truncated ICO directory');
+    }
+    for (let index = 0; index < count; index++) {
+      const entry = ICO_HEADER_SIZE + index * ICO_ENTRY_SIZE;
+      const size = data.readUInt32LE(entry + 8);
+      const offset = data.readUInt32LE(entry + 12);
+      if (offset + size > data.length) {
+        throw new Error(`Truncated ICO image ${index}`);
+      }
+      const image = data.subarray(offset, offset + size);
+      if (image.toString('latin1', 1, 4) === 'PNG') {
+        await sharp(image, { failOn: 'warning' }).stats();
+      }
+    }
+    return;
+  }
+
+  throw new Error(`Cannot decode ${format} images with this libvips build`);
+}
@@ -0,0 +1,300 @@
+import sharp from 'sharp';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { CliOptions, ImageProcessingOptions } from './types';
+import { getFrameOutputPath, listVariantOutputPaths } from './variants';
+import { normalizeFormat } from './config';
+import { calculateOutputDimensions } from './imageProcessor';
+import { hashFile } from './cache';
+import { applyPipeline } from './pipeline';
+import { resolveFileOptions } from './rules';
+import { getDefaultConcurrency, mapWithConcurrency } from './concurrency';
+import {
+  DEFAULT_OUTPUT_TEMPLATE,
+  formatTemplateDate,
+  getTemplatePlaceholders,
+  renderOutputTemplate,
+  validateOutputTemplate,
+} from './naming';
+import type { OutputNameFields } from './naming';
+
+/**
+ * Output path planned for one source of a batch.
+ */
+export interface PlannedOutput {
+  /** Input file path */
+  inputPath: string;
+  /** Output file path (base path when generating variants), unless planning failed */
+  outputPath?: string;
+  /** Why the output path could not be resolved, e.g. an unreadable image header */
+  error?: string;
+  /** Output path from the template, when a numbered suffix was added to avoid a collision */
+  renamedFrom?: string;
+}
+
+/**
+ * Resolves the output path of a source from the output template.
+ *
+ * The source header is only read when the template uses `{width}` or
+ * `{height}` (the whole source when a transform pipeline is set), and its
+ * content only hashed when it uses `{hash}`.
+ *
+ * @param inputPath - Input file path
+ * @param inputDir - Input directory path
+ * @param outputDir - Output directory path
+ * @param options - CLI options with the format, template and resize options
+ * @param date - Date of the run, for `{date}`
+ * @returns Promise resolving to the output file path
+ * @throws Error if the template is invalid or the source cannot be read
+ */
+export async function resolveOutputPath(
+  inputPath: string,
+  inputDir: string,
+  outputDir: string,
+  options: CliOptions,
+  date = new Date()
+): Promise<string> {
+  const template = options.outputTemplate ?? DEFAULT_OUTPUT_TEMPLATE;
+  const placeholders = getTemplatePlaceholders(template);
+
+  const relativePath = path.relative(inputDir, inputPath);
+  const dirname = path.dirname(relativePath);
+  const fields: OutputNameFields = {
+    dir: options.flatten || dirname === '.' ? '' : dirname.split(path.sep).join('/'),
+    name: path.basename(relativePath, path.extname(relativePath)),
+    format: normalizeFormat(options.format),
+    date: formatTemplateDate(date),
+  };
+
+  if (placeholders.includes('width') || placeholders.includes('height')) {
+    // A transform pipeline may change the dimensions before the resize options apply
+    const metadata = options.pipeline?.length
+      ? await (
+          await applyPipeline(
+            sharp(inputPath, { density: options.density, page: options.frame ?? 0 }),
+            options.pipeline
+          )
+        ).metadata()
+      : await sharp(inputPath, { density: options.density }).metadata();
+    if (!metadata.width || !metadata.height) {
+      throw new Error('Unable to read image dimensions');
+    }
+    // EXIF orientations 5-8 swap the displayed width and height
+    const rotated = (metadata.orientation ?? 1) >= 5;
+    const { width, height } = calculateOutputDimensions(
+      rotated ? metadata.height : metadata.width,
+      rotated ? metadata.width : metadata.height,
+      options
+    );
+    fields.width = width;
+    fields.height = height;
+  }
+  if (placeholders.includes('hash')) {
+    fields.hash = await hashFile(inputPath);
+  }
+
+  return path.join(outputDir, ...renderOutputTemplate(template, fields).split('/'));
+}
+
+/**
+ * Inserts a numbered suffix before the extension of an output path.
+ *
+ * @param outputPath - Output file path
+ * @param suffix - Suffix number
+ * @returns Output path such as `photo-1.webp`
+ */
+function withCollisionSuffix(outputPath: string, suffix: number): string {
+  const extension = path.extname(outputPath);
+  return `${outputPath.slice(0, outputPath.length - extension.length)}-${suffix}${extension}`;
+}
+
+/**
+ * Plans the output paths of a batch and resolves collisions before anything is written.
+ *
+ * Two sources collide when any file they may write (including every
+ * candidate variant and manifest) has the same path, compared
+ * case-insensitively as on macOS and Windows. With the `fail` policy a
+ * collision is an error; with `rename`, sources are claimed in path order
+ * and later ones get a numbered suffix (`photo-1.webp`).
+ *
+ * @param inputPaths - Input file paths
+ * @param inputDir - Input directory path
+ * @param outputDir - Output directory path
+ * @param options - CLI options; rules may change the format and variants of each file
+ * @returns Promise resolving to the planned outputs, in input order
+ * @throws Error if the template is invalid, or on a collision with the `fail` policy
+ */
+export async function planOutputPaths(
+  inputPaths: string[],
+  inputDir: string,
+  outputDir: string,
+  options: CliOptions
+): Promise<PlannedOutput[]> {
+  validateOutputTemplate(
+    options.outputTemplate ?? DEFAULT_OUTPUT_TEMPLATE,
+    !!options.variants || !!options.rules?.some((rule) => rule.options.variants)
+  );
+
+  const date = new Date();
+  const planned = await mapWithConcurrency(
+    inputPaths,
+    options.concurrency ?? getDefaultConcurrency(),
+    async (inputPath): Promise<PlannedOutput> => {
+      try {
+        const fileOptions = resolveFileOptions(options, inputDir, inputPath);
+        const outputPath = await resolveOutputPath(
+          inputPath,
+          inputDir,
+          outputDir,
+          fileOptions,
+          date
+        );
+        return { inputPath, outputPath };
+      } catch (error) {
+        return { inputPath, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+  );
+
+  // Claim output paths in a stable order, independent of directory listing order
+  const claimed = new Map<string, string>();
+  const collisions: string[] = [];
+  const order = planned
+    .filter((entry) => entry.outputPath !== undefined)
+    .sort((a, b) => a.inputPath.localeCompare(b.inputPath));
+
+  for (const entry of order) {
+    const basePath = entry.outputPath as string;
+    const fileOptions = resolveFileOptions(options, inputDir, entry.inputPath);
+    const claimedBy = (candidatePath: string): string | undefined =>
+      listOutputPaths(candidatePath, fileOptions)
+        .map((candidate) => claimed.get(candidate.toLowerCase()))
+        .find((owner) => owner !== undefined);
+
+    let outputPath = basePath;
+    let owner = claimedBy(outputPath);
+    if (owner !== undefined && options.onCollision !== 'rename') {
+      collisions.push(
+        `${path.relative(inputDir, owner)} and ${path.relative(inputDir, entry.inputPath)} both write ${path.relative(outputDir, basePath)}`
+      );
+      continue;
+    }
+    for (let suffix = 1; owner !== undefined; suffix++) {
+      outputPath = withCollisionSuffix(basePath, suffix);
+      owner = claimedBy(outputPath);
+    }
+
+    entry.outputPath = outputPath;
+    if (outputPath !== basePath) {
+      entry.renamedFrom = basePath;
+    }
+    for (const candidate of listOutputPaths(outputPath, fileOptions)) {
+      claimed.set(candidate.toLowerCase(), entry.inputPath);
+    }
+  }
+
+  if (collisions.length > 0) {
+    throw new Error(
+      `Output path collision: ${collisions.join('; ')}. Use --on-collision rename or a different --output-template.`
+    );
+  }
+  return planned;
+}
+
+/**
+ * Lists every file a conversion to the given output path may write.
+ *
+ * This is the output path itself or, when generating variants, every
+ * candidate variant path plus the variant manifest. When dumping frames,
+ * only the first frame's still is listed.
+ *
+ * @param outputPath - Output file path (base path when generating variants)
+ * @param options - Image processing options
+ * @returns Candidate output paths
+ */
+export function listOutputPaths(outputPath: string, options: ImageProcessingOptions): string[] {
+  const basePath = path.join(
+    path.dirname(outputPath),
+    path.basename(outputPath, path.extname(outputPath))
+  );
+  if (options.dumpFrames) {
+    // The frame count is only known once the source is read; every source has a first frame
+    return [getFrameOutputPath(basePath, normalizeFormat(options.format), 0)];
+  }
+  if (!options.variants) {
+    return [outputPath];
+  }
+
+  const candidates = listVariantOutputPaths(basePath, options.variants, options.format);
+  if (options.variantManifest) {
+    candidates.push(`${basePath}.${options.variantManifest}`);
+  }
+  return candidates;
+}
+
+/**
+ * Removes the files an interrupted conversion had written.
+ *
+ * These are the paths listOutputPaths lists for the output path, the frame
+ * stills after the first when dumping frames, and their temporary files, but
+ * only those modified since the conversion started, so earlier outputs are
+ * left alone.
+ *
+ * @param outputPath - Output file path (base path when generating variants)
+ * @param options - Effective image processing options of the source
+ * @param since - When the conversion started, in milliseconds since the epoch
+ * @param sourcePath - Source file, never removed (an in-place output may have replaced it)
+ * @returns Promise resolving to the removed file paths
+ */
+export async function removePartialOutputs(
+  outputPath: string,
+  options: ImageProcessingOptions,
+  since: number,
+  sourcePath?: string
+): Promise<string[]> {
+  const tempPath = (filePath: string): string => `${filePath}.${process.pid}.tmp`;
+  const exists = async (filePath: string): Promise<boolean> =>
+    (await fs.stat(filePath).catch(() => null)) !== null;
+
+  const candidates = listOutputPaths(outputPath, options);
+  if (options.dumpFrames) {
+    // Stills are numbered without gaps, so the frames written end at the first missing one
+    const basePath = path.join(
+      path.dirname(outputPath),
+      path.basename(outputPath, path.extname(outputPath))
+    );
+    const format = normalizeFormat(options.format);
+    for (let index = 1; ; index++) {
+      const framePath = getFrameOutputPath(basePath, format, index);
+      if (!(await exists(framePath)) && !(await exists(tempPath(framePath)))) {
+        break;
+      }
+      candidates.push(framePath);
+    }
+  }
+
+  const removed: string[] = [];
+  for (const filePath of candidates.flatMap((candidate) => [candidate, tempPath(candidate)])) {
+    if (sourcePath !== undefined && path.resolve(filePath) === path.resolve(sourcePath)) {
+      continue;
+    }
+    const stats = await fs.stat(filePath).catch(() => null);
+    if (stats?.isFile() && stats.mtimeMs >= since) {
+      await fs.rm(filePath, { force: true });
+      removed.push(filePath);
+    }
+  }
+  return removed;
+}
+
+/**
+ * Checks whether a path is equal to or inside a directory.
+ *
+ * @param dirPath - Directory path
+ * @param filePath - Path to check
+ * @returns True if filePath is dirPath or one of its descendants
+ */
+export function isInsideDirectory(dirPath: string, filePath: string): boolean {
+  const relative = path.relative(dirPath, filePath);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
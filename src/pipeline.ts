@@ -0,0 +1,398 @@
+import sharp from 'sharp';
+import type { ImagePosition, PipelineOperation } from './types';
+import { FIT_MODES, IMAGE_POSITIONS } from './config';
+import { isPlainObject } from './encoders';
+
+/**
+ * Validation rule for a single operation parameter.
+ */
+type ParameterRule =
+  | { type: 'boolean' }
+  | { type: 'integer'; min: number }
+  | { type: 'number'; min?: number; max?: number; exclusiveMin?: boolean }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'color' };
+
+/**
+ * Parameters an operation accepts and which of them must be set.
+ */
+interface OperationRule {
+  /** Allowed parameters and their rules */
+  parameters: Readonly<Record<string, ParameterRule>>;
+  /** Parameters that must all be set */
+  required?: readonly string[];
+  /** Parameters of which at least one must be set */
+  oneOf?: readonly string[];
+}
+
+/**
+ * Pipeline operation names.
+ */
+type OperationName = PipelineOperation['op'];
+
+const color: ParameterRule = { type: 'color' };
+const offset: ParameterRule = { type: 'integer', min: 0 };
+const size: ParameterRule = { type: 'integer', min: 1 };
+
+/**
+ * Allowed parameters per pipeline operation.
+ */
+const OPERATION_RULES: Readonly<Record<OperationName, OperationRule>> = {
+  rotate: { parameters: { angle: { type: 'number' }, background: color }, required: ['angle'] },
+  flip: { parameters: {} },
+  flop: { parameters: {} },
+  crop: {
+    parameters: { left: offset, top: offset, width: size, height: size },
+    required: ['left', 'top', 'width', 'height'],
+  },
+  extract: {
+    parameters: { left: offset, top: offset, width: size, height: size },
+    required: ['left', 'top', 'width', 'height'],
+  },
+  resize: {
+    parameters: {
+      width: size,
+      height: size,
+      fit: { type: 'enum', values: FIT_MODES },
+      position: { type: 'enum', values: IMAGE_POSITIONS },
+      background: color,
+      allowUpscale: { type: 'boolean' },
+    },
+    oneOf: ['width', 'height'],
+  },
+  blur: { parameters: { sigma: { type: 'number', min: 0.3, max: 1000 } } },
+  sharpen: { parameters: { sigma: { type: 'number', min: 0.000001, max: 10 } } },
+  grayscale: { parameters: {} },
+  modulate: {
+    parameters: {
+      brightness: { type: 'number', min: 0, exclusiveMin: true },
+      saturation: { type: 'number', min: 0 },
+      hue: { type: 'number' },
+      lightness: { type: 'number' },
+    },
+    oneOf: ['brightness', 'saturation', 'hue', 'lightness'],
+  },
+  gamma: { parameters: { gamma: { type: 'number', min: 1, max: 3 } } },
+  normalize: { parameters: {} },
+  trim: { parameters: { threshold: { type: 'number', min: 0 }, background: color } },
+  tint: { parameters: { color }, required: ['color'] },
+  extend: {
+    parameters: { top: offset, bottom: offset, left: offset, right: offset, background: color },
+  },
+  pad: {
+    parameters: { top: offset, bottom: offset, left: offset, right: offset, background: color },
+  },
+};
+
+/**
+ * Supported pipeline operations.
+ */
+export const PIPELINE_OPERATIONS = Object.keys(OPERATION_RULES) as readonly OperationName[];
+
+/**
+ * Error in a pipeline step, naming where the step is defined.
+ */
+export class PipelineError extends Error {
+  /**
+   * @param step - Location of the step, e.g. `pipeline[2]` or `pipelines.thumbnail[0]`
+   * @param op - Operation of the step, if known
+   * @param reason - What is wrong with the step
+   */
+  constructor(
+    readonly step: string,
+    readonly op: string | undefined,
+    readonly reason: string
+  ) {
+    super(`${step}${op ? ` (${op})` : ''}: ${reason}`);
+    this.name = 'PipelineError';
+  }
+}
+
+/**
+ * Describes what a parameter rule expects, for error messages.
+ *
+ * @param rule - Parameter rule
+ * @returns Human-readable expectation
+ */
+function describeRule(rule: ParameterRule): string {
+  switch (rule.type) {
+    case 'boolean':
+      return 'a boolean';
+    case 'integer':
+      return `an integer >= ${rule.min}`;
+    case 'number':
+      if (rule.min !== undefined && rule.max !== undefined) {
+        return `a number between ${rule.min} and ${rule.max}`;
+      }
+      if (rule.min !== undefined) {
+        return `a number ${rule.exclusiveMin ? '>' : '>='} ${rule.min}`;
+      }
+      return 'a number';
+    case 'enum':
+      return `one of ${rule.values.map((value) => `"${value}"`).join(', ')}`;
+    case 'color':
+      return 'a color string';
+  }
+}
+
+/**
+ * Checks a value against a parameter rule.
+ *
+ * @param rule - Parameter rule
+ * @param value - Value to check
+ * @returns True if the value satisfies the rule
+ */
+function matchesRule(rule: ParameterRule, value: unknown): boolean {
+  switch (rule.type) {
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value) && value >= rule.min;
+    case 'number':
+      return (
+        typeof value === 'number' &&
+        Number.isFinite(value) &&
+        (rule.min === undefined || (rule.exclusiveMin ? value > rule.min : value >= rule.min)) &&
+        (rule.max === undefined || value <= rule.max)
+      );
+    case 'enum':
+      return typeof value === 'string' && rule.values.includes(value);
+    case 'color':
+      return typeof value === 'string' && value.trim() !== '';
+  }
+}
+
+/**
+ * Validates one pipeline operation.
+ *
+ * @param value - Raw operation
+ * @param step - Location of the step, for error messages
+ * @returns Validated operation
+ * @throws PipelineError if the operation is unknown or a parameter is invalid
+ */
+function validateOperation(value: Record<string, unknown>, step: string): PipelineOperation {
+  const { op, ...parameters } = value;
+  if (typeof op !== 'string' || !Object.hasOwn(OPERATION_RULES, op)) {
+    throw new PipelineError(
+      step,
+      undefined,
+      `unknown operation ${JSON.stringify(op)} (allowed: ${PIPELINE_OPERATIONS.join(', ')})`
+    );
+  }
+
+  const rule = OPERATION_RULES[op as OperationName];
+  for (const [name, parameter] of Object.entries(parameters)) {
+    const parameterRule = Object.hasOwn(rule.parameters, name) ? rule.parameters[name] : undefined;
+    if (!parameterRule) {
+      const allowed = Object.keys(rule.parameters);
+      throw new PipelineError(
+        step,
+        op,
+        `${name}: not a ${op} parameter` +
+          (allowed.length > 0 ? ` (allowed: ${allowed.join(', ')})` : ' (it takes none)')
+      );
+    }
+    if (!matchesRule(parameterRule, parameter)) {
+      throw new PipelineError(
+        step,
+        op,
+        `${name}: expected ${describeRule(parameterRule)}, got ${JSON.stringify(parameter)}`
+      );
+    }
+  }
+
+  const missing = (rule.required ?? []).filter((name) => parameters[name] === undefined);
+  if (missing.length > 0) {
+    throw new PipelineError(step, op, `missing ${missing.join(', ')}`);
+  }
+  if (rule.oneOf && rule.oneOf.every((name) => parameters[name] === undefined)) {
+    throw new PipelineError(step, op, `set at least one of ${rule.oneOf.join(', ')}`);
+  }
+
+  return value as PipelineOperation;
+}
+
+/**
+ * Validates a pipeline from a config file and expands references to named pipelines.
+ *
+ * A step is either an operation object such as `{ "op": "blur", "sigma": 2 }`
+ * or the name of an entry in `pipelines`, whose steps run in its place.
+ *
+ * @param steps - Raw `pipeline` value
+ * @param pipelines - Raw `pipelines` value: named pipelines steps may refer to
+ * @returns Validated operations in the order they run
+ * @throws PipelineError naming the offending step when a step is invalid
+ */
+export function resolvePipeline(steps: unknown, pipelines: unknown = {}): PipelineOperation[] {
+  if (!isPlainObject(pipelines)) {
+    throw new PipelineError('pipelines', undefined, 'expected an object of named pipelines');
+  }
+
+  const expand = (value: unknown, location: string, using: string[]): PipelineOperation[] => {
+    if (!Array.isArray(value)) {
+      throw new PipelineError(location, undefined, 'expected an array of steps');
+    }
+    return value.flatMap((step: unknown, index) => {
+      const stepLocation = `${location}[${index}]`;
+      if (typeof step === 'string') {
+        if (!Object.hasOwn(pipelines, step)) {
+          const names = Object.keys(pipelines);
+          throw new PipelineError(
+            stepLocation,
+            undefined,
+            `unknown pipeline "${step}"` +
+              (names.length > 0 ? ` (defined: ${names.join(', ')})` : '')
+          );
+        }
+        if (using.includes(step)) {
+          throw new PipelineError(
+            stepLocation,
+            undefined,
+            `pipeline "${step}" refers to itself (${[...using, step].join(' → ')})`
+          );
+        }
+        return expand(pipelines[step], `pipelines.${step}`, [...using, step]);
+      }
+      if (!isPlainObject(step)) {
+        throw new PipelineError(
+          stepLocation,
+          undefined,
+          'expected an operation object or a pipeline name'
+        );
+      }
+      return [validateOperation(step, stepLocation)];
+    });
+  };
+
+  return expand(steps, 'pipeline', []);
+}
+
+/**
+ * Maps an ImagePosition to the value sharp expects for `resize({ position })`.
+ *
+ * @param position - Position option
+ * @returns Sharp position (gravity or smart crop strategy)
+ */
+export function toSharpPosition(position: ImagePosition | undefined): string | number {
+  if (position === 'entropy') {
+    return sharp.strategy.entropy;
+  }
+  if (position === 'attention') {
+    return sharp.strategy.attention;
+  }
+  return position ?? 'center';
+}
+
+/**
+ * Queues one operation on a sharp instance.
+ *
+ * @param image - Sharp instance reading the previous step's output
+ * @param operation - Operation to apply
+ * @param width - Width of the previous step's output
+ * @param height - Height of the previous step's output
+ * @returns Sharp instance with the operation queued
+ * @throws Error if a crop region lies outside the image
+ */
+function queueOperation(
+  image: sharp.Sharp,
+  operation: PipelineOperation,
+  width: number,
+  height: number
+): sharp.Sharp {
+  switch (operation.op) {
+    case 'rotate':
+      return image.rotate(operation.angle, { background: operation.background ?? '#000000' });
+    case 'flip':
+      return image.flip();
+    case 'flop':
+      return image.flop();
+    case 'crop':
+    case 'extract':
+      if (operation.left + operation.width > width || operation.top + operation.height > height) {
+        throw new Error(
+          `region ${operation.width}x${operation.height} at ${operation.left},${operation.top} ` +
+            `is outside the ${width}x${height} image`
+        );
+      }
+      return image.extract({
+        left: operation.left,
+        top: operation.top,
+        width: operation.width,
+        height: operation.height,
+      });
+    case 'resize':
+      return image.resize(operation.width, operation.height, {
+        fit: operation.fit ?? 'inside',
+        position: toSharpPosition(operation.position),
+        background: operation.background,
+        withoutEnlargement: !operation.allowUpscale,
+      });
+    case 'blur':
+      return image.blur(operation.sigma);
+    case 'sharpen':
+      return operation.sigma === undefined
+        ? image.sharpen()
+        : image.sharpen({ sigma: operation.sigma });
+    case 'grayscale':
+      return image.grayscale();
+    case 'modulate':
+      return image.modulate({
+        brightness: operation.brightness,
+        saturation: operation.saturation,
+        hue: operation.hue,
+        lightness: operation.lightness,
+      });
+    case 'gamma':
+      return image.gamma(operation.gamma);
+    case 'normalize':
+      return image.normalize();
+    case 'trim':
+      return image.trim({ threshold: operation.threshold, background: operation.background });
+    case 'tint':
+      return image.tint(operation.color);
+    case 'extend':
+    case 'pad':
+      return image.extend({
+        top: operation.top ?? 0,
+        bottom: operation.bottom ?? 0,
+        left: operation.left ?? 0,
+        right: operation.right ?? 0,
+        background: operation.background ?? { r: 0, g: 0, b: 0, alpha: 0 },
+      });
+  }
+}
+
+/**
+ * Runs pipeline operations on a still image, in order.
+ *
+ * sharp applies the operations queued on one instance in a fixed order of
+ * its own, so every step is rendered (losslessly, keeping metadata) before
+ * the next one runs. EXIF orientation is applied first.
+ *
+ * @param image - Sharp instance reading the source image
+ * @param operations - Validated operations
+ * @returns Promise resolving to a Sharp instance reading the transformed image
+ * @throws PipelineError naming the step that failed
+ */
+export async function applyPipeline(
+  image: sharp.Sharp,
+  operations: PipelineOperation[]
+): Promise<sharp.Sharp> {
+  const render = async (pipeline: sharp.Sharp): Promise<sharp.Sharp> =>
+    sharp(await pipeline.keepMetadata().png({ compressionLevel: 0 }).toBuffer());
+
+  let current = await render(image.rotate());
+  for (const [index, operation] of operations.entries()) {
+    try {
+      const { width = 0, height = 0 } = await current.metadata();
+      current = await render(queueOperation(current, operation, width, height));
+    } catch (error) {
+      throw new PipelineError(
+        `pipeline[${index}]`,
+        operation.op,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+  return current;
+}
@@ -0,0 +1,211 @@
+import type { PlanFormat, PlannedFile, ProcessResult, ProcessingSummary } from './types';
+
+/**
+ * Supported dry-run plan formats.
+ */
+export const PLAN_FORMATS: readonly PlanFormat[] = ['text', 'json'] as const;
+
+/**
+ * What a dry run found would happen to a source.
+ */
+export type PlanAction = 'create' | 'overwrite' | 'skip' | 'filter' | 'fail';
+
+/**
+ * One source of a dry-run plan.
+ */
+export interface PlanEntry {
+  input: string;
+  action: PlanAction;
+  /** Output format, unless the source is left out or fails */
+  format: string | null;
+  /** Every file the conversion would write */
+  outputs: PlannedFile[];
+  /** Output path from the template, when a numbered suffix avoids a collision */
+  renamedFrom: string | null;
+  originalSize: number | null;
+  originalWidth: number | null;
+  originalHeight: number | null;
+  /** Number of frames, for animated sources */
+  frames: number | null;
+  /** Format recognized from the source's content */
+  contentFormat: string | null;
+  /** Whether the source's extension names another format than its content */
+  extensionMismatch: boolean;
+  /** Why the source is skipped, filtered or fails */
+  reason: string | null;
+}
+
+/**
+ * Machine-readable dry-run plan.
+ */
+export interface Plan {
+  dryRun: true;
+  totals: Record<PlanAction, number> & { total: number };
+  files: PlanEntry[];
+}
+
+/**
+ * Validates if a string is a supported plan format.
+ *
+ * @param format - Format string to validate
+ * @returns True if the plan format is supported
+ */
+export function isPlanFormat(format: string): format is PlanFormat {
+  return PLAN_FORMATS.includes(format as PlanFormat);
+}
+
+/**
+ * Gets what a dry run found would happen to a source.
+ *
+ * @param result - Dry-run result
+ * @returns Planned action
+ */
+export function getPlanAction(result: ProcessResult): PlanAction {
+  if (!result.success) {
+    return 'fail';
+  }
+  if (result.filtered) {
+    return 'filter';
+  }
+  if (result.skipped) {
+    return 'skip';
+  }
+  return result.plan?.action ?? 'create';
+}
+
+/**
+ * Builds a plan from the summary of a dry run.
+ *
+ * @param summary - Dry-run processing summary
+ * @returns Plan with per-file entries and totals
+ */
+export function buildPlan(summary: ProcessingSummary): Plan {
+  const files = summary.results.map((result): PlanEntry => {
+    const action = getPlanAction(result);
+    return {
+      input: result.inputPath,
+      action,
+      format: result.plan?.format ?? null,
+      outputs: (
+        result.plan?.files ?? (action === 'skip' ? [{ outputPath: result.outputPath }] : [])
+      ).map((file) => ({ ...file, exists: file.exists ?? action === 'skip' })),
+      renamedFrom: result.plan?.renamedFrom ?? null,
+      originalSize: result.originalSize ?? null,
+      originalWidth: result.originalWidth ?? null,
+      originalHeight: result.originalHeight ?? null,
+      frames: result.frames ?? null,
+      contentFormat: result.contentFormat ?? null,
+      extensionMismatch: result.extensionMismatch ?? false,
+      reason:
+        action === 'fail'
+          ? (result.error ?? null)
+          : action === 'filter'
+            ? (result.filterReason ?? null)
+            : action === 'skip'
+              ? (result.skipReason ?? 'unchanged')
+              : null,
+    };
+  });
+
+  const count = (action: PlanAction): number =>
+    files.filter((entry) => entry.action === action).length;
+  return {
+    dryRun: true,
+    totals: {
+      total: files.length,
+      create: count('create'),
+      overwrite: count('overwrite'),
+      skip: count('skip'),
+      filter: count('filter'),
+      fail: count('fail'),
+    },
+    files,
+  };
+}
+
+/**
+ * Formats planned dimensions, e.g. `1200x800`.
+ *
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @returns Dimensions, or undefined if either is unknown
+ */
+function formatDimensions(
+  width: number | null | undefined,
+  height: number | null | undefined
+): string | undefined {
+  return width && height ? `${width}x${height}` : undefined;
+}
+
+/**
+ * Formats a plan as one line per source (plus one per additional output) and a totals line.
+ *
+ * @param plan - Plan to format
+ * @returns Plan text
+ */
+function formatText(plan: Plan): string {
+  const lines: string[] = [];
+  for (const entry of plan.files) {
+    const label = entry.action.padEnd(10);
+    if (entry.action === 'fail') {
+      lines.push(`${label} ${entry.input}: ${entry.reason}`);
+      continue;
+    }
+    if (entry.action === 'filter' || entry.action === 'skip') {
+      lines.push(`${label} ${entry.input} (${entry.reason})`);
+      continue;
+    }
+
+    const [first, ...rest] = entry.outputs;
+    const source = formatDimensions(entry.originalWidth, entry.originalHeight);
+    const target = formatDimensions(first?.width, first?.height);
+    const details = [
+      source && target ? `${source} → ${target}` : undefined,
+      entry.frames ? `${entry.frames} frames` : undefined,
+      entry.extensionMismatch ? `content is ${entry.contentFormat}` : undefined,
+      first?.exists ? 'exists' : undefined,
+      entry.renamedFrom ? `renamed from ${entry.renamedFrom}` : undefined,
+    ].filter((detail) => detail !== undefined);
+    lines.push(
+      `${label} ${entry.input} → ${first?.outputPath}` +
+        (details.length > 0 ? ` (${details.join(', ')})` : '')
+    );
+    for (const file of rest) {
+      const fileDetails = [
+        formatDimensions(file.width, file.height),
+        file.exists ? 'exists' : undefined,
+      ].filter((detail) => detail !== undefined);
+      lines.push(
+        `${' '.repeat(label.length)}  ↳ ${file.outputPath}` +
+          (fileDetails.length > 0 ? ` (${fileDetails.join(', ')})` : '')
+      );
+    }
+  }
+
+  const { totals } = plan;
+  if (lines.length > 0) {
+    lines.push('');
+  }
+  lines.push(
+    `Plan: ${totals.total} files: ${totals.create} to create, ${totals.overwrite} to overwrite, ` +
+      `${totals.skip} unchanged, ${totals.filter} filtered, ${totals.fail} failing`
+  );
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serializes the summary of a dry run in the given plan format.
+ *
+ * @param summary - Dry-run processing summary
+ * @param format - Plan format
+ * @returns Plan text
+ */
+export function formatPlan(summary: ProcessingSummary, format: PlanFormat): string {
+  const plan = buildPlan(summary);
+  switch (format) {
+    case 'json':
+      return JSON.stringify(plan, null, 2) + '\n';
+    case 'text':
+      return formatText(plan);
+  }
+}
@@ -0,0 +1,87 @@
+import type { ProcessResult, ProgressEvent, ProgressStats } from './types';
+
+/**
+ * Counts the files of a batch as they start and finish, emitting progress events.
+ */
+export interface ProgressTracker {
+  /** Emits the `start` event */
+  start(): void;
+  /** Records a file whose conversion started */
+  fileStarted(inputPath: string, outputPath: string): void;
+  /** Emits the `file-verified` event of a file whose source is about to be touched */
+  fileVerified(inputPath: string, outputPath: string): void;
+  /** Records a finished file */
+  fileFinished(result: ProcessResult): void;
+}
+
+/**
+ * Creates a progress tracker for a batch.
+ *
+ * The ETA extrapolates the average time per finished file to the files not
+ * yet finished.
+ *
+ * @param total - Number of files in the batch
+ * @param onProgress - Callback receiving every event (nothing is computed without one)
+ * @returns Progress tracker
+ */
+export function createProgressTracker(
+  total: number,
+  onProgress?: (event: ProgressEvent) => void
+): ProgressTracker {
+  const startTime = performance.now();
+  const counts: Omit<ProgressStats, 'elapsedMs' | 'etaMs'> = {
+    total,
+    completed: 0,
+    successful: 0,
+    skipped: 0,
+    filtered: 0,
+    failed: 0,
+    inFlight: 0,
+    bytesIn: 0,
+    bytesOut: 0,
+  };
+
+  const emit = (event: Omit<ProgressEvent, 'stats'>): void => {
+    if (!onProgress) {
+      return;
+    }
+    const elapsedMs = Math.round(performance.now() - startTime);
+    const stats: ProgressStats = { ...counts, elapsedMs };
+    if (counts.completed > 0) {
+      stats.etaMs = Math.round((elapsedMs / counts.completed) * (total - counts.completed));
+    }
+    onProgress({ ...event, stats });
+  };
+
+  return {
+    start: () => emit({ type: 'start' }),
+    fileStarted: (inputPath, outputPath) => {
+      counts.inFlight++;
+      emit({ type: 'file-start', inputPath, outputPath });
+    },
+    fileVerified: (inputPath, outputPath) => {
+      emit({ type: 'file-verified', inputPath, outputPath });
+    },
+    fileFinished: (result) => {
+      counts.inFlight--;
+      counts.completed++;
+      if (!result.success) {
+        counts.failed++;
+      } else if (result.filtered) {
+        counts.filtered++;
+      } else if (result.skipped) {
+        counts.skipped++;
+      } else {
+        counts.successful++;
+        counts.bytesIn += result.originalSize ?? 0;
+        counts.bytesOut += result.newSize ?? 0;
+      }
+      emit({
+        type: result.success ? 'file-done' : 'file-failed',
+        inputPath: result.inputPath,
+        outputPath: result.outputPath,
+        result,
+      });
+    },
+  };
+}
@@ -0,0 +1,308 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { ProcessResult, ProcessingSummary, ReportFormat } from './types';
+
+/**
+ * Supported report formats.
+ */
+export const REPORT_FORMATS: readonly ReportFormat[] = ['json', 'csv', 'junit'] as const;
+
+/**
+ * Outcome of a single file in a report.
+ */
+export type ResultStatus = 'converted' | 'skipped' | 'filtered' | 'failed';
+
+/**
+ * One file entry of a processing report.
+ */
+export interface ReportEntry {
+  input: string;
+  output: string;
+  status: ResultStatus;
+  error: string | null;
+  filterReason: string | null;
+  /** Why a skipped file was not converted ("unchanged" in incremental mode) */
+  skipReason: string | null;
+  originalSize: number | null;
+  newSize: number | null;
+  originalWidth: number | null;
+  originalHeight: number | null;
+  width: number | null;
+  height: number | null;
+  durationMs: number | null;
+  /** New size divided by original size (below 1 means smaller) */
+  compressionRatio: number | null;
+  /** Format recognized from the source's content */
+  contentFormat: string | null;
+  /** Whether the source's extension names another format than its content */
+  extensionMismatch: boolean;
+  /** Quality the output was encoded at, when searched for a byte budget or SSIM target */
+  quality: number | null;
+  /** SSIM against the resized source, when targeting perceptual quality */
+  ssim: number | null;
+  /** Whether the SSIM reached the target, when targeting perceptual quality */
+  targetMet: boolean | null;
+}
+
+/**
+ * Aggregate totals of a processing report.
+ */
+export interface ReportTotals {
+  total: number;
+  converted: number;
+  skipped: number;
+  filtered: number;
+  failed: number;
+  /** Number of sources whose extension names another format than their content */
+  extensionMismatches: number;
+  /** Number of converted files whose SSIM missed the target */
+  targetsMissed: number;
+  /** Sum of the original sizes of converted files */
+  originalBytes: number;
+  /** Sum of the new sizes of converted files */
+  newBytes: number;
+  /** originalBytes - newBytes (negative when outputs grew) */
+  bytesSaved: number;
+  /** newBytes divided by originalBytes, or null when nothing was converted */
+  compressionRatio: number | null;
+  durationMs: number | null;
+}
+
+/**
+ * Machine-readable processing report.
+ */
+export interface Report {
+  generatedAt: string;
+  totals: ReportTotals;
+  files: ReportEntry[];
+}
+
+/**
+ * Validates if a string is a supported report format.
+ *
+ * @param format - Format string to validate
+ * @returns True if the report format is supported
+ */
+export function isReportFormat(format: string): format is ReportFormat {
+  return REPORT_FORMATS.includes(format as ReportFormat);
+}
+
+/**
+ * Gets the outcome of a processing result.
+ *
+ * @param result - Processing result
+ * @returns Result status
+ */
+export function getResultStatus(result: ProcessResult): ResultStatus {
+  if (!result.success) {
+    return 'failed';
+  }
+  if (result.filtered) {
+    return 'filtered';
+  }
+  return result.skipped ? 'skipped' : 'converted';
+}
+
+/**
+ * Computes a size ratio rounded to four decimals.
+ *
+ * @param newSize - New size in bytes
+ * @param originalSize - Original size in bytes
+ * @returns Ratio, or null if either size is unknown or the original is empty
+ */
+function sizeRatio(newSize: number | undefined, originalSize: number | undefined): number | null {
+  if (newSize === undefined || !originalSize) {
+    return null;
+  }
+  return Math.round((newSize / originalSize) * 10000) / 10000;
+}
+
+/**
+ * Builds a report from a processing summary.
+ *
+ * @param summary - Processing summary
+ * @returns Report with per-file entries and totals
+ */
+export function buildReport(summary: ProcessingSummary): Report {
+  const files = summary.results.map((result): ReportEntry => ({
+    input: result.inputPath,
+    output: result.outputPath,
+    status: getResultStatus(result),
+    error: result.error ?? null,
+    filterReason: result.filterReason ?? null,
+    skipReason: result.skipped ? (result.skipReason ?? 'unchanged') : null,
+    originalSize: result.originalSize ?? null,
+    newSize: result.newSize ?? null,
+    originalWidth: result.originalWidth ?? null,
+    originalHeight: result.originalHeight ?? null,
+    width: result.width ?? null,
+    height: result.height ?? null,
+    durationMs: result.durationMs ?? null,
+    compressionRatio: sizeRatio(result.newSize, result.originalSize),
+    contentFormat: result.contentFormat ?? null,
+    extensionMismatch: result.extensionMismatch ?? false,
+    quality: result.quality ?? null,
+    ssim: result.ssim ?? null,
+    targetMet: result.targetMet ?? null,
+  }));
+
+  const converted = summary.results.filter((result) => getResultStatus(result) === 'converted');
+  const originalBytes = converted.reduce((total, result) => total + (result.originalSize ?? 0), 0);
+  const newBytes = converted.reduce((total, result) => total + (result.newSize ?? 0), 0);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    totals: {
+      total: summary.total,
+      converted: summary.successful,
+      skipped: summary.skipped,
+      filtered: summary.filtered,
+      failed: summary.failed,
+      extensionMismatches: files.filter((entry) => entry.extensionMismatch).length,
+      targetsMissed: files.filter((entry) => entry.targetMet === false).length,
+      originalBytes,
+      newBytes,
+      bytesSaved: originalBytes - newBytes,
+      compressionRatio: sizeRatio(newBytes, originalBytes),
+      durationMs: summary.durationMs ?? null,
+    },
+    files,
+  };
+}
+
+/**
+ * Escapes a value for a CSV field.
+ *
+ * @param value - Field value
+ * @returns Escaped field
+ */
+function escapeCsv(value: string | number | boolean | null): string {
+  if (value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Escapes a value for an XML attribute.
+ *
+ * @param value - Attribute value
+ * @returns Escaped value
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Formats a report as one CSV row per file.
+ *
+ * @param report - Report to format
+ * @returns CSV text with a header row
+ */
+function formatCsv(report: Report): string {
+  const columns: (keyof ReportEntry)[] = [
+    'input',
+    'output',
+    'status',
+    'error',
+    'filterReason',
+    'skipReason',
+    'originalSize',
+    'newSize',
+    'originalWidth',
+    'originalHeight',
+    'width',
+    'height',
+    'durationMs',
+    'compressionRatio',
+    'contentFormat',
+    'extensionMismatch',
+    'quality',
+    'ssim',
+    'targetMet',
+  ];
+  const rows = report.files.map((entry) =>
+    columns.map((column) => escapeCsv(entry[column])).join(',')
+  );
+  return [columns.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Formats a report as a JUnit XML test suite, one test case per file.
+ *
+ * @param report - Report to format
+ * @returns JUnit XML text
+ */
+function formatJunit(report: Report): string {
+  const seconds = (ms: number | null): string => ((ms ?? 0) / 1000).toFixed(3);
+  const { totals } = report;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuite name="img-tool" tests="${totals.total}" failures="${totals.failed}" ` +
+      `skipped="${totals.skipped + totals.filtered}" time="${seconds(totals.durationMs)}" timestamp="${report.generatedAt}">`,
+  ];
+  for (const entry of report.files) {
+    const open =
+      `  <testcase classname="img-tool" name="${escapeXml(entry.input)}" ` +
+      `time="${seconds(entry.durationMs)}"`;
+    if (entry.status === 'failed') {
+      lines.push(`${open}>`);
+      lines.push(`    <failure message="${escapeXml(entry.error ?? 'Conversion failed')}"/>`);
+      lines.push('  </testcase>');
+    } else if (entry.status === 'skipped') {
+      lines.push(`${open}>`);
+      lines.push(`    <skipped message="${escapeXml(entry.skipReason ?? 'unchanged')}"/>`);
+      lines.push('  </testcase>');
+    } else if (entry.status === 'filtered') {
+      lines.push(`${open}>`);
+      lines.push(`    <skipped message="${escapeXml(`filtered: ${entry.filterReason ?? ''}`)}"/>`);
+      lines.push('  </testcase>');
+    } else {
+      lines.push(`${open}/>`);
+    }
+  }
+  lines.push('</testsuite>');
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serializes a processing summary in the given report format.
+ *
+ * @param summary - Processing summary
+ * @param format - Report format
+ * @returns Report text
+ */
+export function formatReport(summary: ProcessingSummary, format: ReportFormat): string {
+  const report = buildReport(summary);
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2) + '\n';
+    case 'csv':
+      return formatCsv(report);
+    case 'junit':
+      return formatJunit(report);
+  }
+}
+
+/**
+ * Writes a processing report to a file, creating its directory if needed.
+ *
+ * @param summary - Processing summary
+ * @param reportPath - Path of the report file
+ * @param format - Report format
+ */
+export async function writeReport(
+  summary: ProcessingSummary,
+  reportPath: string,
+  format: ReportFormat
+): Promise<void> {
+  await fs.mkdir(path.dirname(reportPath), { recursive: true });
+  await fs.writeFile(reportPath, formatReport(summary, format));
+}
@@ -0,0 +1,288 @@
+import * as path from 'path';
+import type { ImageProcessingOptions, OptionRule, VariantSpec } from './types';
+import { normalizeFormat, parseByteSize } from './config';
+import { isPlainObject, validateEncoderOptions } from './encoders';
+import { resolveVariantSpec } from './variants';
+import { validateWatermarkOptions } from './watermark';
+import { resolvePipeline } from './pipeline';
+import { matchesGlob } from './glob';
+
+/**
+ * Options a preset or rule may set; they only affect how each file is converted.
+ */
+export const FILE_OPTION_KEYS: readonly (keyof ImageProcessingOptions)[] = [
+  'format',
+  'width',
+  'height',
+  'minWidth',
+  'minHeight',
+  'maxWidth',
+  'maxHeight',
+  'quality',
+  'allowUpscale',
+  'maxSize',
+  'minQuality',
+  'shrinkToFit',
+  'targetSsim',
+  'keepIfLarger',
+  'encoders',
+  'fit',
+  'position',
+  'background',
+  'metadata',
+  'copyright',
+  'artist',
+  'variants',
+  'variantManifest',
+  'frame',
+  'density',
+  'dumpFrames',
+  'watermark',
+  'pipeline',
+];
+
+/**
+ * A rule that applies to a file, with its position in the rules list.
+ */
+export interface RuleMatch {
+  /** Index of the rule in the rules list */
+  index: number;
+  /** The matching rule */
+  rule: OptionRule;
+}
+
+/**
+ * Effective options of one file and where each came from.
+ */
+export interface FileOptionsExplanation<T extends ImageProcessingOptions> {
+  /** Rules that match the file, in the order they apply */
+  matches: RuleMatch[];
+  /** Effective options */
+  options: T;
+  /** Rule that set each overridden option, e.g. `rules[1]` */
+  sources: Partial<Record<keyof ImageProcessingOptions, string>>;
+}
+
+/**
+ * Validates and normalizes the options of a preset or rule from a config file.
+ *
+ * Formats, sizes, variant specs, encoder options, watermarks and pipelines
+ * are normalized as they are for the top-level options; the remaining
+ * values are validated with the effective options of each file.
+ *
+ * @param value - Raw options object
+ * @param location - Where the options are defined, for error messages (e.g. `rules[0].options`)
+ * @param pipelines - Raw `pipelines` value, for named pipeline steps
+ * @returns Normalized options
+ * @throws Error naming the offending key when an option is not a per-file option or is invalid
+ */
+export function normalizeFileOptions(
+  value: unknown,
+  location: string,
+  pipelines: unknown = {}
+): Partial<ImageProcessingOptions> {
+  if (!isPlainObject(value)) {
+    throw new Error(`${location}: expected an object of options`);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, optionValue] of Object.entries(value)) {
+    if (!(FILE_OPTION_KEYS as readonly string[]).includes(key)) {
+      throw new Error(
+        `${location}.${key}: not a per-file option (allowed: ${FILE_OPTION_KEYS.join(', ')})`
+      );
+    }
+    try {
+      switch (key) {
+        case 'format':
+          result.format = normalizeFormat(String(optionValue));
+          break;
+        case 'maxSize':
+          result.maxSize = parseByteSize(optionValue as string | number);
+          break;
+        case 'variants':
+          result.variants = resolveVariantSpec(optionValue as string | VariantSpec);
+          break;
+        case 'encoders':
+          result.encoders = validateEncoderOptions(optionValue);
+          break;
+        case 'watermark':
+          result.watermark = validateWatermarkOptions(optionValue);
+          break;
+        case 'pipeline':
+          result.pipeline = resolvePipeline(optionValue, pipelines);
+          break;
+        default:
+          result[key] = optionValue;
+      }
+    } catch (error) {
+      throw new Error(
+        `${location}.${key}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  return result as Partial<ImageProcessingOptions>;
+}
+
+/**
+ * Gets a preset from the config file's `presets`.
+ *
+ * @param presets - Raw `presets` value
+ * @param name - Preset name
+ * @param pipelines - Raw `pipelines` value, for named pipeline steps
+ * @returns Normalized preset options
+ * @throws Error if the preset does not exist or is invalid
+ */
+export function getPreset(
+  presets: unknown,
+  name: string,
+  pipelines: unknown = {}
+): Partial<ImageProcessingOptions> {
+  const defined = isPlainObject(presets) ? Object.keys(presets) : [];
+  if (!isPlainObject(presets) || !Object.hasOwn(presets, name)) {
+    throw new Error(
+      `Unknown preset "${name}"` +
+        (defined.length > 0 ? ` (defined: ${defined.join(', ')})` : ' (the config defines none)')
+    );
+  }
+  return normalizeFileOptions(presets[name], `presets.${name}`, pipelines);
+}
+
+/**
+ * Validates the `rules` list of a config file.
+ *
+ * Each rule has a `match` glob (or list of globs) and a `preset`, `options`
+ * or both; its options are the preset's with its own options on top.
+ *
+ * @param rules - Raw `rules` value
+ * @param presets - Raw `presets` value
+ * @param pipelines - Raw `pipelines` value, for named pipeline steps
+ * @returns Normalized rules
+ * @throws Error naming the offending rule when a rule is invalid
+ */
+export function resolveRules(
+  rules: unknown,
+  presets: unknown = {},
+  pipelines: unknown = {}
+): OptionRule[] {
+  if (!Array.isArray(rules)) {
+    throw new Error('rules: expected an array of rules');
+  }
+
+  return rules.map((rule: unknown, index) => {
+    const location = `rules[${index}]`;
+    if (!isPlainObject(rule)) {
+      throw new Error(`${location}: expected an object with "match" and "preset" or "options"`);
+    }
+    for (const key of Object.keys(rule)) {
+      if (!['match', 'preset', 'options'].includes(key)) {
+        throw new Error(`${location}.${key}: not a rule key (allowed: match, preset, options)`);
+      }
+    }
+
+    const match = typeof rule.match === 'string' ? [rule.match] : rule.match;
+    if (
+      !Array.isArray(match) ||
+      match.length === 0 ||
+      !match.every((pattern) => typeof pattern === 'string' && pattern !== '')
+    ) {
+      throw new Error(`${location}.match: expected a glob pattern or a list of glob patterns`);
+    }
+    if (rule.preset === undefined && rule.options === undefined) {
+      throw new Error(`${location}: set "preset", "options" or both`);
+    }
+    if (rule.preset !== undefined && typeof rule.preset !== 'string') {
+      throw new Error(`${location}.preset: expected a preset name`);
+    }
+
+    let preset: Partial<ImageProcessingOptions> = {};
+    if (rule.preset !== undefined) {
+      try {
+        preset = getPreset(presets, rule.preset, pipelines);
+      } catch (error) {
+        throw new Error(
+          `${location}.preset: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+    const options =
+      rule.options !== undefined
+        ? normalizeFileOptions(rule.options, `${location}.options`, pipelines)
+        : {};
+
+    return {
+      match: match as string[],
+      ...(rule.preset !== undefined ? { preset: rule.preset } : {}),
+      options: { ...preset, ...options },
+    };
+  });
+}
+
+/**
+ * Gets the path of a file relative to the input directory, as rules match it.
+ *
+ * @param inputDir - Input directory path
+ * @param inputPath - File path
+ * @returns Relative path with `/` separators
+ */
+export function toRulePath(inputDir: string, inputPath: string): string {
+  return path.relative(inputDir, inputPath).split(path.sep).join('/');
+}
+
+/**
+ * Lists the rules that apply to a file.
+ *
+ * @param rules - Rules, in config order
+ * @param relativePath - File path relative to the input directory, with `/` separators
+ * @returns Matching rules in the order they apply
+ */
+export function getMatchingRules(rules: OptionRule[], relativePath: string): RuleMatch[] {
+  return rules.flatMap((rule, index) =>
+    rule.match.some((pattern) => matchesGlob(relativePath, pattern)) ? [{ index, rule }] : []
+  );
+}
+
+/**
+ * Resolves the effective options of one file and explains where they came from.
+ *
+ * Matching rules apply in order on top of the base options, so a later rule
+ * overrides an earlier one.
+ *
+ * @param options - Base options (config file, preset and command line)
+ * @param relativePath - File path relative to the input directory, with `/` separators
+ * @returns Effective options, the matching rules and the rule that set each option
+ */
+export function explainFileOptions<T extends ImageProcessingOptions & { rules?: OptionRule[] }>(
+  options: T,
+  relativePath: string
+): FileOptionsExplanation<T> {
+  const matches = getMatchingRules(options.rules ?? [], relativePath);
+  const sources: FileOptionsExplanation<T>['sources'] = {};
+  let effective = options;
+  for (const { index, rule } of matches) {
+    effective = { ...effective, ...rule.options };
+    for (const key of Object.keys(rule.options) as (keyof ImageProcessingOptions)[]) {
+      sources[key] = `rules[${index}]`;
+    }
+  }
+  return { matches, options: effective, sources };
+}
+
+/**
+ * Resolves the effective options of one file from the rules that match it.
+ *
+ * @param options - Base options (config file, preset and command line)
+ * @param inputDir - Input directory the rules' patterns are relative to
+ * @param inputPath - File path
+ * @returns Effective options (the base options when no rule matches)
+ */
+export function resolveFileOptions<T extends ImageProcessingOptions & { rules?: OptionRule[] }>(
+  options: T,
+  inputDir: string,
+  inputPath: string
+): T {
+  if (!options.rules?.length) {
+    return options;
+  }
+  return explainFileOptions(options, toRulePath(inputDir, inputPath)).options;
+}
@@ -0,0 +1,230 @@
+import sharp from 'sharp';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { CliOptions } from './types';
+import { matchesGlob } from './glob';
+import { sniffImageFormat } from './sniff';
+
+/**
+ * Name of the ignore file honored in every traversed directory.
+ */
+export const IGNORE_FILENAME = '.imgtoolignore';
+
+/**
+ * One pattern of an ignore file.
+ */
+interface IgnoreRule {
+  /** Directory of the ignore file, relative to the root ('' for the root) */
+  baseDir: string;
+  /** Glob pattern, relative to baseDir */
+  pattern: string;
+  /** `!pattern`: re-includes paths excluded by an earlier rule */
+  negated: boolean;
+  /** `pattern/`: only matches directories */
+  directoryOnly: boolean;
+}
+
+/**
+ * Decides which files of an input directory a batch run considers.
+ */
+export interface PathFilter {
+  /**
+   * Checks whether a directory should be traversed.
+   *
+   * @param relativePath - Directory path relative to the root, with `/` separators
+   */
+  isDirectorySelected: (relativePath: string) => Promise<boolean>;
+  /**
+   * Checks whether a file should be processed, including its parent directories.
+   *
+   * @param relativePath - File path relative to the root, with `/` separators
+   */
+  isFileSelected: (relativePath: string) => Promise<boolean>;
+}
+
+/**
+ * Parses the content of an ignore file (gitignore syntax: one glob per line,
+ * `#` comments, `!` negation, trailing `/` for directories).
+ *
+ * @param content - Ignore file content
+ * @param baseDir - Directory of the ignore file, relative to the root
+ * @returns Ignore rules in file order
+ */
+export function parseIgnoreFile(content: string, baseDir: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+    const negated = line.startsWith('!');
+    const pattern = negated ? line.slice(1) : line;
+    rules.push({ baseDir, pattern, negated, directoryOnly: pattern.endsWith('/') });
+  }
+  return rules;
+}
+
+/**
+ * Gets the path of a file relative to an ignore rule's directory.
+ *
+ * @param rule - Ignore rule
+ * @param relativePath - Path relative to the root
+ * @returns Path relative to the rule's directory, or null if outside it
+ */
+function relativeToRule(rule: IgnoreRule, relativePath: string): string | null {
+  if (!rule.baseDir) {
+    return relativePath;
+  }
+  return relativePath.startsWith(`${rule.baseDir}/`)
+    ? relativePath.slice(rule.baseDir.length + 1)
+    : null;
+}
+
+/**
+ * Creates a path filter from include/exclude patterns and `.imgtoolignore` files.
+ *
+ * Exclude patterns and ignore files apply to files and directories; an
+ * excluded directory is not traversed. When include patterns are given, a
+ * file must match at least one of them. Ignore files apply to their own
+ * directory and below, and later rules override earlier ones.
+ *
+ * @param rootDir - Input directory the relative paths are based on
+ * @param options - CLI options with include/exclude patterns
+ * @returns PathFilter for the input directory
+ */
+export function createPathFilter(
+  rootDir: string,
+  options: Pick<CliOptions, 'include' | 'exclude'>
+): PathFilter {
+  const include = options.include ?? [];
+  const exclude = options.exclude ?? [];
+  const ignoreFiles = new Map<string, Promise<IgnoreRule[]>>();
+
+  const loadRules = (relativeDir: string): Promise<IgnoreRule[]> => {
+    let rules = ignoreFiles.get(relativeDir);
+    if (!rules) {
+      rules = fs
+        .readFile(path.join(rootDir, relativeDir, IGNORE_FILENAME), 'utf-8')
+        .then((content) => parseIgnoreFile(content, relativeDir))
+        .catch(() => []);
+      ignoreFiles.set(relativeDir, rules);
+    }
+    return rules;
+  };
+
+  // Rules of the ignore files in the root and every directory down to the path's parent
+  const rulesFor = async (relativePath: string): Promise<IgnoreRule[]> => {
+    const parts = relativePath.split('/').slice(0, -1);
+    const dirs = [''];
+    for (let i = 1; i <= parts.length; i++) {
+      dirs.push(parts.slice(0, i).join('/'));
+    }
+    return (await Promise.all(dirs.map(loadRules))).flat();
+  };
+
+  const isExcluded = async (relativePath: string, isDirectory: boolean): Promise<boolean> => {
+    if (exclude.some((pattern) => matchesGlob(relativePath, pattern))) {
+      return true;
+    }
+
+    let ignored = false;
+    for (const rule of await rulesFor(relativePath)) {
+      const ruleRelative = relativeToRule(rule, relativePath);
+      if (ruleRelative === null || (rule.directoryOnly && !isDirectory)) {
+        continue;
+      }
+      if (matchesGlob(ruleRelative, rule.pattern)) {
+        ignored = !rule.negated;
+      }
+    }
+    return ignored;
+  };
+
+  const isDirectorySelected = async (relativePath: string): Promise<boolean> =>
+    !(await isExcluded(relativePath, true));
+
+  return {
+    isDirectorySelected,
+    isFileSelected: async (relativePath) => {
+      // Files inside an excluded directory stay excluded
+      const parts = relativePath.split('/');
+      for (let i = 1; i < parts.length; i++) {
+        if (!(await isDirectorySelected(parts.slice(0, i).join('/')))) {
+          return false;
+        }
+      }
+      if (await isExcluded(relativePath, false)) {
+        return false;
+      }
+      return include.length === 0 || include.some((pattern) => matchesGlob(relativePath, pattern));
+    },
+  };
+}
+
+/**
+ * Checks a source file against the size, content format and dimension selection options.
+ *
+ * Only the file size and image header are read, so filtered files are never decoded.
+ * The input format allowlist is checked against the content, not the extension.
+ *
+ * @param inputPath - Source file path
+ * @param size - Source file size in bytes
+ * @param options - CLI options with selection predicates
+ * @returns Promise resolving to the reason the file is filtered out, or null if selected
+ */
+export async function getFilterReason(
+  inputPath: string,
+  size: number,
+  options: CliOptions
+): Promise<string | null> {
+  if (options.onlyLargerThan !== undefined && size <= options.onlyLargerThan) {
+    return `file size ${size} bytes is not larger than ${options.onlyLargerThan} bytes`;
+  }
+  if (options.onlySmallerThan !== undefined && size >= options.onlySmallerThan) {
+    return `file size ${size} bytes is not smaller than ${options.onlySmallerThan} bytes`;
+  }
+
+  if (options.inputFormats !== undefined) {
+    const format = await sniffImageFormat(inputPath);
+    if (format === null) {
+      return 'content is not a recognized image format';
+    }
+    if (!options.inputFormats.includes(format)) {
+      return `content format ${format} is not one of ${options.inputFormats.join(', ')}`;
+    }
+  }
+
+  const checksDimensions =
+    options.minSourceWidth !== undefined ||
+    options.minSourceHeight !== undefined ||
+    options.maxSourceWidth !== undefined ||
+    options.maxSourceHeight !== undefined;
+  if (!checksDimensions) {
+    return null;
+  }
+
+  // Unreadable headers are left to the conversion to report as failures
+  const metadata = await sharp(inputPath, { density: options.density })
+    .metadata()
+    .catch(() => null);
+  if (!metadata?.width || !metadata.height) {
+    return null;
+  }
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const width = rotated ? metadata.height : metadata.width;
+  const height = rotated ? metadata.width : metadata.height;
+
+  if (options.minSourceWidth !== undefined && width < options.minSourceWidth) {
+    return `source width ${width}px is below ${options.minSourceWidth}px`;
+  }
+  if (options.minSourceHeight !== undefined && height < options.minSourceHeight) {
+    return `source height ${height}px is below ${options.minSourceHeight}px`;
+  }
+  if (options.maxSourceWidth !== undefined && width > options.maxSourceWidth) {
+    return `source width ${width}px is above ${options.maxSourceWidth}px`;
+  }
+  if (options.maxSourceHeight !== undefined && height > options.maxSourceHeight) {
+    return `source height ${height}px is above ${options.maxSourceHeight}px`;
+  }
+  return null;
+}
@@ -0,0 +1,396 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { ImageFormat, ImageProcessingOptions, ServeOptions } from './types';
+import { DEFAULT_QUALITY, getMimeType, normalizeFormat, validateProcessingOptions } from './config';
+import { getFileExtension, isImageExtension, processImageBuffer } from './imageProcessor';
+import { hashOptions } from './cache';
+import { isInsideDirectory } from './outputPaths';
+import { sniffImageFormat } from './sniff';
+
+/**
+ * Default port of the image server.
+ */
+export const DEFAULT_SERVE_PORT = 3000;
+
+/**
+ * Default host of the image server: loopback only, so nothing is exposed to the network unasked.
+ */
+export const DEFAULT_SERVE_HOST = '127.0.0.1';
+
+/**
+ * Default Cache-Control max-age of served images in seconds (one day).
+ */
+export const DEFAULT_SERVE_MAX_AGE = 86400;
+
+/**
+ * Default largest width or height a request may ask for, so one request cannot
+ * make libvips allocate an arbitrarily large canvas.
+ */
+export const DEFAULT_SERVE_MAX_DIMENSION = 8192;
+
+/**
+ * Default directory for rendered variants.
+ */
+export const DEFAULT_SERVE_CACHE_DIR = path.join(os.tmpdir(), 'img-tool-serve-cache');
+
+/**
+ * Formats offered in preference order when the client accepts them and no format is requested.
+ */
+const NEGOTIATED_FORMATS: readonly ImageFormat[] = ['avif', 'webp'];
+
+/**
+ * Query parameters that change the rendered image.
+ */
+const TRANSFORM_PARAMS = ['w', 'h', 'q', 'fmt', 'fit', 'pos'] as const;
+
+/**
+ * Error carrying the HTTP status to respond with.
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Checks whether an Accept header explicitly accepts a MIME type.
+ *
+ * Wildcards are ignored, since browsers send `*\/*` without supporting every format.
+ *
+ * @param accept - Accept header value
+ * @param mimeType - MIME type to look for
+ * @returns True if the type is listed with a non-zero q value
+ */
+function acceptsMimeType(accept: string | undefined, mimeType: string): boolean {
+  if (!accept) {
+    return false;
+  }
+  return accept.split(',').some((entry) => {
+    const [type, ...params] = entry.split(';').map((part) => part.trim().toLowerCase());
+    const q = params.find((param) => param.startsWith('q='));
+    return type === mimeType && (q === undefined || parseFloat(q.slice(2)) > 0);
+  });
+}
+
+/**
+ * Picks the output format for a request without an explicit `fmt`.
+ *
+ * @param accept - Accept header value
+ * @param sourceFormat - Format of the source image
+ * @returns First negotiated format the client accepts, or the source format
+ */
+export function negotiateFormat(
+  accept: string | undefined,
+  sourceFormat: ImageFormat
+): ImageFormat {
+  return (
+    NEGOTIATED_FORMATS.find((format) => acceptsMimeType(accept, getMimeType(format))) ??
+    sourceFormat
+  );
+}
+
+/**
+ * Parses a non-negative integer query parameter.
+ *
+ * @param query - Request query parameters
+ * @param name - Parameter name
+ * @param max - Largest value allowed
+ * @returns Parsed value, or undefined if absent
+ * @throws HttpError (400) if the value is not an integer or above max
+ */
+function parseIntegerParam(
+  query: URLSearchParams,
+  name: string,
+  max = Number.MAX_SAFE_INTEGER
+): number | undefined {
+  const value = query.get(name);
+  if (value === null) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new HttpError(400, `Invalid ${name}: expected an integer, got "${value}"`);
+  }
+  const parsed = parseInt(value, 10);
+  if (parsed > max) {
+    throw new HttpError(400, `Invalid ${name}: at most ${max} is allowed, got ${parsed}`);
+  }
+  return parsed;
+}
+
+/**
+ * Builds the processing options for a request from its query parameters.
+ *
+ * @param query - Request query parameters
+ * @param accept - Accept header value
+ * @param sourceFormat - Format of the source image
+ * @param maxDimension - Largest width or height allowed (default: 8192)
+ * @returns Validated image processing options
+ * @throws HttpError (400) if a parameter is invalid
+ */
+export function parseTransformQuery(
+  query: URLSearchParams,
+  accept: string | undefined,
+  sourceFormat: ImageFormat,
+  maxDimension = DEFAULT_SERVE_MAX_DIMENSION
+): ImageProcessingOptions {
+  try {
+    const fmt = query.get('fmt');
+    const options: ImageProcessingOptions = {
+      format: fmt !== null ? normalizeFormat(fmt) : negotiateFormat(accept, sourceFormat),
+      width: parseIntegerParam(query, 'w', maxDimension),
+      height: parseIntegerParam(query, 'h', maxDimension),
+      quality: parseIntegerParam(query, 'q') ?? DEFAULT_QUALITY,
+      fit: (query.get('fit') ?? undefined) as ImageProcessingOptions['fit'],
+      position: (query.get('pos') ?? undefined) as ImageProcessingOptions['position'],
+    };
+    validateProcessingOptions(options);
+    return options;
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+    throw new HttpError(400, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Resolves a request path to a source image inside the root directory.
+ *
+ * Paths escaping the root, directly or through symlinks, are refused.
+ *
+ * @param root - Real path of the root directory
+ * @param pathname - URL path of the request
+ * @returns Promise resolving to the real path of the source image
+ * @throws HttpError (400, 403 or 404) if the path is malformed, outside the root or not an image
+ */
+async function resolveSourcePath(root: string, pathname: string): Promise<string> {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    throw new HttpError(400, 'Malformed URL');
+  }
+  if (decoded.includes('\0')) {
+    throw new HttpError(400, 'Malformed URL');
+  }
+
+  const requestedPath = path.join(root, decoded);
+  if (!isInsideDirectory(root, requestedPath)) {
+    throw new HttpError(403, 'Forbidden');
+  }
+
+  const realPath = await fs.realpath(requestedPath).catch(() => null);
+  if (!realPath) {
+    throw new HttpError(404, 'Not found');
+  }
+  if (!isInsideDirectory(root, realPath)) {
+    throw new HttpError(403, 'Forbidden');
+  }
+
+  const stats = await fs.stat(realPath);
+  if (!stats.isFile() || !isImageExtension(getFileExtension(realPath))) {
+    throw new HttpError(404, 'Not found');
+  }
+  return realPath;
+}
+
+/**
+ * Gets the output format matching a source file's content, whatever its extension.
+ *
+ * @param filePath - Source file path
+ * @returns Promise resolving to the output format, or null if the source format cannot be written
+ */
+async function getSourceFormat(filePath: string): Promise<ImageFormat | null> {
+  const format = await sniffImageFormat(filePath);
+  try {
+    return format !== null ? normalizeFormat(format) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks whether an If-None-Match header matches an ETag.
+ *
+ * @param header - If-None-Match header value
+ * @param etag - Current ETag
+ * @returns True if the client's copy is current
+ */
+function matchesETag(header: string | undefined, etag: string): boolean {
+  if (!header) {
+    return false;
+  }
+  return header
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag);
+}
+
+/**
+ * Renders a source image into the cache directory.
+ *
+ * The variant is written to a temporary file and renamed, so concurrent
+ * readers never see a partial file.
+ *
+ * @param sourcePath - Source image path
+ * @param cachePath - Path of the cached variant
+ * @param options - Image processing options
+ */
+async function renderToCache(
+  sourcePath: string,
+  cachePath: string,
+  options: ImageProcessingOptions
+): Promise<void> {
+  const { data } = await processImageBuffer(await fs.readFile(sourcePath), options);
+  await fs.mkdir(path.dirname(cachePath), { recursive: true });
+  const tempPath = `${cachePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, cachePath);
+}
+
+/**
+ * Creates an HTTP server that serves images from a directory and transforms
+ * them on the fly.
+ *
+ * Supported query parameters: `w` and `h` (pixels), `q` (quality 1-100),
+ * `fmt` (output format), `fit` and `pos`. Without `fmt`, AVIF or WebP is
+ * chosen when the Accept header lists it. Rendered variants are cached on
+ * disk, keyed by the source path, size, modification time and options.
+ * Requests without transform parameters that keep the source format get the
+ * original file.
+ *
+ * @param options - Server options
+ * @returns HTTP server, not yet listening
+ */
+export function createImageServer(options: ServeOptions): http.Server {
+  // Resolved on the first request, so a missing root fails requests instead of the process
+  let root: Promise<string> | undefined;
+  const resolveRoot = (): Promise<string> => {
+    root ??= fs.realpath(path.resolve(options.root)).catch((error: unknown) => {
+      root = undefined;
+      throw error;
+    });
+    return root;
+  };
+  const cacheDir = path.resolve(options.cacheDir ?? DEFAULT_SERVE_CACHE_DIR);
+  const cacheControl = `public, max-age=${options.maxAge ?? DEFAULT_SERVE_MAX_AGE}`;
+  // Renders in progress, so concurrent requests for one variant render it once
+  const rendering = new Map<string, Promise<void>>();
+
+  const sendFile = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    filePath: string,
+    headers: { etag: string; contentType: string; vary: boolean }
+  ): Promise<void> => {
+    res.setHeader('ETag', headers.etag);
+    res.setHeader('Cache-Control', cacheControl);
+    if (headers.vary) {
+      res.setHeader('Vary', 'Accept');
+    }
+
+    if (matchesETag(req.headers['if-none-match'], headers.etag)) {
+      res.writeHead(304).end();
+      return;
+    }
+
+    const stats = await fs.stat(filePath);
+    res.writeHead(200, { 'Content-Type': headers.contentType, 'Content-Length': stats.size });
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+    createReadStream(filePath)
+      .on('error', () => res.destroy())
+      .pipe(res);
+  };
+
+  const handleRequest = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.setHeader('Allow', 'GET, HEAD');
+      throw new HttpError(405, 'Method not allowed');
+    }
+
+    // Concatenate rather than resolve, so a path starting with // isn't read as a host
+    const url = new URL(`http://localhost${req.url ?? '/'}`);
+    const rootPath = await resolveRoot();
+    const sourcePath = await resolveSourcePath(rootPath, url.pathname);
+    const sourceStats = await fs.stat(sourcePath);
+    const sourceFormat = await getSourceFormat(sourcePath);
+    const accept = req.headers.accept;
+    const negotiated = !url.searchParams.has('fmt');
+
+    const transformOptions = parseTransformQuery(
+      url.searchParams,
+      accept,
+      sourceFormat ?? 'jpeg',
+      options.maxDimension
+    );
+    const hasTransform = TRANSFORM_PARAMS.some((param) => url.searchParams.has(param));
+
+    // Nothing to change: serve the original bytes
+    if (!hasTransform && transformOptions.format === sourceFormat) {
+      await sendFile(req, res, sourcePath, {
+        etag: `"${sourceStats.size.toString(16)}-${Math.floor(sourceStats.mtimeMs).toString(16)}"`,
+        contentType: getMimeType(sourceFormat),
+        vary: negotiated,
+      });
+      return;
+    }
+
+    const key = createHash('sha256')
+      .update(path.relative(rootPath, sourcePath))
+      .update(`\0${sourceStats.size}\0${sourceStats.mtimeMs}\0`)
+      .update(hashOptions(transformOptions))
+      .digest('hex');
+    const cachePath = path.join(cacheDir, `${key}.${transformOptions.format}`);
+
+    const cached = await fs
+      .access(cachePath)
+      .then(() => true)
+      .catch(() => false);
+    if (!cached) {
+      let pending = rendering.get(cachePath);
+      if (!pending) {
+        pending = renderToCache(sourcePath, cachePath, transformOptions).finally(() =>
+          rendering.delete(cachePath)
+        );
+        rendering.set(cachePath, pending);
+      }
+      await pending;
+    }
+
+    await sendFile(req, res, cachePath, {
+      etag: `"${key.slice(0, 32)}"`,
+      contentType: getMimeType(transformOptions.format),
+      vary: negotiated,
+    });
+  };
+
+  return http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      const status = error instanceof HttpError ? error.status : 500;
+      const message =
+        error instanceof HttpError
+          ? error.message
+          : `Failed to render image: ${error instanceof Error ? error.message : String(error)}`;
+      res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end(req.method === 'HEAD' ? undefined : `${message}\n`);
+    });
+  });
+}
@@ -0,0 +1,102 @@
+/**
+ * Side length in pixels of the square windows SSIM is computed over.
+ */
+const SSIM_WINDOW_SIZE = 8;
+
+/**
+ * Distance in pixels between neighbouring SSIM windows.
+ */
+const SSIM_WINDOW_STEP = 4;
+
+/**
+ * SSIM stabilisation constants for 8-bit samples: (0.01 * 255)^2 and (0.03 * 255)^2.
+ */
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+/**
+ * Computes the SSIM of one window of two single-channel images.
+ *
+ * @param a - First image samples
+ * @param b - Second image samples
+ * @param width - Image width (row stride)
+ * @param x - Window left edge
+ * @param y - Window top edge
+ * @param windowWidth - Window width
+ * @param windowHeight - Window height
+ * @returns SSIM of the window
+ */
+function windowSsim(
+  a: Uint8Array,
+  b: Uint8Array,
+  width: number,
+  x: number,
+  y: number,
+  windowWidth: number,
+  windowHeight: number
+): number {
+  let sumA = 0;
+  let sumB = 0;
+  let sumAA = 0;
+  let sumBB = 0;
+  let sumAB = 0;
+
+  for (let row = y; row < y + windowHeight; row++) {
+    let offset = row * width + x;
+    for (let col = 0; col < windowWidth; col++, offset++) {
+      const valueA = a[offset];
+      const valueB = b[offset];
+      sumA += valueA;
+      sumB += valueB;
+      sumAA += valueA * valueA;
+      sumBB += valueB * valueB;
+      sumAB += valueA * valueB;
+    }
+  }
+
+  const count = windowWidth * windowHeight;
+  const meanA = sumA / count;
+  const meanB = sumB / count;
+  const varianceA = sumAA / count - meanA * meanA;
+  const varianceB = sumBB / count - meanB * meanB;
+  const covariance = sumAB / count - meanA * meanB;
+
+  return (
+    ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+    ((meanA * meanA + meanB * meanB + SSIM_C1) * (varianceA + varianceB + SSIM_C2))
+  );
+}
+
+/**
+ * Computes the mean structural similarity (SSIM) of two single-channel 8-bit images.
+ *
+ * SSIM is averaged over overlapping 8x8 windows; images smaller than a window
+ * are compared as a whole. 1 means identical; values above ~0.98 are usually
+ * visually indistinguishable.
+ *
+ * @param a - First image samples (row-major, one byte per pixel)
+ * @param b - Second image samples, same dimensions as `a`
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @returns Mean SSIM between -1 and 1
+ * @throws Error if the buffers don't match the dimensions
+ */
+export function computeSsim(a: Uint8Array, b: Uint8Array, width: number, height: number): number {
+  if (a.length !== width * height || b.length !== width * height) {
+    throw new Error(`Image buffers must both hold ${width}x${height} single-channel pixels`);
+  }
+
+  const windowWidth = Math.min(SSIM_WINDOW_SIZE, width);
+  const windowHeight = Math.min(SSIM_WINDOW_SIZE, height);
+
+  let total = 0;
+  let windows = 0;
+  for (let y = 0; y + windowHeight <= height; y += SSIM_WINDOW_STEP) {
+    for (let x = 0; x + windowWidth <= width; x += SSIM_WINDOW_STEP) {
+      total += windowSsim(a, b, width, x, y, windowWidth, windowHeight);
+      windows++;
+    }
+  }
+
+  return total / windows;
+}
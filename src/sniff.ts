@@ -0,0 +1,238 @@
+import sharp from 'sharp';
+import * as fs from 'fs/promises';
+import { getFileExtension, isImageExtension } from './imageProcessor';
+import { FORMAT_CAPABILITIES, listFormats } from './formats';
+
+/**
+ * Input formats recognized from file content, by their canonical names:
+ * the formats this libvips build can read.
+ */
+export const INPUT_CONTENT_FORMATS: readonly string[] = listFormats(
+  (capability) => capability.input
+);
+
+/**
+ * Number of leading bytes read to recognize a format by its magic bytes.
+ */
+const MAGIC_BYTES_LENGTH = 64;
+
+/**
+ * Canonical names of format aliases and extensions.
+ */
+const FORMAT_ALIASES: Readonly<Record<string, string>> = Object.fromEntries(
+  FORMAT_CAPABILITIES.flatMap((capability) =>
+    [...capability.aliases, ...capability.extensions].map((alias) => [alias, capability.name])
+  )
+);
+
+/**
+ * ISOBMFF brands of HEIF images (AVIF has its own `avif` and `avis` brands).
+ */
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+/**
+ * Sizes of the BMP info headers, which follow the 14-byte file header.
+ */
+const BMP_INFO_HEADER_SIZES = [12, 40, 52, 56, 64, 108, 124];
+
+/**
+ * What a file's content says about its format, compared to its extension.
+ */
+export interface ContentCheck {
+  /** Format recognized from the content, or null if it is not a recognized image */
+  format: string | null;
+  /** Whether the file has an extension naming another format than its content */
+  mismatch: boolean;
+}
+
+/**
+ * Gets the canonical name of a format or extension (`jpg` → `jpeg`, `tif` → `tiff`).
+ *
+ * @param format - Format name or extension, without dot
+ * @returns Canonical lowercase format name
+ */
+export function toContentFormat(format: string): string {
+  const normalized = format.toLowerCase();
+  return FORMAT_ALIASES[normalized] ?? normalized;
+}
+
+/**
+ * Recognizes an image format from the leading bytes of a file.
+ *
+ * @param header - Leading bytes of the file (at least the first 64 for HEIF/AVIF brands)
+ * @returns Canonical format name, or null if no known signature matches
+ */
+export function detectFormatFromBytes(header: Buffer): string | null {
+  const ascii = (start: number, end: number): string => header.toString('latin1', start, end);
+
+  if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') {
+    return 'png';
+  }
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+    return 'gif';
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return 'webp';
+  }
+  if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') {
+    return 'tiff';
+  }
+  if (
+    ascii(0, 2) === 'BM' &&
+    header.length >= 18 &&
+    BMP_INFO_HEADER_SIZES.includes(header.readUInt32LE(14))
+  ) {
+    return 'bmp';
+  }
+
+  // ICO: reserved word 0, type 1, at least one directory entry with a zero reserved byte
+  if (
+    header.length >= 22 &&
+    header.readUInt32BE(0) === 0x00000100 &&
+    header.readUInt16LE(4) > 0 &&
+    header[9] === 0
+  ) {
+    return 'ico';
+  }
+  if (header[0] === 0xff && header[1] === 0x0a) {
+    return 'jxl';
+  }
+  if (ascii(0, 4) === '\xffO\xffQ') {
+    return 'jp2';
+  }
+
+  // ISOBMFF: the ftyp box lists the major brand and the compatible brands
+  if (ascii(4, 8) === 'ftyp') {
+    const boxEnd = Math.min(header.readUInt32BE(0), header.length);
+    const brands = [ascii(8, 12)];
+    for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+      brands.push(ascii(offset, offset + 4));
+    }
+    if (brands.includes('avif') || brands.includes('avis')) {
+      return 'avif';
+    }
+    if (brands.some((brand) => HEIF_BRANDS.includes(brand))) {
+      return 'heif';
+    }
+  }
+
+  // JPEG XL and JPEG 2000 containers start with a 12-byte signature box
+  if (ascii(4, 12) === 'JXL \r\n\x87\n') {
+    return 'jxl';
+  }
+  if (ascii(4, 12) === 'jP  \r\n\x87\n') {
+    return 'jp2';
+  }
+  return null;
+}
+
+/**
+ * Recognizes the format of an image file from its content.
+ *
+ * Magic bytes are checked first; other content is left to sharp, which
+ * recognizes text formats such as `svg` when it has a loader for them.
+ *
+ * @param filePath - File path
+ * @returns Promise resolving to the canonical format name, or null if the file is not a readable image
+ */
+export async function sniffImageFormat(filePath: string): Promise<string | null> {
+  let header: Buffer;
+  try {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const { buffer, bytesRead } = await handle.read(
+        Buffer.alloc(MAGIC_BYTES_LENGTH),
+        0,
+        MAGIC_BYTES_LENGTH,
+        0
+      );
+      header = buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    return null;
+  }
+
+  const detected = detectFormatFromBytes(header);
+  if (detected !== null) {
+    return detected;
+  }
+
+  const metadata = await sharp(filePath)
+    .metadata()
+    .catch(() => null);
+  if (!metadata?.format) {
+    return null;
+  }
+  if (metadata.format === 'heif') {
+    return metadata.compression === 'av1' ? 'avif' : 'heif';
+  }
+  return toContentFormat(metadata.format);
+}
+
+/**
+ * Compares the format of a file's content with its extension.
+ *
+ * Files without an extension are never a mismatch.
+ *
+ * @param filePath - File path
+ * @returns Promise resolving to the recognized format and whether the extension disagrees
+ */
+export async function checkContent(filePath: string): Promise<ContentCheck> {
+  const format = await sniffImageFormat(filePath);
+  const extension = getFileExtension(filePath);
+  return {
+    format,
+    mismatch: format !== null && extension !== '' && toContentFormat(extension) !== format,
+  };
+}
+
+/**
+ * Checks whether a file should be considered a source image.
+ *
+ * @param filePath - File path
+ * @param anyExtension - Also consider files without an image extension whose content is an image
+ * @returns Promise resolving to true for image extensions, or image content with anyExtension
+ */
+export async function isImageCandidate(filePath: string, anyExtension = false): Promise<boolean> {
+  if (isImageExtension(getFileExtension(filePath))) {
+    return true;
+  }
+  if (!anyExtension) {
+    return false;
+  }
+  const format = await sniffImageFormat(filePath);
+  return format !== null && INPUT_CONTENT_FORMATS.includes(format);
+}
+
+/**
+ * Resolves an input format allowlist to canonical format names.
+ *
+ * @param value - Comma-separated string or list of format names (`jpg`, `png`, ...)
+ * @returns Canonical format names
+ * @throws Error if the value is not a list or names an unsupported input format
+ */
+export function resolveInputFormats(value: unknown): string[] {
+  const list = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(list) || !list.every((format) => typeof format === 'string')) {
+    throw new Error(`expected a list of input formats, got ${JSON.stringify(value)}`);
+  }
+
+  const formats = list.map((format: string) => format.trim()).filter((format) => format !== '');
+  if (formats.length === 0) {
+    throw new Error('expected at least one input format');
+  }
+  return formats.map((format) => {
+    const canonical = toContentFormat(format);
+    if (!INPUT_CONTENT_FORMATS.includes(canonical)) {
+      throw new Error(
+        `unsupported input format "${format}" (supported: ${INPUT_CONTENT_FORMATS.join(', ')})`
+      );
+    }
+    return canonical;
+  });
+}
@@ -0,0 +1,206 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type {
+  CliOptions,
+  ProcessResult,
+  SourceAction,
+  SourceControl,
+  SourceOutcome,
+} from './types';
+import { validateImageFile } from './inspect';
+
+/**
+ * Supported source actions.
+ */
+export const SOURCE_ACTIONS: readonly SourceAction[] = ['keep', 'delete', 'archive'];
+
+/**
+ * Checks whether a string is a supported source action.
+ *
+ * @param value - Value to check
+ * @returns True if value is a SourceAction
+ */
+export function isSourceAction(value: string): value is SourceAction {
+  return (SOURCE_ACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Checks that the in-place and source action options fit together.
+ *
+ * @param options - CLI options
+ * @throws Error naming the conflicting options
+ */
+export function validateSourceOptions(options: CliOptions): void {
+  const { sourceAction } = options;
+  if (sourceAction !== undefined && !isSourceAction(sourceAction)) {
+    throw new Error(`Source action must be one of: ${SOURCE_ACTIONS.join(', ')}`);
+  }
+  if (options.inPlace && sourceAction !== undefined && sourceAction !== 'keep') {
+    throw new Error('--in-place replaces the sources and cannot be combined with --source-action');
+  }
+  if (options.backup && !options.inPlace) {
+    throw new Error('--backup requires --in-place');
+  }
+  if (sourceAction === 'archive' && !options.archiveDir) {
+    throw new Error('--source-action archive requires --archive-dir');
+  }
+}
+
+/**
+ * Gets the path a replaced source is backed up to.
+ *
+ * @param inputPath - Source file path
+ * @returns Backup path (`<source>.bak`)
+ */
+export function getBackupPath(inputPath: string): string {
+  return `${inputPath}.bak`;
+}
+
+/**
+ * Copies a source to its backup path before it is converted in place.
+ *
+ * @param inputPath - Source file path
+ * @param overwrite - Whether an existing backup may be replaced
+ * @returns Promise resolving to the backup path
+ * @throws Error if the backup exists and overwrite is disabled
+ */
+export async function backupSource(inputPath: string, overwrite = false): Promise<string> {
+  const backupPath = getBackupPath(inputPath);
+  try {
+    await fs.copyFile(inputPath, backupPath, overwrite ? 0 : fs.constants.COPYFILE_EXCL);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw new Error(`Backup file already exists: ${backupPath}. Use --overwrite to replace it.`);
+    }
+    throw error;
+  }
+  return backupPath;
+}
+
+/**
+ * Lists the image files a conversion wrote (every variant or frame still, not manifests).
+ *
+ * @param result - Successful processing result
+ * @returns Written image paths
+ */
+export function listWrittenImages(result: ProcessResult): string[] {
+  return (
+    (result.variants ?? result.frameOutputs)?.map((output) => output.outputPath) ?? [
+      result.outputPath,
+    ]
+  );
+}
+
+/**
+ * Moves a file, copying it when the destination is on another device.
+ *
+ * @param from - Current file path
+ * @param to - New file path; missing directories are created
+ */
+async function moveFile(from: string, to: string): Promise<void> {
+  await fs.mkdir(path.dirname(to), { recursive: true });
+  try {
+    await fs.rename(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+    await fs.copyFile(from, to);
+    await fs.rm(from);
+  }
+}
+
+/**
+ * Applies the in-place or source action options once a source is converted.
+ *
+ * Every written image is decoded first; the source is only removed or moved
+ * when they all decode, and the run was not cancelled meanwhile. Sources that
+ * failed or were skipped are left alone, and their backup (if one was made) is
+ * removed again.
+ *
+ * @param result - Processing result of the source
+ * @param inputDir - Input directory, which archived sources keep their paths relative to
+ * @param options - CLI options
+ * @param backupPath - Backup made before an in-place conversion
+ * @param control - Abort signal and verification callback
+ * @returns The result with the source outcome, or failed if verification or the action failed
+ */
+export async function finishSource(
+  result: ProcessResult,
+  inputDir: string,
+  options: CliOptions,
+  backupPath?: string,
+  control: SourceControl = {}
+): Promise<ProcessResult> {
+  if (!result.success || result.skipped || result.filtered) {
+    if (backupPath !== undefined) {
+      await fs.rm(backupPath, { force: true });
+    }
+    return result;
+  }
+  const sourceAction = options.sourceAction ?? 'keep';
+  if (!options.inPlace && sourceAction === 'keep') {
+    return result;
+  }
+
+  const written = listWrittenImages(result);
+  for (const filePath of written) {
+    const validation = await validateImageFile(filePath);
+    if (!validation.valid) {
+      return {
+        ...result,
+        success: false,
+        error: `Output failed verification: ${filePath}: ${validation.error}`,
+      };
+    }
+  }
+
+  const inputPath = path.resolve(result.inputPath);
+  // An output with the source's own name has already replaced it
+  const replaced =
+    options.inPlace && written.some((filePath) => path.resolve(filePath) === inputPath);
+
+  // A cancelled run may remove its unfinished outputs, so the source must stay
+  if (control.signal?.aborted && !replaced) {
+    if (backupPath !== undefined) {
+      await fs.rm(backupPath, { force: true });
+    }
+    return {
+      ...result,
+      success: false,
+      error: 'Converted, but the source was kept because the run was cancelled',
+    };
+  }
+  control.onVerified?.();
+
+  const done = options.inPlace ? 'replaced' : sourceAction === 'delete' ? 'deleted' : 'archived';
+  try {
+    let source: SourceOutcome;
+    if (options.inPlace) {
+      if (!replaced) {
+        await fs.rm(inputPath);
+      }
+      source = { action: 'replaced', ...(backupPath !== undefined && { path: backupPath }) };
+    } else if (sourceAction === 'delete') {
+      await fs.rm(inputPath);
+      source = { action: 'deleted' };
+    } else {
+      const archivePath = path.join(
+        path.resolve(options.archiveDir ?? ''),
+        path.relative(inputDir, inputPath)
+      );
+      if (!options.overwrite && (await fs.stat(archivePath).catch(() => null))) {
+        throw new Error(`${archivePath} already exists. Use --overwrite to replace it.`);
+      }
+      await moveFile(inputPath, archivePath);
+      source = { action: 'archived', path: archivePath };
+    }
+    return { ...result, source };
+  } catch (error) {
+    return {
+      ...result,
+      success: false,
+      error: `Converted, but the source could not be ${done}: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
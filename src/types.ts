@@ -1,17 +1,170 @@
+import type { Readable } from 'stream';
+import type { FormatAlias, FormatName } from './formats';
+
+/**
+ * Image formats known for input or output, by name or alias.
+ * Which of them can be read or written depends on the libvips build (see formats.ts).
+ */
+export type ImageFormat = FormatName | FormatAlias;
+
+/**
+ * How the image is fitted into the target box when both width and height are given.
+ * - `cover`: fill the box exactly, cropping the overflow
+ * - `contain`: fit inside the box exactly, letterboxing with the background color
+ * - `fill`: stretch to the box, ignoring the aspect ratio
+ * - `inside`: preserve the aspect ratio, as large as possible within the box
+ * - `outside`: preserve the aspect ratio, as small as possible while covering the box
+ */
+export type FitMode = 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+
+/**
+ * Anchor used when cropping (`cover`) or letterboxing (`contain`).
+ * `entropy` and `attention` select the crop region automatically and only apply to `cover`.
+ */
+export type ImagePosition =
+  | 'center'
+  | 'north'
+  | 'northeast'
+  | 'east'
+  | 'southeast'
+  | 'south'
+  | 'southwest'
+  | 'west'
+  | 'northwest'
+  | 'entropy'
+  | 'attention';
+
+/**
+ * What metadata is carried over from the source image into the output.
+ * - `strip`: remove all metadata
+ * - `keep`: keep EXIF (including GPS), ICC, XMP and IPTC
+ * - `keep-icc-only`: keep only the ICC color profile
+ * - `keep-copyright`: keep only the EXIF Artist and Copyright tags
+ */
+export type MetadataPolicy = 'strip' | 'keep' | 'keep-icc-only' | 'keep-copyright';
+
+/**
+ * Chroma subsampling modes for JPEG and AVIF.
+ */
+export type ChromaSubsampling = '4:2:0' | '4:4:4';
+
+/**
+ * JPEG encoder options.
+ */
+export interface JpegEncoderOptions {
+  /** Use progressive (interlaced) scan */
+  progressive?: boolean;
+  /** Use mozjpeg defaults for smaller files */
+  mozjpeg?: boolean;
+  /** Chroma subsampling; 4:4:4 keeps full color resolution */
+  chromaSubsampling?: ChromaSubsampling;
+  /** Optimise Huffman coding tables */
+  optimiseCoding?: boolean;
+}
+
+/**
+ * PNG encoder options.
+ */
+export interface PngEncoderOptions {
+  /** Use progressive (interlaced) scan */
+  progressive?: boolean;
+  /** zlib compression level (0-9) */
+  compressionLevel?: number;
+  /** Quantise to a palette for smaller files */
+  palette?: boolean;
+  /** Maximum palette size (2-256), implies palette */
+  colors?: number;
+  /** Floyd-Steinberg dithering level (0-1) when quantising */
+  dither?: number;
+  /** CPU effort when quantising (1-10) */
+  effort?: number;
+}
+
+/**
+ * WebP encoder options.
+ */
+export interface WebpEncoderOptions {
+  /** Use lossless compression */
+  lossless?: boolean;
+  /** Use near-lossless compression */
+  nearLossless?: boolean;
+  /** Quality of the alpha layer (0-100) */
+  alphaQuality?: number;
+  /** Use high quality chroma subsampling */
+  smartSubsample?: boolean;
+  /** CPU effort (0-6) */
+  effort?: number;
+}
+
+/**
+ * AVIF encoder options.
+ */
+export interface AvifEncoderOptions {
+  /** Use lossless compression */
+  lossless?: boolean;
+  /** CPU effort (0-9) */
+  effort?: number;
+  /** Chroma subsampling */
+  chromaSubsampling?: ChromaSubsampling;
+}
+
+/**
+ * TIFF encoder options.
+ */
+export interface TiffEncoderOptions {
+  /** Compression scheme */
+  compression?: 'none' | 'jpeg' | 'deflate' | 'packbits' | 'lzw' | 'webp' | 'zstd';
+  /** Compression predictor */
+  predictor?: 'none' | 'horizontal' | 'float';
+}
+
 /**
- * Supported image formats for input and output.
+ * GIF encoder options.
  */
-export type ImageFormat =
-  | 'jpg'
-  | 'jpeg'
-  | 'png'
-  | 'webp'
-  | 'gif'
-  | 'tiff'
-  | 'bmp'
-  | 'avif'
-  | 'heic'
-  | 'heif';
+export interface GifEncoderOptions {
+  /** Maximum palette size (2-256) */
+  colors?: number;
+  /** Floyd-Steinberg dithering level (0-1) */
+  dither?: number;
+  /** CPU effort (1-10) */
+  effort?: number;
+}
+
+/**
+ * JPEG XL encoder options.
+ */
+export interface JxlEncoderOptions {
+  /** Use lossless compression */
+  lossless?: boolean;
+  /** CPU effort (3-9) */
+  effort?: number;
+  /** Target decode speed tier (0-4) */
+  decodingTier?: number;
+}
+
+/**
+ * JPEG 2000 encoder options.
+ */
+export interface Jp2EncoderOptions {
+  /** Use lossless compression */
+  lossless?: boolean;
+  /** Chroma subsampling */
+  chromaSubsampling?: ChromaSubsampling;
+}
+
+/**
+ * Format-specific encoder options, keyed by output format.
+ */
+export interface EncoderOptions {
+  jpeg?: JpegEncoderOptions;
+  png?: PngEncoderOptions;
+  webp?: WebpEncoderOptions;
+  avif?: AvifEncoderOptions;
+  tiff?: TiffEncoderOptions;
+  gif?: GifEncoderOptions;
+  jxl?: JxlEncoderOptions;
+  jp2?: Jp2EncoderOptions;
+}
 
 /**
  * Configuration options for image processing.
@@ -35,6 +188,212 @@ export interface ImageProcessingOptions {
   quality?: number;
   /** Whether to allow upscaling images */
   allowUpscale?: boolean;
+  /** Maximum output file size in bytes; quality is searched to fit */
+  maxSize?: number;
+  /** Lowest quality allowed when fitting maxSize (default: 30) */
+  minQuality?: number;
+  /** Step down the output dimensions when maxSize can't be met at minQuality */
+  shrinkToFit?: boolean;
+  /**
+   * Target SSIM (0-1); the lowest quality reaching it is used, between minQuality
+   * and quality (default: 100)
+   */
+  targetSsim?: number;
+  /** Format-specific encoder settings, applied when writing that format */
+  encoders?: EncoderOptions;
+  /** How to fit the image when both width and height are given (default: inside) */
+  fit?: FitMode;
+  /** Crop or letterbox anchor, including smart cropping strategies (default: center) */
+  position?: ImagePosition;
+  /** Background color for letterboxed `contain` output (e.g. "#ffffff", "transparent") */
+  background?: string;
+  /** Metadata carried over from the source (default: strip) */
+  metadata?: MetadataPolicy;
+  /** Copyright notice written to the output EXIF, overriding the source */
+  copyright?: string;
+  /** Artist/author written to the output EXIF, overriding the source */
+  artist?: string;
+  /** Responsive variants to emit from the same source (overrides format/width) */
+  variants?: VariantSpec;
+  /** Optional manifest written next to the variants of each source */
+  variantManifest?: VariantManifestFormat;
+  /** Convert only this frame (0-based) of an animated source, as a still image */
+  frame?: number;
+  /** Resolution in DPI that vector sources such as SVG are rasterized at (default: 72) */
+  density?: number;
+  /** Write every frame of the source as a numbered still (`name-000.png`, ...) */
+  dumpFrames?: boolean;
+  /** Image or text composited onto the output after resizing */
+  watermark?: WatermarkOptions;
+  /** Transform operations applied in order after orientation and before resizing */
+  pipeline?: PipelineOperation[];
+  /** Discard the output when it is larger than the source (single outputs only, not variants or frame stills) */
+  keepIfLarger?: boolean;
+}
+
+/**
+ * One operation of a transform pipeline. Colors are hex codes, names or `transparent`.
+ */
+export type PipelineOperation =
+  /** Rotate by an angle in degrees, filling uncovered corners with the background */
+  | { op: 'rotate'; angle: number; background?: string }
+  /** Mirror vertically (flip) or horizontally (flop) */
+  | { op: 'flip' | 'flop' }
+  /** Cut out a region (`extract` is an alias) */
+  | { op: 'crop' | 'extract'; left: number; top: number; width: number; height: number }
+  /** Resize, with the same fit and position modes as the resize options */
+  | {
+      op: 'resize';
+      width?: number;
+      height?: number;
+      fit?: FitMode;
+      position?: ImagePosition;
+      background?: string;
+      allowUpscale?: boolean;
+    }
+  /** Gaussian blur; a fast mild blur without sigma */
+  | { op: 'blur'; sigma?: number }
+  /** Sharpen; a fast mild sharpen without sigma */
+  | { op: 'sharpen'; sigma?: number }
+  /** Convert to grayscale */
+  | { op: 'grayscale' }
+  /** Adjust brightness and saturation (multipliers), hue (degrees) and lightness (added) */
+  | { op: 'modulate'; brightness?: number; saturation?: number; hue?: number; lightness?: number }
+  /** Apply a gamma correction between 1 and 3 (default: 2.2) */
+  | { op: 'gamma'; gamma?: number }
+  /** Stretch the luminance to cover the full range */
+  | { op: 'normalize' }
+  /** Remove borders of the background color (default: the top-left pixel) */
+  | { op: 'trim'; threshold?: number; background?: string }
+  /** Tint with a color, keeping the luminance */
+  | { op: 'tint'; color: string }
+  /** Add borders of the background color (`pad` is an alias) */
+  | {
+      op: 'extend' | 'pad';
+      top?: number;
+      bottom?: number;
+      left?: number;
+      right?: number;
+      background?: string;
+    };
+
+/**
+ * Where a watermark is placed on the output.
+ */
+export type WatermarkAnchor =
+  | 'top-left'
+  | 'top'
+  | 'top-right'
+  | 'left'
+  | 'center'
+  | 'right'
+  | 'bottom-left'
+  | 'bottom'
+  | 'bottom-right';
+
+/**
+ * Watermark composited onto every output; exactly one of `image` and `text` is set.
+ */
+export interface WatermarkOptions {
+  /** Path of the image to composite, e.g. a PNG logo with transparency */
+  image?: string;
+  /** Text to render instead of an image */
+  text?: string;
+  /** Font for text, as a Pango font description such as "sans bold" (default: sans) */
+  font?: string;
+  /** Text color as a hex code or color name (default: #ffffff) */
+  color?: string;
+  /** Where the watermark is placed (default: bottom-right) */
+  anchor?: WatermarkAnchor;
+  /** Distance from the output edges in pixels, or between tiles when tiling (default: 16) */
+  margin?: number;
+  /** Opacity from 0 to 1 (default: 1) */
+  opacity?: number;
+  /** Watermark width as a fraction of the output width (default: 0.2) */
+  scale?: number;
+  /** Repeat the watermark across the whole output instead of anchoring it */
+  tile?: boolean;
+}
+
+/**
+ * Specification of the responsive variants generated for each source image.
+ */
+export interface VariantSpec {
+  /** Target widths in pixels; omitted to keep the processed width */
+  widths?: number[];
+  /** Target formats; omitted to use the main output format */
+  formats?: ImageFormat[];
+}
+
+/**
+ * Format of the per-source variant manifest.
+ */
+export type VariantManifestFormat = 'html' | 'json';
+
+/**
+ * Result of writing a single responsive variant.
+ */
+export interface VariantResult {
+  /** Output file path of the variant */
+  outputPath: string;
+  /** Output format of the variant */
+  format: ImageFormat;
+  /** Output width in pixels */
+  width: number;
+  /** Output height in pixels */
+  height: number;
+  /** Output file size in bytes */
+  size: number;
+  /** Quality the variant was encoded at, for formats that support quality */
+  quality?: number;
+  /** SSIM against the resized source, when targeting perceptual quality */
+  ssim?: number;
+  /** Whether the SSIM reached targetSsim, when one was set */
+  targetMet?: boolean;
+}
+
+/**
+ * A file a dry run found the conversion of a source would write.
+ */
+export interface PlannedFile {
+  /** Output file path */
+  outputPath: string;
+  /** Planned output width in pixels (not set for variant manifests) */
+  width?: number;
+  /** Planned output height in pixels (not set for variant manifests) */
+  height?: number;
+  /** Whether the file already exists */
+  exists?: boolean;
+}
+
+/**
+ * What a dry run found the conversion of one source would do.
+ */
+export interface ConversionPlan {
+  /** `create` when no output exists yet, `overwrite` when existing outputs would be replaced */
+  action: 'create' | 'overwrite';
+  /** Output format (of the first output when generating variants) */
+  format: ImageFormat;
+  /** Every file the conversion would write */
+  files: PlannedFile[];
+  /** Output path from the template, when a numbered suffix avoids a collision */
+  renamedFrom?: string;
+}
+
+/**
+ * Result of writing a single frame of an animated source as a still image.
+ */
+export interface FrameResult {
+  /** Frame index (0-based) */
+  index: number;
+  /** Output file path of the still */
+  outputPath: string;
+  /** Output width in pixels */
+  width: number;
+  /** Output height in pixels */
+  height: number;
+  /** Output file size in bytes */
+  size: number;
 }
 
 /**
@@ -47,8 +406,50 @@ export interface CliOptions extends ImageProcessingOptions {
   output: string;
   /** Whether to process subdirectories recursively */
   recursive?: boolean;
+  /** Also consider files without an image extension (or with none) whose content is an image */
+  anyExtension?: boolean;
+  /** Only process sources whose content is one of these formats (canonical names, e.g. `jpeg`) */
+  inputFormats?: string[];
+  /** Glob patterns a file must match one of to be processed (relative to the input directory) */
+  include?: string[];
+  /** Glob patterns of files and directories to leave out (relative to the input directory) */
+  exclude?: string[];
+  /** Only process sources larger than this many bytes */
+  onlyLargerThan?: number;
+  /** Only process sources smaller than this many bytes */
+  onlySmallerThan?: number;
+  /** Only process sources at least this wide (after EXIF orientation) */
+  minSourceWidth?: number;
+  /** Only process sources at least this high (after EXIF orientation) */
+  minSourceHeight?: number;
+  /** Only process sources at most this wide (after EXIF orientation) */
+  maxSourceWidth?: number;
+  /** Only process sources at most this high (after EXIF orientation) */
+  maxSourceHeight?: number;
+  /** Output path template relative to the output directory (default: `{dir}/{name}.{ext}`) */
+  outputTemplate?: string;
+  /** Write every output directly into the output directory (`{dir}` is empty) */
+  flatten?: boolean;
+  /** What to do when two sources map to the same output path (default: fail) */
+  onCollision?: CollisionPolicy;
+  /** Maximum number of images processed in parallel (defaults to CPU count) */
+  concurrency?: number;
+  /** Skip sources unchanged since the previous run, using a manifest in the output directory */
+  incremental?: boolean;
+  /** Keep watching the input directory and convert new or modified images */
+  watch?: boolean;
+  /** In watch mode, delete the outputs of removed sources */
+  watchDelete?: boolean;
   /** Whether to overwrite existing files */
   overwrite?: boolean;
+  /** Write the outputs next to the sources and remove each source once it is converted (`output` is ignored) */
+  inPlace?: boolean;
+  /** In place, keep each replaced source as `<source>.bak` */
+  backup?: boolean;
+  /** What happens to each source after a verified conversion (default: keep) */
+  sourceAction?: SourceAction;
+  /** Directory sources are moved to by the `archive` source action, keeping their relative paths */
+  archiveDir?: string;
   /** Dry run mode - show what would be processed without writing files */
   dryRun?: boolean;
   /** Verbose logging */
@@ -57,8 +458,37 @@ export interface CliOptions extends ImageProcessingOptions {
   silent?: boolean;
   /** Path to configuration file (optional) */
   config?: string;
+  /** Path of a machine-readable report of the run */
+  report?: string;
+  /** Format of the report (default: json) */
+  reportFormat?: ReportFormat;
+  /** Format the dry-run plan is printed in (default: text) */
+  planFormat?: PlanFormat;
+  /** Named pipelines from the config file, usable as pipeline steps by name */
+  pipelines?: Record<string, PipelineStep[]>;
+  /** Named option presets from the config file, for `--preset` and rules */
+  presets?: Record<string, Partial<ImageProcessingOptions>>;
+  /** Per-file option overrides, applied in order to the files they match */
+  rules?: OptionRule[];
 }
 
+/**
+ * Option overrides for the files matching a set of glob patterns.
+ */
+export interface OptionRule {
+  /** Glob patterns relative to the input directory, as for `include` */
+  match: string[];
+  /** Name of the preset the rule applies, before its own options */
+  preset?: string;
+  /** Processing options set for matching files (including the preset's) */
+  options: Partial<ImageProcessingOptions>;
+}
+
+/**
+ * A pipeline step in a config file: an operation, or the name of a pipeline to run in its place.
+ */
+export type PipelineStep = PipelineOperation | string;
+
 /**
  * Result of processing a single image file.
  */
@@ -69,12 +499,110 @@ export interface ProcessResult {
   outputPath: string;
   /** Whether processing was successful */
   success: boolean;
+  /** Whether the file was skipped because its outputs are up to date (incremental mode) */
+  skipped?: boolean;
+  /** Whether the file was left out by a size or dimension selection option */
+  filtered?: boolean;
+  /** Why the file was filtered out */
+  filterReason?: string;
+  /** Why the file was skipped, when not because it is unchanged */
+  skipReason?: string;
   /** Error message if processing failed */
   error?: string;
   /** Original file size in bytes */
   originalSize?: number;
-  /** New file size in bytes */
+  /** New file size in bytes (sum of all variants when variants are generated) */
   newSize?: number;
+  /** Source width in pixels (after EXIF orientation) */
+  originalWidth?: number;
+  /** Source height in pixels (after EXIF orientation) */
+  originalHeight?: number;
+  /** Output width in pixels (first variant when variants are generated) */
+  width?: number;
+  /** Output height in pixels (first variant when variants are generated) */
+  height?: number;
+  /** Time spent processing the file in milliseconds */
+  durationMs?: number;
+  /** Quality the output was encoded at, for formats that support quality */
+  quality?: number;
+  /** SSIM against the resized source, when targeting perceptual quality */
+  ssim?: number;
+  /** Whether the SSIM reached targetSsim, when one was set */
+  targetMet?: boolean;
+  /** Every variant written for this source, when variants are generated */
+  variants?: VariantResult[];
+  /** Path of the generated variant manifest, if any */
+  manifestPath?: string;
+  /** Number of frames, when the output is animated */
+  frames?: number;
+  /** Every still written for this source, when dumping frames */
+  frameOutputs?: FrameResult[];
+  /** What the conversion would do, in a dry run */
+  plan?: ConversionPlan;
+  /** What happened to the source after the conversion, if it was moved or removed */
+  source?: SourceOutcome;
+  /** Format recognized from the source's content */
+  contentFormat?: string;
+  /** Whether the source's extension names another format than its content */
+  extensionMismatch?: boolean;
+}
+
+/**
+ * What happened to a source after its conversion.
+ */
+export interface SourceOutcome {
+  /** `replaced` in place, or the source action applied */
+  action: 'replaced' | 'deleted' | 'archived';
+  /** Backup of a replaced source, or where an archived source was moved */
+  path?: string;
+}
+
+/**
+ * Properties of an image encoded in memory by the buffer and stream API.
+ */
+export interface EncodedImageInfo {
+  /** Output format */
+  format: ImageFormat;
+  /** Output width in pixels */
+  width: number;
+  /** Output height in pixels */
+  height: number;
+  /** Output size in bytes */
+  size: number;
+  /** Source size in bytes */
+  originalSize: number;
+  /** Source width in pixels (after EXIF orientation) */
+  originalWidth: number;
+  /** Source height in pixels (after EXIF orientation) */
+  originalHeight: number;
+  /** Quality the output was encoded at, for formats that support quality */
+  quality?: number;
+  /** SSIM against the resized source, when targeting perceptual quality */
+  ssim?: number;
+  /** Whether the SSIM reached targetSsim, when one was set */
+  targetMet?: boolean;
+  /** Number of frames, when the output is animated */
+  frames?: number;
+}
+
+/**
+ * Result of processing an image held in memory.
+ */
+export interface BufferProcessResult {
+  /** Encoded output image */
+  data: Buffer;
+  /** Output properties */
+  info: EncodedImageInfo;
+}
+
+/**
+ * Result of processing an image as a stream.
+ */
+export interface StreamProcessResult {
+  /** Readable stream of the encoded output image */
+  stream: Readable;
+  /** Output properties */
+  info: EncodedImageInfo;
 }
 
 /**
@@ -85,8 +613,208 @@ export interface ProcessingSummary {
   total: number;
   /** Number of successful conversions */
   successful: number;
+  /** Number of files skipped because their outputs are up to date */
+  skipped: number;
+  /** Number of files left out by size or dimension selection options */
+  filtered: number;
   /** Number of failed conversions */
   failed: number;
   /** Detailed results for each file */
   results: ProcessResult[];
+  /** Wall-clock duration of the whole operation in milliseconds */
+  durationMs?: number;
+  /** Whether this is a dry-run plan; nothing was written */
+  dryRun?: boolean;
+  /** Number of files left out because the run was cancelled (not in `results`) */
+  cancelled?: number;
+}
+
+/**
+ * Running totals of a batch conversion.
+ */
+export interface ProgressStats {
+  /** Number of files in the batch */
+  total: number;
+  /** Number of files finished, whatever their outcome */
+  completed: number;
+  /** Number of files converted */
+  successful: number;
+  /** Number of files skipped because their outputs are up to date */
+  skipped: number;
+  /** Number of files left out by selection options */
+  filtered: number;
+  /** Number of files that failed */
+  failed: number;
+  /** Number of files being converted right now */
+  inFlight: number;
+  /** Source bytes of the converted files */
+  bytesIn: number;
+  /** Output bytes of the converted files */
+  bytesOut: number;
+  /** Time since the batch started in milliseconds */
+  elapsedMs: number;
+  /** Estimated time until the batch finishes in milliseconds, once a file has finished */
+  etaMs?: number;
+}
+
+/**
+ * Progress event emitted while converting a batch.
+ */
+export interface ProgressEvent {
+  /**
+   * `start` once the files are found, then `file-start` and `file-done` or `file-failed` per file,
+   * with `file-verified` in between when the outputs passed verification and the source is about
+   * to be replaced, deleted or archived
+   */
+  type: 'start' | 'file-start' | 'file-verified' | 'file-done' | 'file-failed';
+  /** Source file path, for file events */
+  inputPath?: string;
+  /** Output file path (base path when generating variants), for file events */
+  outputPath?: string;
+  /** Conversion result, for `file-done` and `file-failed` */
+  result?: ProcessResult;
+  /** Totals after the event */
+  stats: ProgressStats;
+}
+
+/**
+ * Progress reporting and cancellation for a batch conversion.
+ */
+export interface ConvertControl {
+  /** Called for every progress event */
+  onProgress?: (event: ProgressEvent) => void;
+  /** Aborting stops the batch: files in flight finish, files not yet started are left out */
+  signal?: AbortSignal;
+}
+
+/**
+ * Cancellation of the in-place or source action of one conversion.
+ */
+export interface SourceControl {
+  /** Once aborted, sources still in place are kept */
+  signal?: AbortSignal;
+  /** Called when the outputs passed verification, right before the source is touched */
+  onVerified?: () => void;
+}
+
+/**
+ * How output path collisions between sources are handled: fail the run
+ * before writing anything, or give later sources a numbered suffix.
+ */
+export type CollisionPolicy = 'fail' | 'rename';
+
+/**
+ * What happens to a source after a verified conversion: nothing, removal,
+ * or a move into the archive directory.
+ */
+export type SourceAction = 'keep' | 'delete' | 'archive';
+
+/**
+ * Output formats for machine-readable processing reports.
+ */
+export type ReportFormat = 'json' | 'csv' | 'junit';
+
+/**
+ * Output formats for dry-run plans.
+ */
+export type PlanFormat = 'text' | 'json';
+
+/**
+ * Event emitted by watch mode for each handled file change.
+ */
+export interface WatchEvent {
+  /** `converted` for new or modified sources, `removed` for deleted sources */
+  type: 'converted' | 'removed';
+  /** Source file path */
+  inputPath: string;
+  /** Conversion result, for `converted` events */
+  result?: ProcessResult;
+  /** Outputs deleted for the source, for `removed` events */
+  deletedOutputs?: string[];
+}
+
+/**
+ * Options for the image transformation server.
+ */
+export interface ServeOptions {
+  /** Directory images are served from */
+  root: string;
+  /** Directory rendered variants are cached in */
+  cacheDir?: string;
+  /** Cache-Control max-age of responses in seconds */
+  maxAge?: number;
+  /** Largest width or height a request may ask for (default: 8192) */
+  maxDimension?: number;
+}
+
+/**
+ * Properties of an image file reported by the info command.
+ */
+export interface ImageInfo {
+  /** Image file path */
+  path: string;
+  /** File size in bytes */
+  size: number;
+  /** Format detected from the content */
+  format: string;
+  /** Display width in pixels, after EXIF orientation */
+  width: number;
+  /** Display height in pixels, after EXIF orientation (of one frame for animations) */
+  height: number;
+  /** Color space, e.g. `srgb`, `cmyk` or `b-w` */
+  colorSpace?: string;
+  /** Number of bands, including alpha */
+  channels?: number;
+  /** Whether the image has an alpha channel */
+  hasAlpha: boolean;
+  /** Pixel depth, e.g. `uchar` for 8 bits per sample */
+  bitDepth?: string;
+  /** Resolution in pixels per inch */
+  density?: number;
+  /** EXIF orientation (1-8) */
+  orientation?: number;
+  /** Descriptive EXIF tags (Make, Model, DateTime, Artist, Copyright, ...) */
+  exif?: Record<string, string>;
+  /** Embedded ICC profile */
+  icc?: { size: number; description?: string };
+  /** Number of frames (1 for still images) */
+  frames: number;
+  /** Delay of each frame in milliseconds, for animations */
+  frameDelays?: number[];
+  /** Number of animation loops (0 = forever), for animations */
+  loop?: number;
+}
+
+/**
+ * Result of comparing two images pixel by pixel.
+ */
+export interface ImageComparison {
+  /** Compared width in pixels */
+  width: number;
+  /** Compared height in pixels */
+  height: number;
+  /** Number of pixels with a channel difference above the threshold */
+  differentPixels: number;
+  /** Percentage of differing pixels (0-100) */
+  differentPercent: number;
+  /** Mean absolute difference per channel sample (0-255) */
+  meanAbsoluteError: number;
+  /** Peak signal-to-noise ratio in dB (Infinity for identical images) */
+  psnr: number;
+  /** Structural similarity of the luma channels (1 = identical) */
+  ssim: number;
+  /** Path of the written diff image, if requested */
+  diffPath?: string;
+}
+
+/**
+ * Result of checking that an image file decodes.
+ */
+export interface ImageValidationResult {
+  /** Image file path */
+  path: string;
+  /** Whether the file decoded without errors */
+  valid: boolean;
+  /** Decoder error, for invalid files */
+  error?: string;
 }
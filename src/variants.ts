@@ -0,0 +1,268 @@
+import * as path from 'path';
+import type { ImageFormat, VariantResult, VariantSpec } from './types';
+import { getMimeType, normalizeFormat } from './config';
+
+/**
+ * A single planned variant: an output format and an optional target width.
+ */
+export interface PlannedVariant {
+  /** Target output format */
+  format: ImageFormat;
+  /** Target width in pixels, if the variant is resized by width */
+  width?: number;
+}
+
+/**
+ * Validates and normalizes a list of variant widths.
+ *
+ * @param widths - Widths to validate
+ * @returns Sorted, de-duplicated widths
+ * @throws Error if a width is not a positive integer
+ */
+function normalizeWidths(widths: readonly number[]): number[] {
+  for (const width of widths) {
+    if (!Number.isInteger(width) || width < 1) {
+      throw new Error(`Invalid variant width: ${width}`);
+    }
+  }
+  return [...new Set(widths)].sort((a, b) => a - b);
+}
+
+/**
+ * Parses a variants spec string such as `320,640,1280:avif,webp,jpeg`.
+ *
+ * The widths and formats parts are both optional: `320,640` lists widths only
+ * and `:avif,webp` (or `avif,webp`) lists formats only.
+ *
+ * @param spec - Variants spec string
+ * @returns Parsed VariantSpec
+ * @throws Error if the spec contains invalid widths or unsupported formats
+ */
+export function parseVariantSpec(spec: string): VariantSpec {
+  const parts = spec.split(':');
+  if (parts.length > 2) {
+    throw new Error(`Invalid variants spec: ${spec}`);
+  }
+
+  const splitList = (value: string): string[] =>
+    value
+      .split(',')
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+
+  let widthItems: string[];
+  let formatItems: string[];
+  if (parts.length === 2) {
+    widthItems = splitList(parts[0]);
+    formatItems = splitList(parts[1]);
+  } else {
+    // A single list is either all widths or all formats
+    const items = splitList(parts[0]);
+    const isWidthList = items.every((item) => /^\d+$/.test(item));
+    widthItems = isWidthList ? items : [];
+    formatItems = isWidthList ? [] : items;
+  }
+
+  return resolveVariantSpec({
+    widths: widthItems.map((item) => {
+      if (!/^\d+$/.test(item)) {
+        throw new Error(`Invalid variant width: ${item}`);
+      }
+      return parseInt(item, 10);
+    }),
+    formats: formatItems as ImageFormat[],
+  });
+}
+
+/**
+ * Normalizes a variants spec from the CLI or a config file.
+ *
+ * @param spec - Spec string or object
+ * @returns Normalized VariantSpec
+ * @throws Error if the spec is empty or contains invalid values
+ */
+export function resolveVariantSpec(spec: string | VariantSpec): VariantSpec {
+  if (typeof spec === 'string') {
+    return parseVariantSpec(spec);
+  }
+
+  const widths = spec.widths && spec.widths.length > 0 ? normalizeWidths(spec.widths) : undefined;
+  const formats =
+    spec.formats && spec.formats.length > 0
+      ? [...new Set(spec.formats.map((format) => normalizeFormat(format)))]
+      : undefined;
+
+  if (!widths && !formats) {
+    throw new Error('Variants spec must list at least one width or format');
+  }
+
+  return { widths, formats };
+}
+
+/**
+ * Expands a variants spec into the concrete variants for one source image.
+ *
+ * Widths larger than the source are dropped unless upscaling is allowed; if
+ * no width remains, the source width is used instead.
+ *
+ * @param spec - Variants spec
+ * @param defaultFormat - Format used when the spec lists no formats
+ * @param sourceWidth - Width of the source image in pixels
+ * @param allowUpscale - Whether widths beyond the source width are allowed
+ * @returns Planned variants, grouped by format
+ */
+export function expandVariants(
+  spec: VariantSpec,
+  defaultFormat: ImageFormat,
+  sourceWidth: number,
+  allowUpscale = false
+): PlannedVariant[] {
+  const formats = spec.formats ?? [normalizeFormat(defaultFormat)];
+
+  let widths: (number | undefined)[] = [undefined];
+  if (spec.widths) {
+    const usable = allowUpscale ? spec.widths : spec.widths.filter((w) => w <= sourceWidth);
+    widths = usable.length > 0 ? usable : [sourceWidth];
+  }
+
+  return formats.flatMap((format) => widths.map((width) => ({ format, width })));
+}
+
+/**
+ * Builds the output path of a variant, e.g. `hero-640w.webp`.
+ *
+ * @param basePath - Output path without extension
+ * @param format - Variant format
+ * @param width - Variant width, omitted for format-only variants
+ * @returns Variant output path
+ */
+export function getVariantOutputPath(
+  basePath: string,
+  format: ImageFormat,
+  width?: number
+): string {
+  const suffix = width !== undefined ? `-${width}w` : '';
+  return `${basePath}${suffix}.${format}`;
+}
+
+/**
+ * Builds the output path of a still written when dumping frames, e.g. `anim-003.png`.
+ *
+ * @param basePath - Output path without extension
+ * @param format - Output format
+ * @param index - Frame index (0-based)
+ * @returns Frame output path
+ */
+export function getFrameOutputPath(basePath: string, format: ImageFormat, index: number): string {
+  return `${basePath}-${String(index).padStart(3, '0')}.${format}`;
+}
+
+/**
+ * Lists every output path a variants spec could produce for a base path.
+ *
+ * @param basePath - Output path without extension
+ * @param spec - Variants spec
+ * @param defaultFormat - Format used when the spec lists no formats
+ * @returns Candidate variant output paths
+ */
+export function listVariantOutputPaths(
+  basePath: string,
+  spec: VariantSpec,
+  defaultFormat: ImageFormat
+): string[] {
+  const formats = spec.formats ?? [normalizeFormat(defaultFormat)];
+  const widths: (number | undefined)[] = spec.widths ?? [undefined];
+  return formats.flatMap((format) =>
+    widths.map((width) => getVariantOutputPath(basePath, format, width))
+  );
+}
+
+/**
+ * Builds a srcset attribute value from variants of the same format.
+ *
+ * @param variants - Variants to include
+ * @param baseDir - Directory the URLs are made relative to
+ * @returns srcset string
+ */
+function buildSrcset(variants: readonly VariantResult[], baseDir: string): string {
+  return variants
+    .map((variant) => {
+      const url = path.relative(baseDir, variant.outputPath).split(path.sep).join('/');
+      return `${url} ${variant.width}w`;
+    })
+    .join(', ');
+}
+
+/**
+ * Builds an HTML `<picture>` snippet for a set of variants.
+ *
+ * Formats are emitted as `<source>` elements in spec order; the last format is
+ * used for the fallback `<img>`, which should therefore be the most widely
+ * supported one (e.g. jpeg).
+ *
+ * @param variants - Variants written for one source
+ * @param baseDir - Directory the URLs are made relative to
+ * @param alt - Alternative text for the image
+ * @returns HTML snippet
+ */
+export function buildPictureHtml(
+  variants: readonly VariantResult[],
+  baseDir: string,
+  alt = ''
+): string {
+  const byFormat = new Map<ImageFormat, VariantResult[]>();
+  for (const variant of variants) {
+    const group = byFormat.get(variant.format) ?? [];
+    group.push(variant);
+    byFormat.set(variant.format, group);
+  }
+
+  const groups = [...byFormat.values()];
+  const fallbackGroup = groups[groups.length - 1];
+  const fallback = fallbackGroup[fallbackGroup.length - 1];
+
+  const escapeAttr = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+  const lines = ['<picture>'];
+  for (const group of groups.slice(0, -1)) {
+    lines.push(
+      `  <source type="${getMimeType(group[0].format)}" srcset="${escapeAttr(buildSrcset(group, baseDir))}">`
+    );
+  }
+  const fallbackUrl = path.relative(baseDir, fallback.outputPath).split(path.sep).join('/');
+  lines.push(
+    `  <img src="${escapeAttr(fallbackUrl)}" srcset="${escapeAttr(buildSrcset(fallbackGroup, baseDir))}" ` +
+      `width="${fallback.width}" height="${fallback.height}" alt="${escapeAttr(alt)}">`
+  );
+  lines.push('</picture>');
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Builds a JSON manifest describing the variants written for one source.
+ *
+ * @param sourcePath - Path of the source image
+ * @param variants - Variants written for the source
+ * @param baseDir - Directory the variant paths are made relative to
+ * @returns JSON manifest string
+ */
+export function buildVariantManifest(
+  sourcePath: string,
+  variants: readonly VariantResult[],
+  baseDir: string
+): string {
+  const manifest = {
+    source: path.basename(sourcePath),
+    variants: variants.map((variant) => ({
+      path: path.relative(baseDir, variant.outputPath).split(path.sep).join('/'),
+      format: variant.format,
+      type: getMimeType(variant.format),
+      width: variant.width,
+      height: variant.height,
+      size: variant.size,
+    })),
+  };
+  return JSON.stringify(manifest, null, 2) + '\n';
+}
@@ -0,0 +1,222 @@
+import { watch as watchFs } from 'fs';
+import type { FSWatcher } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { CliOptions, WatchEvent } from './types';
+import { convertSingleImage } from './index';
+import { getFileExtension, isImageExtension } from './imageProcessor';
+import { isInsideDirectory, listOutputPaths, resolveOutputPath } from './outputPaths';
+import { createPathFilter } from './selection';
+import { resolveFileOptions } from './rules';
+import { isImageCandidate } from './sniff';
+
+/**
+ * Default delay in milliseconds to wait for a burst of writes to settle.
+ */
+export const DEFAULT_WATCH_DEBOUNCE_MS = 300;
+
+/**
+ * Handle returned by watchDirectory to stop watching.
+ */
+export interface WatchHandle {
+  /** Stops all watchers and cancels pending conversions */
+  close: () => void;
+}
+
+/**
+ * Watches the input directory and converts images as they appear or change.
+ *
+ * Changes are debounced per file, so a burst of writes results in a single
+ * conversion. Modified sources always replace their previous outputs. When
+ * `options.recursive` is set, subdirectories (including ones created later)
+ * are watched too. Removed sources emit a `removed` event and, with
+ * `options.watchDelete`, have their outputs deleted.
+ *
+ * @param options - CLI options (input must be a directory)
+ * @param onEvent - Callback invoked for every handled change
+ * @param debounceMs - Delay to wait for writes to settle
+ * @returns Promise resolving to a WatchHandle once watching has started
+ */
+export async function watchDirectory(
+  options: CliOptions,
+  onEvent: (event: WatchEvent) => void,
+  debounceMs = DEFAULT_WATCH_DEBOUNCE_MS
+): Promise<WatchHandle> {
+  const inputDir = path.resolve(options.input);
+  const outputDir = path.resolve(options.output);
+  const outputInsideInput = outputDir !== inputDir && isInsideDirectory(inputDir, outputDir);
+  const filter = createPathFilter(inputDir, options);
+  const toRelative = (filePath: string): string =>
+    path.relative(inputDir, filePath).split(path.sep).join('/');
+
+  const watchers = new Map<string, FSWatcher>();
+  const timers = new Map<string, NodeJS.Timeout>();
+  const queues = new Map<string, Promise<void>>();
+  // Outputs we wrote ourselves, so they never trigger a conversion of their own
+  const writtenOutputs = new Set<string>();
+  // Output path of each converted source, for templates that read the source to name it
+  const outputPaths = new Map<string, string>();
+  let closed = false;
+
+  const closeWatchers = (dirPath: string): void => {
+    for (const [watchedPath, watcher] of watchers) {
+      if (isInsideDirectory(dirPath, watchedPath)) {
+        watcher.close();
+        watchers.delete(watchedPath);
+      }
+    }
+  };
+
+  const handleRemoved = async (filePath: string): Promise<void> => {
+    closeWatchers(filePath);
+    // A removed file can no longer be sniffed; its known output path tells it was a source
+    if (!isImageExtension(getFileExtension(filePath)) && !outputPaths.has(filePath)) {
+      return;
+    }
+
+    const deletedOutputs: string[] = [];
+    const knownOutputPath = outputPaths.get(filePath);
+    outputPaths.delete(filePath);
+    if (options.watchDelete) {
+      // Templates using {hash}, {width} or {height} only resolve while the source exists
+      const fileOptions = resolveFileOptions(options, inputDir, filePath);
+      const outputPath =
+        knownOutputPath ??
+        (await resolveOutputPath(filePath, inputDir, outputDir, fileOptions).catch(
+          () => undefined
+        ));
+      for (const candidate of outputPath ? listOutputPaths(outputPath, fileOptions) : []) {
+        try {
+          await fs.unlink(candidate);
+          deletedOutputs.push(candidate);
+        } catch {
+          // Output was never written or is already gone
+        }
+      }
+    }
+
+    onEvent({ type: 'removed', inputPath: filePath, deletedOutputs });
+  };
+
+  const handleChange = async (filePath: string): Promise<void> => {
+    const stats = await fs.stat(filePath).catch(() => null);
+    if (!stats) {
+      await handleRemoved(filePath);
+      return;
+    }
+
+    if (stats.isDirectory()) {
+      // A directory created or moved in: watch it and convert what it already holds
+      if (options.recursive && !watchers.has(filePath)) {
+        await addWatchers(filePath, true);
+      }
+      return;
+    }
+
+    if (!stats.isFile() || !(await isImageCandidate(filePath, options.anyExtension))) {
+      return;
+    }
+    if (!(await filter.isFileSelected(toRelative(filePath)))) {
+      return;
+    }
+
+    const fileOptions = resolveFileOptions(options, inputDir, filePath);
+    const outputPath = await resolveOutputPath(filePath, inputDir, outputDir, fileOptions);
+    outputPaths.set(filePath, outputPath);
+    for (const candidate of listOutputPaths(outputPath, fileOptions)) {
+      writtenOutputs.add(candidate);
+    }
+    const result = await convertSingleImage(filePath, outputPath, {
+      ...fileOptions,
+      overwrite: true,
+    });
+    onEvent({ type: 'converted', inputPath: filePath, result });
+  };
+
+  // Conversions of the same file run one after another, never concurrently
+  const enqueue = (filePath: string): void => {
+    const previous = queues.get(filePath) ?? Promise.resolve();
+    const next = previous
+      .then(() => (closed ? undefined : handleChange(filePath)))
+      .catch((error) => {
+        onEvent({
+          type: 'converted',
+          inputPath: filePath,
+          result: {
+            inputPath: filePath,
+            outputPath: '',
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      })
+      .finally(() => {
+        if (queues.get(filePath) === next) {
+          queues.delete(filePath);
+        }
+      });
+    queues.set(filePath, next);
+  };
+
+  const schedule = (filePath: string): void => {
+    if (closed || writtenOutputs.has(filePath)) {
+      return;
+    }
+    if (outputInsideInput && isInsideDirectory(outputDir, filePath)) {
+      return;
+    }
+
+    clearTimeout(timers.get(filePath));
+    timers.set(
+      filePath,
+      setTimeout(() => {
+        timers.delete(filePath);
+        enqueue(filePath);
+      }, debounceMs)
+    );
+  };
+
+  async function addWatchers(dirPath: string, scheduleFiles: boolean): Promise<void> {
+    if (closed || watchers.has(dirPath)) {
+      return;
+    }
+    if (outputInsideInput && isInsideDirectory(outputDir, dirPath)) {
+      return;
+    }
+    if (dirPath !== inputDir && !(await filter.isDirectorySelected(toRelative(dirPath)))) {
+      return;
+    }
+
+    const watcher = watchFs(dirPath, (_eventType, filename) => {
+      if (filename) {
+        schedule(path.join(dirPath, filename.toString()));
+      }
+    });
+    // The directory was removed or became unreadable
+    watcher.on('error', () => closeWatchers(dirPath));
+    watchers.set(dirPath, watcher);
+
+    const entries = await fs.readdir(dirPath, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const fullPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory() && options.recursive) {
+        await addWatchers(fullPath, scheduleFiles);
+      } else if (entry.isFile() && scheduleFiles) {
+        schedule(fullPath);
+      }
+    }
+  }
+
+  await addWatchers(inputDir, false);
+
+  return {
+    close: () => {
+      closed = true;
+      for (const timer of timers.values()) {
+        clearTimeout(timer);
+      }
+      timers.clear();
+      closeWatchers(inputDir);
+    },
+  };
+}
@@ -0,0 +1,281 @@
+import sharp from 'sharp';
+import type { WatermarkAnchor, WatermarkOptions } from './types';
+import { isPlainObject } from './encoders';
+
+/**
+ * Supported watermark anchors.
+ */
+export const WATERMARK_ANCHORS: readonly WatermarkAnchor[] = [
+  'top-left',
+  'top',
+  'top-right',
+  'left',
+  'center',
+  'right',
+  'bottom-left',
+  'bottom',
+  'bottom-right',
+] as const;
+
+/**
+ * Default watermark anchor.
+ */
+export const DEFAULT_WATERMARK_ANCHOR: WatermarkAnchor = 'bottom-right';
+
+/**
+ * Default distance from the output edges in pixels.
+ */
+export const DEFAULT_WATERMARK_MARGIN = 16;
+
+/**
+ * Default watermark width as a fraction of the output width.
+ */
+export const DEFAULT_WATERMARK_SCALE = 0.2;
+
+/**
+ * Resolution text is rendered at before scaling, so it stays sharp on large outputs.
+ */
+const TEXT_DPI = 300;
+
+/**
+ * Text colors accepted for rendering: hex codes and plain color names.
+ */
+const TEXT_COLOR_PATTERN = /^(#[0-9a-f]{3}|#[0-9a-f]{6}|#[0-9a-f]{8}|[a-z]+)$/i;
+
+/**
+ * Validates watermark options from a config file or the CLI.
+ *
+ * Keys set to undefined are treated as absent, so CLI flags can override
+ * config values.
+ *
+ * @param value - Raw `watermark` value
+ * @returns Validated WatermarkOptions
+ * @throws Error naming the offending key when an option is unknown or invalid
+ */
+export function validateWatermarkOptions(value: unknown): WatermarkOptions {
+  if (!isPlainObject(value)) {
+    throw new Error('watermark: expected an object');
+  }
+
+  const options = Object.fromEntries(
+    Object.entries(value).filter(([, optionValue]) => optionValue !== undefined)
+  );
+  const allowed = [
+    'image',
+    'text',
+    'font',
+    'color',
+    'anchor',
+    'margin',
+    'opacity',
+    'scale',
+    'tile',
+  ];
+  for (const key of Object.keys(options)) {
+    if (!allowed.includes(key)) {
+      throw new Error(`watermark.${key}: not a watermark option (allowed: ${allowed.join(', ')})`);
+    }
+  }
+
+  const invalid = (key: string, expected: string): Error =>
+    new Error(`watermark.${key}: expected ${expected}, got ${JSON.stringify(options[key])}`);
+
+  if ((options.image === undefined) === (options.text === undefined)) {
+    throw new Error('watermark: set exactly one of "image" and "text"');
+  }
+  for (const key of ['image', 'text', 'font']) {
+    if (options[key] !== undefined && (typeof options[key] !== 'string' || options[key] === '')) {
+      throw invalid(key, 'a non-empty string');
+    }
+  }
+  if (
+    options.color !== undefined &&
+    (typeof options.color !== 'string' || !TEXT_COLOR_PATTERN.test(options.color))
+  ) {
+    throw invalid('color', 'a hex code or color name');
+  }
+  if (
+    options.anchor !== undefined &&
+    !(WATERMARK_ANCHORS as readonly unknown[]).includes(options.anchor)
+  ) {
+    throw invalid('anchor', `one of ${WATERMARK_ANCHORS.map((a) => `"${a}"`).join(', ')}`);
+  }
+  if (
+    options.margin !== undefined &&
+    (typeof options.margin !== 'number' || !Number.isInteger(options.margin) || options.margin < 0)
+  ) {
+    throw invalid('margin', 'a non-negative integer');
+  }
+  if (
+    options.opacity !== undefined &&
+    (typeof options.opacity !== 'number' || !(options.opacity >= 0 && options.opacity <= 1))
+  ) {
+    throw invalid('opacity', 'a number between 0 and 1');
+  }
+  if (
+    options.scale !== undefined &&
+    (typeof options.scale !== 'number' || !(options.scale > 0 && options.scale <= 1))
+  ) {
+    throw invalid('scale', 'a number greater than 0 and at most 1');
+  }
+  if (options.tile !== undefined && typeof options.tile !== 'boolean') {
+    throw invalid('tile', 'a boolean');
+  }
+
+  return options as WatermarkOptions;
+}
+
+/**
+ * Escapes text for Pango markup.
+ *
+ * @param text - Text to escape
+ * @returns Escaped text
+ */
+function escapeMarkup(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Gets the offset of an anchored watermark along one axis.
+ *
+ * @param position - `start`, `center` or `end` of the axis
+ * @param size - Output size along the axis
+ * @param markSize - Watermark size along the axis
+ * @param margin - Distance from the edges
+ * @returns Offset in pixels
+ */
+function anchorOffset(
+  position: 'start' | 'center' | 'end',
+  size: number,
+  markSize: number,
+  margin: number
+): number {
+  if (position === 'start') {
+    return Math.min(margin, size - markSize);
+  }
+  if (position === 'end') {
+    return Math.max(0, size - markSize - margin);
+  }
+  return Math.floor((size - markSize) / 2);
+}
+
+/**
+ * Renders the watermark at its final size and opacity.
+ *
+ * The watermark is `scale` times the output width, shrunk further if needed
+ * to fit inside the output and its margins.
+ *
+ * @param watermark - Watermark options
+ * @param width - Output width in pixels
+ * @param height - Output height in pixels
+ * @returns Promise resolving to PNG data of the watermark
+ */
+async function renderMark(
+  watermark: WatermarkOptions,
+  width: number,
+  height: number
+): Promise<Buffer> {
+  const margin = watermark.tile ? 0 : (watermark.margin ?? DEFAULT_WATERMARK_MARGIN);
+  const maxWidth = Math.max(1, width - 2 * margin);
+  const maxHeight = Math.max(1, height - 2 * margin);
+  const targetWidth = Math.max(1, Math.round(width * (watermark.scale ?? DEFAULT_WATERMARK_SCALE)));
+
+  const source = watermark.image
+    ? sharp(watermark.image)
+    : sharp({
+        text: {
+          text: `<span foreground="${watermark.color ?? '#ffffff'}">${escapeMarkup(watermark.text ?? '')}</span>`,
+          font: watermark.font ?? 'sans',
+          dpi: TEXT_DPI,
+          rgba: true,
+        },
+      });
+
+  const { data, info } = await source
+    .ensureAlpha()
+    .resize(Math.min(targetWidth, maxWidth), maxHeight, { fit: 'inside' })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // Scale the alpha channel for the opacity
+  const opacity = watermark.opacity ?? 1;
+  if (opacity < 1) {
+    for (let i = 3; i < data.length; i += 4) {
+      data[i] = Math.round(data[i] * opacity);
+    }
+  }
+
+  return sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Builds an overlay covering the whole output with the watermark in place.
+ *
+ * For animated outputs the overlay spans the strip of all frames, with the
+ * watermark repeated on every frame.
+ *
+ * @param watermark - Watermark options
+ * @param width - Output width in pixels
+ * @param height - Output height of one frame in pixels
+ * @param pages - Number of frames
+ * @returns Promise resolving to the overlay to composite at the top-left corner
+ */
+export async function createWatermarkOverlay(
+  watermark: WatermarkOptions,
+  width: number,
+  height: number,
+  pages = 1
+): Promise<sharp.OverlayOptions> {
+  const mark = await renderMark(watermark, width, height);
+  const transparent = { r: 0, g: 0, b: 0, alpha: 0 };
+
+  let placement: sharp.OverlayOptions;
+  if (watermark.tile) {
+    // Tiles are spaced by the margin
+    const margin = watermark.margin ?? DEFAULT_WATERMARK_MARGIN;
+    const tile = await sharp(mark)
+      .extend({ right: margin, bottom: margin, background: transparent })
+      .png()
+      .toBuffer();
+    placement = { input: tile, tile: true, gravity: 'northwest' };
+  } else {
+    const { width: markWidth = 0, height: markHeight = 0 } = await sharp(mark).metadata();
+    const margin = watermark.margin ?? DEFAULT_WATERMARK_MARGIN;
+    const anchor = watermark.anchor ?? DEFAULT_WATERMARK_ANCHOR;
+    const horizontal = anchor.endsWith('left')
+      ? 'start'
+      : anchor.endsWith('right')
+        ? 'end'
+        : 'center';
+    const vertical = anchor.startsWith('top')
+      ? 'start'
+      : anchor.startsWith('bottom')
+        ? 'end'
+        : 'center';
+    placement = {
+      input: mark,
+      left: anchorOffset(horizontal, width, markWidth, margin),
+      top: anchorOffset(vertical, height, markHeight, margin),
+    };
+  }
+
+  const frame = await sharp({ create: { width, height, channels: 4, background: transparent } })
+    .composite([placement])
+    .png()
+    .toBuffer();
+  if (pages === 1) {
+    return { input: frame, top: 0, left: 0 };
+  }
+
+  const strip = await sharp({
+    create: { width, height: height * pages, channels: 4, background: transparent },
+  })
+    .composite(
+      Array.from({ length: pages }, (_, page) => ({ input: frame, top: page * height, left: 0 }))
+    )
+    .png()
+    .toBuffer();
+  return { input: strip, top: 0, left: 0 };
+}
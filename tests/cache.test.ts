@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import {
+  CACHE_MANIFEST_FILENAME,
+  createCacheManifest,
+  hashFile,
+  hashOptions,
+  isCacheEntryFresh,
+  loadCacheManifest,
+  saveCacheManifest,
+} from '../src/cache';
+import type { CacheEntry } from '../src/cache';
+import { convertImages } from '../src/index';
+
+describe('cache', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('hashOptions', () => {
+    it('should ignore key order and undefined values', () => {
+      expect(hashOptions({ format: 'webp', quality: 80, width: undefined })).toBe(
+        hashOptions({ quality: 80, format: 'webp' })
+      );
+    });
+
+    it('should change when an option changes', () => {
+      expect(hashOptions({ format: 'webp', quality: 80 })).not.toBe(
+        hashOptions({ format: 'webp', quality: 70 })
+      );
+    });
+
+    it('should change when the output path changes', () => {
+      expect(hashOptions({ format: 'webp' }, 'a.webp')).not.toBe(
+        hashOptions({ format: 'webp' }, 'a-new.webp')
+      );
+    });
+  });
+
+  describe('convertImages incrementally', () => {
+    let inputDir: string;
+    let options: { input: string; output: string; format: 'webp'; incremental: boolean };
+
+    const createImage = (name: string, background = '#123456'): Promise<sharp.OutputInfo> =>
+      sharp({ create: { width: 8, height: 8, channels: 3, background } })
+        .png()
+        .toFile(path.join(inputDir, name));
+
+    beforeEach(async () => {
+      inputDir = path.join(tempDir, 'in');
+      await fs.mkdir(inputDir);
+      await createImage('a.png');
+      options = {
+        input: inputDir,
+        output: path.join(tempDir, 'out'),
+        format: 'webp',
+        incremental: true,
+      };
+    });
+
+    it('should convert sources again when the output layout changes', async () => {
+      await convertImages(options);
+      const unchanged = await convertImages(options);
+      const renamed = await convertImages({ ...options, outputTemplate: '{name}-new.{ext}' });
+
+      expect(unchanged.skipped).toBe(1);
+      expect(renamed).toMatchObject({ successful: 1, skipped: 0 });
+      expect(await fs.readdir(options.output)).toContain('a-new.webp');
+    });
+
+    it('should keep the entries of sources left out of a run', async () => {
+      await createImage('b.png');
+      await convertImages(options);
+
+      const partial = await convertImages({ ...options, include: ['a.png'] });
+      const full = await convertImages(options);
+      expect(partial).toMatchObject({ total: 1, skipped: 1 });
+      expect(full).toMatchObject({ total: 2, skipped: 2 });
+
+      await fs.rm(path.join(inputDir, 'b.png'));
+      await convertImages(options);
+      expect(Object.keys((await loadCacheManifest(options.output)).entries)).toEqual(['a.png']);
+    });
+
+    it('should only replace existing outputs the manifest recorded for the source', async () => {
+      await fs.mkdir(options.output);
+      await fs.writeFile(path.join(options.output, 'a.webp'), 'unrelated');
+
+      const first = await convertImages(options);
+      expect(first.results[0].error).toBe(
+        'Output file already exists. Use --overwrite to replace it.'
+      );
+      expect(await fs.readFile(path.join(options.output, 'a.webp'), 'utf-8')).toBe('unrelated');
+
+      await fs.rm(path.join(options.output, 'a.webp'));
+      await convertImages(options);
+      await createImage('a.png', '#654321');
+      expect(await convertImages(options)).toMatchObject({ successful: 1, failed: 0 });
+    });
+  });
+
+  describe('loadCacheManifest', () => {
+    it('should return an empty manifest when none exists', async () => {
+      expect(await loadCacheManifest(tempDir)).toEqual(createCacheManifest());
+    });
+
+    it('should return an empty manifest when the file is corrupt', async () => {
+      await fs.writeFile(path.join(tempDir, CACHE_MANIFEST_FILENAME), '{not json');
+      expect(await loadCacheManifest(tempDir)).toEqual(createCacheManifest());
+    });
+
+    it('should round-trip a saved manifest', async () => {
+      const manifest = createCacheManifest();
+      manifest.entries['a.png'] = {
+        size: 1,
+        mtimeMs: 2,
+        contentHash: 'abc',
+        optionsHash: 'def',
+        outputs: ['a.webp'],
+      };
+      await saveCacheManifest(tempDir, manifest);
+      expect(await loadCacheManifest(tempDir)).toEqual(manifest);
+    });
+  });
+
+  describe('isCacheEntryFresh', () => {
+    let sourcePath: string;
+    let entry: CacheEntry;
+
+    beforeEach(async () => {
+      sourcePath = path.join(tempDir, 'source.png');
+      await fs.writeFile(sourcePath, 'source');
+      await fs.writeFile(path.join(tempDir, 'source.webp'), 'output');
+      entry = {
+        size: 6,
+        mtimeMs: 1000,
+        contentHash: await hashFile(sourcePath),
+        optionsHash: 'options',
+        outputs: ['source.webp'],
+      };
+    });
+
+    it('should accept an unchanged source', async () => {
+      const stats = { size: 6, mtimeMs: 1000 };
+      expect(await isCacheEntryFresh(entry, sourcePath, stats, 'options', tempDir)).toBe(true);
+    });
+
+    it('should accept a touched source with the same content', async () => {
+      const stats = { size: 6, mtimeMs: 2000 };
+      expect(await isCacheEntryFresh(entry, sourcePath, stats, 'options', tempDir)).toBe(true);
+      expect(entry.mtimeMs).toBe(2000);
+    });
+
+    it('should reject changed options, content or missing outputs', async () => {
+      const stats = { size: 6, mtimeMs: 1000 };
+      expect(await isCacheEntryFresh(entry, sourcePath, stats, 'other', tempDir)).toBe(false);
+      expect(await isCacheEntryFresh(undefined, sourcePath, stats, 'options', tempDir)).toBe(false);
+
+      await fs.writeFile(sourcePath, 'change');
+      const touched = { size: 6, mtimeMs: 3000 };
+      expect(await isCacheEntryFresh(entry, sourcePath, touched, 'options', tempDir)).toBe(false);
+
+      entry.outputs = ['missing.webp'];
+      expect(await isCacheEntryFresh(entry, sourcePath, stats, 'options', tempDir)).toBe(false);
+    });
+  });
+});
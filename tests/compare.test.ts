@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { compareImages } from '../src/compare';
+
+describe('compare', () => {
+  let tempDir: string;
+  let basePath: string;
+  let changedPath: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-compare-'));
+    basePath = path.join(tempDir, 'base.png');
+    changedPath = path.join(tempDir, 'changed.png');
+
+    const base = sharp({ create: { width: 20, height: 20, channels: 3, background: '#ffffff' } });
+    await base.clone().png().toFile(basePath);
+    // A 5x5 black square covers 25 of the 400 pixels
+    const square = await sharp({
+      create: { width: 5, height: 5, channels: 3, background: '#000000' },
+    })
+      .png()
+      .toBuffer();
+    await base
+      .clone()
+      .composite([{ input: square, left: 0, top: 0 }])
+      .png()
+      .toFile(changedPath);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report identical images', async () => {
+    const comparison = await compareImages(basePath, basePath);
+    expect(comparison).toMatchObject({
+      width: 20,
+      height: 20,
+      differentPixels: 0,
+      meanAbsoluteError: 0,
+      psnr: Infinity,
+      ssim: 1,
+    });
+  });
+
+  it('should count differing pixels and write a diff image', async () => {
+    const diffPath = path.join(tempDir, 'diff', 'diff.png');
+    const comparison = await compareImages(basePath, changedPath, { diffPath });
+    expect(comparison.differentPixels).toBe(25);
+    expect(comparison.differentPercent).toBeCloseTo(6.25);
+    expect(comparison.ssim).toBeLessThan(1);
+    expect(comparison.psnr).toBeLessThan(Infinity);
+
+    const { data, info } = await sharp(diffPath).raw().toBuffer({ resolveWithObject: true });
+    expect(info.width).toBe(20);
+    expect([...data.subarray(0, 3)]).toEqual([255, 0, 0]);
+  });
+
+  it('should ignore differences within the threshold', async () => {
+    const comparison = await compareImages(basePath, changedPath, { threshold: 255 });
+    expect(comparison.differentPixels).toBe(0);
+  });
+
+  it('should reject images of different sizes', async () => {
+    const smallPath = path.join(tempDir, 'small.png');
+    await sharp({ create: { width: 10, height: 10, channels: 3, background: '#fff' } })
+      .png()
+      .toFile(smallPath);
+    await expect(compareImages(basePath, smallPath)).rejects.toThrow('Images differ in size');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { getDefaultConcurrency, mapWithConcurrency } from '../src/concurrency';
+
+describe('concurrency', () => {
+  describe('getDefaultConcurrency', () => {
+    it('should return at least one worker', () => {
+      expect(getDefaultConcurrency()).toBeGreaterThanOrEqual(1);
+    });
+  });
+
+  describe('mapWithConcurrency', () => {
+    it('should return results in input order', async () => {
+      const delays = [30, 5, 20, 1, 10];
+      const results = await mapWithConcurrency(delays, 3, async (delay, index) => {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        return index;
+      });
+      expect(results).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it('should never exceed the concurrency limit', async () => {
+      let active = 0;
+      let peak = 0;
+      await mapWithConcurrency(Array.from({ length: 10 }), 2, async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 2));
+        active--;
+      });
+      expect(peak).toBe(2);
+    });
+
+    it('should handle empty input', async () => {
+      expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+    });
+
+    it('should throw error for invalid concurrency', async () => {
+      await expect(mapWithConcurrency([1], 0, async (x) => x)).rejects.toThrow();
+      await expect(mapWithConcurrency([1], 1.5, async (x) => x)).rejects.toThrow();
+    });
+  });
+});
@@ -4,6 +4,11 @@ import {
   isSupportedOutputFormat,
   formatSupportsQuality,
   normalizeFormat,
+  isFitMode,
+  isImagePosition,
+  isMetadataPolicy,
+  parseByteSize,
+  validateProcessingOptions,
   DEFAULT_QUALITY,
 } from '../src/config';
 
@@ -14,11 +19,12 @@ describe('config', () => {
       expect(isSupportedInputFormat('png')).toBe(true);
       expect(isSupportedInputFormat('webp')).toBe(true);
       expect(isSupportedInputFormat('gif')).toBe(true);
+      expect(isSupportedInputFormat('svg')).toBe(true);
     });
 
     it('should return false for unsupported formats', () => {
-      expect(isSupportedInputFormat('svg')).toBe(false);
       expect(isSupportedInputFormat('pdf')).toBe(false);
+      expect(isSupportedInputFormat('psd')).toBe(false);
     });
   });
 
@@ -66,6 +72,112 @@ describe('config', () => {
     });
   });
 
+  describe('isFitMode', () => {
+    it('should accept supported fit modes', () => {
+      expect(isFitMode('cover')).toBe(true);
+      expect(isFitMode('contain')).toBe(true);
+      expect(isFitMode('outside')).toBe(true);
+    });
+
+    it('should reject unknown fit modes', () => {
+      expect(isFitMode('crop')).toBe(false);
+      expect(isFitMode('')).toBe(false);
+    });
+  });
+
+  describe('isImagePosition', () => {
+    it('should accept gravities and smart crop strategies', () => {
+      expect(isImagePosition('north')).toBe(true);
+      expect(isImagePosition('entropy')).toBe(true);
+      expect(isImagePosition('attention')).toBe(true);
+    });
+
+    it('should reject unknown positions', () => {
+      expect(isImagePosition('middle')).toBe(false);
+    });
+  });
+
+  describe('isMetadataPolicy', () => {
+    it('should accept supported metadata policies', () => {
+      expect(isMetadataPolicy('strip')).toBe(true);
+      expect(isMetadataPolicy('keep-icc-only')).toBe(true);
+      expect(isMetadataPolicy('keep-copyright')).toBe(true);
+    });
+
+    it('should reject unknown policies', () => {
+      expect(isMetadataPolicy('keep-gps')).toBe(false);
+    });
+  });
+
+  describe('parseByteSize', () => {
+    it('should parse plain byte counts', () => {
+      expect(parseByteSize('204800')).toBe(204800);
+      expect(parseByteSize(1000)).toBe(1000);
+    });
+
+    it('should parse sizes with units', () => {
+      expect(parseByteSize('200KB')).toBe(204800);
+      expect(parseByteSize('1.5 MB')).toBe(1572864);
+      expect(parseByteSize('512b')).toBe(512);
+    });
+
+    it('should throw error for invalid sizes', () => {
+      expect(() => parseByteSize('abc')).toThrow();
+      expect(() => parseByteSize('10TB')).toThrow();
+      expect(() => parseByteSize('0')).toThrow();
+      expect(() => parseByteSize(-5)).toThrow();
+    });
+  });
+
+  describe('validateProcessingOptions', () => {
+    it('should accept valid options', () => {
+      expect(() =>
+        validateProcessingOptions({
+          format: 'webp',
+          width: 640,
+          quality: 70,
+          fit: 'cover',
+          position: 'attention',
+        })
+      ).not.toThrow();
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => validateProcessingOptions({ format: 'png', width: 0 })).toThrow(
+        'Width must be a positive integer'
+      );
+      expect(() => validateProcessingOptions({ format: 'png', quality: 101 })).toThrow(
+        'Quality must be between 1 and 100'
+      );
+      expect(() => validateProcessingOptions({ format: 'png', position: 'entropy' })).toThrow(
+        'requires fit "cover"'
+      );
+      expect(() =>
+        validateProcessingOptions({ format: 'png', minWidth: 500, maxWidth: 100 })
+      ).toThrow('min-width cannot be greater than max-width');
+    });
+
+    it('should reject invalid frame selections', () => {
+      expect(() => validateProcessingOptions({ format: 'png', frame: -1 })).toThrow(
+        'Frame must be a non-negative integer'
+      );
+      expect(() =>
+        validateProcessingOptions({ format: 'png', frame: 1, dumpFrames: true })
+      ).toThrow('cannot be combined with selecting a frame');
+      expect(() =>
+        validateProcessingOptions({ format: 'png', dumpFrames: true, variants: { widths: [100] } })
+      ).toThrow('cannot be combined with variants');
+    });
+
+    it('should reject keepIfLarger with outputs other than a single image', () => {
+      for (const multiple of [{ variants: { widths: [100] } }, { dumpFrames: true }]) {
+        expect(() =>
+          validateProcessingOptions({ format: 'png', keepIfLarger: true, ...multiple })
+        ).toThrow('Keeping larger sources cannot be combined with variants or dumping frames');
+      }
+    });
+  });
+
   describe('DEFAULT_QUALITY', () => {
     it('should have a reasonable default quality value', () => {
       expect(DEFAULT_QUALITY).toBeGreaterThanOrEqual(1);
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { getEnvConfigLayer, loadConfigFile, resolveConfig } from '../src/configLoader';
+
+describe('configLoader', () => {
+  let tempDir: string;
+  let projectDir: string;
+
+  const writeJson = (filePath: string, value: unknown): Promise<void> =>
+    fs.writeFile(filePath, JSON.stringify(value));
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-config-'));
+    projectDir = path.join(tempDir, 'project');
+    await fs.mkdir(path.join(projectDir, 'images'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('loadConfigFile', () => {
+    it('should load JSON, JavaScript and package.json configs', async () => {
+      await writeJson(path.join(tempDir, '.imgtoolrc'), { format: 'webp' });
+      await fs.writeFile(
+        path.join(tempDir, 'imgtool.config.js'),
+        'module.exports = { quality: 70 };'
+      );
+      await writeJson(path.join(tempDir, 'package.json'), { name: 'x', imgtool: { width: 10 } });
+
+      expect((await loadConfigFile(path.join(tempDir, '.imgtoolrc')))?.values).toEqual({
+        format: 'webp',
+      });
+      expect((await loadConfigFile(path.join(tempDir, 'imgtool.config.js')))?.values).toEqual({
+        quality: 70,
+      });
+      const packageLayer = await loadConfigFile(path.join(tempDir, 'package.json'));
+      expect(packageLayer?.values).toEqual({ width: 10 });
+      expect(packageLayer?.source).toContain('("imgtool" key)');
+    });
+
+    it('should name the file and the key of an invalid value', async () => {
+      const configPath = path.join(tempDir, 'imgtool.config.json');
+      await writeJson(configPath, { maxWidht: 100 });
+      await expect(loadConfigFile(configPath)).rejects.toThrow(
+        `Invalid config in ${configPath}: maxWidht: unknown option (did you mean "maxWidth"?)`
+      );
+
+      await fs.writeFile(configPath, '{ not json');
+      await expect(loadConfigFile(configPath)).rejects.toThrow('Failed to load config file');
+    });
+  });
+
+  describe('resolveConfig', () => {
+    it('should merge discovered files, nearer files winning', async () => {
+      await writeJson(path.join(tempDir, 'package.json'), {
+        name: 'x',
+        imgtool: { format: 'png', quality: 60 },
+      });
+      await writeJson(path.join(projectDir, '.imgtoolrc'), { quality: 90 });
+      await writeJson(path.join(projectDir, 'images', 'imgtool.config.json'), { width: 100 });
+
+      const { options, sources, layers } = await resolveConfig({
+        input: path.join(projectDir, 'images', 'a.jpg'),
+        env: {},
+      });
+
+      expect(options).toEqual({ format: 'png', quality: 90, width: 100 });
+      expect(sources.quality).toBe(path.join(projectDir, '.imgtoolrc'));
+      expect(layers).toHaveLength(3);
+    });
+
+    it('should stop discovery at a root config', async () => {
+      await writeJson(path.join(tempDir, '.imgtoolrc'), { format: 'png' });
+      await writeJson(path.join(projectDir, '.imgtoolrc'), { root: true, quality: 90 });
+
+      const { options } = await resolveConfig({ input: projectDir, env: {} });
+
+      expect(options).toEqual({ quality: 90 });
+    });
+
+    it('should use an explicit config file instead of discovery', async () => {
+      await writeJson(path.join(projectDir, '.imgtoolrc'), { format: 'png' });
+      const configPath = path.join(tempDir, 'custom.json');
+      await writeJson(configPath, { quality: 50 });
+
+      const { options } = await resolveConfig({ input: projectDir, configPath, env: {} });
+
+      expect(options).toEqual({ quality: 50 });
+    });
+
+    it('should let environment variables override files', async () => {
+      await writeJson(path.join(projectDir, '.imgtoolrc'), { quality: 90, recursive: false });
+
+      const { options, sources } = await resolveConfig({
+        input: projectDir,
+        env: { IMGTOOL_QUALITY: '40', IMGTOOL_RECURSIVE: 'true', HOME: '/root' },
+      });
+
+      expect(options).toEqual({ quality: 40, recursive: true });
+      expect(sources.quality).toBe('env IMGTOOL_QUALITY');
+    });
+
+    it('should let a nearer file use pipelines defined farther up', async () => {
+      await writeJson(path.join(projectDir, '.imgtoolrc'), {
+        pipelines: { soft: [{ op: 'blur', sigma: 1 }] },
+      });
+      await writeJson(path.join(projectDir, 'images', '.imgtoolrc'), { pipeline: ['soft'] });
+
+      const { options } = await resolveConfig({
+        input: path.join(projectDir, 'images'),
+        env: {},
+      });
+
+      expect(options.pipeline).toEqual(['soft']);
+    });
+  });
+
+  describe('getEnvConfigLayer', () => {
+    it('should reject unknown variables and invalid values, naming the variable', () => {
+      expect(() => getEnvConfigLayer({ IMGTOOL_MAX_WIDHT: '10' })).toThrow(
+        'IMGTOOL_MAX_WIDHT: unknown environment variable (did you mean "IMGTOOL_MAX_WIDTH"?)'
+      );
+      expect(() => getEnvConfigLayer({ IMGTOOL_QUALITY: '0' })).toThrow(
+        'IMGTOOL_QUALITY: expected an integer between 1 and 100, got 0'
+      );
+      expect(getEnvConfigLayer({ PATH: '/bin' })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseEnvValue,
+  suggestConfigKey,
+  toEnvName,
+  validateConfig,
+  validateConfigValue,
+} from '../src/configSchema';
+
+describe('configSchema', () => {
+  describe('validateConfig', () => {
+    it('should accept a valid config', () => {
+      const config = {
+        format: 'jpg',
+        maxWidth: 1200,
+        quality: 80,
+        maxSize: '200KB',
+        include: ['*.jpg'],
+        pipelines: { soft: [{ op: 'blur', sigma: 1 }] },
+        pipeline: ['soft'],
+        presets: { thumbs: { width: 200 } },
+        rules: [{ match: 'thumbs/**', preset: 'thumbs' }],
+      };
+      expect(validateConfig(config)).toBe(config);
+    });
+
+    it('should name the key, the expected type and the value', () => {
+      expect(() => validateConfig({ quality: 'high' })).toThrow(
+        'quality: expected an integer between 1 and 100, got "high"'
+      );
+      expect(() => validateConfig({ fit: 'stretch' })).toThrow(
+        'fit: expected one of "cover", "contain"'
+      );
+      expect(() => validateConfig({ recursive: 'yes' })).toThrow(
+        'recursive: expected a boolean, got "yes"'
+      );
+      expect(() => validateConfig([])).toThrow('expected an object of options');
+    });
+
+    it('should keep the key path of nested errors', () => {
+      expect(() => validateConfig({ encoders: { png: { colors: 1000 } } })).toThrow(
+        /^encoders\.png\.colors: /
+      );
+      expect(() => validateConfig({ pipeline: ['missing'] })).toThrow(/^pipeline\[0\]: /);
+    });
+
+    it('should suggest a known key for a typo', () => {
+      expect(() => validateConfig({ maxwidht: 100 })).toThrow(
+        'maxwidht: unknown option (did you mean "maxWidth"?)'
+      );
+      expect(() => validateConfigValue('colour', 'red', {})).toThrow(/^colour: unknown option$/);
+    });
+
+    it('should resolve named pipelines from inherited config', () => {
+      const inherited = { pipelines: { soft: [{ op: 'blur' as const, sigma: 1 }] } };
+      expect(validateConfig({ pipeline: ['soft'] }, inherited)).toEqual({ pipeline: ['soft'] });
+    });
+  });
+
+  describe('suggestConfigKey', () => {
+    it('should only suggest close keys', () => {
+      expect(suggestConfigKey('QUALITY')).toBe('quality');
+      expect(suggestConfigKey('overwirte')).toBe('overwrite');
+      expect(suggestConfigKey('banana')).toBeUndefined();
+    });
+  });
+
+  describe('environment variables', () => {
+    it('should map keys to variable names', () => {
+      expect(toEnvName('maxWidth', 'IMGTOOL_')).toBe('IMGTOOL_MAX_WIDTH');
+      expect(toEnvName('quality', 'IMGTOOL_')).toBe('IMGTOOL_QUALITY');
+    });
+
+    it('should parse values by key type', () => {
+      expect(parseEnvValue('maxWidth', '800')).toBe(800);
+      expect(parseEnvValue('recursive', '1')).toBe(true);
+      expect(parseEnvValue('overwrite', 'false')).toBe(false);
+      expect(parseEnvValue('exclude', 'tmp/**, *.bak')).toEqual(['tmp/**', '*.bak']);
+      expect(parseEnvValue('variants', '320,640:webp')).toBe('320,640:webp');
+      expect(parseEnvValue('encoders', '{"webp":{"effort":6}}')).toEqual({
+        webp: { effort: 6 },
+      });
+      expect(parseEnvValue('quality', 'high')).toBe('high');
+    });
+  });
+});
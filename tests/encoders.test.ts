@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { getEncoderOptionsForFormat, validateEncoderOptions } from '../src/encoders';
+
+describe('encoders', () => {
+  describe('validateEncoderOptions', () => {
+    it('should accept valid options per format', () => {
+      expect(
+        validateEncoderOptions({
+          jpeg: { progressive: true, mozjpeg: true, chromaSubsampling: '4:4:4' },
+          png: { compressionLevel: 9, palette: true, colors: 64 },
+          webp: { lossless: true, effort: 6 },
+          avif: { effort: 4, chromaSubsampling: '4:2:0' },
+          tiff: { compression: 'lzw', predictor: 'horizontal' },
+          gif: { dither: 0.5, colors: 32 },
+        })
+      ).toBeDefined();
+    });
+
+    it('should accept jpg as an alias for jpeg', () => {
+      expect(validateEncoderOptions({ jpg: { progressive: true } })).toEqual({
+        jpeg: { progressive: true },
+      });
+    });
+
+    it('should reject options that do not apply to the format', () => {
+      expect(() => validateEncoderOptions({ png: { mozjpeg: true } })).toThrow(
+        'encoders.png.mozjpeg: not a png encoder option'
+      );
+      expect(() => validateEncoderOptions({ webp: { constructor: true } })).toThrow(
+        'encoders.webp.constructor'
+      );
+    });
+
+    it('should reject formats without encoder options', () => {
+      expect(() => validateEncoderOptions({ bmp: {} })).toThrow('encoders.bmp');
+      expect(() => validateEncoderOptions({ toString: {} })).toThrow('encoders.toString');
+    });
+
+    it('should reject invalid values with the expected type', () => {
+      expect(() => validateEncoderOptions({ webp: { effort: 9 } })).toThrow(
+        'encoders.webp.effort: expected an integer between 0 and 6, got 9'
+      );
+      expect(() => validateEncoderOptions({ jpeg: { progressive: 'yes' } })).toThrow(
+        'expected a boolean'
+      );
+      expect(() => validateEncoderOptions({ tiff: { compression: 'zip' } })).toThrow(
+        'expected one of'
+      );
+      expect(() => validateEncoderOptions([])).toThrow('encoders: expected an object');
+    });
+  });
+
+  describe('getEncoderOptionsForFormat', () => {
+    it('should return the options for the output format only', () => {
+      const encoders = { jpeg: { mozjpeg: true }, png: { palette: true } };
+      expect(getEncoderOptionsForFormat('jpg', encoders)).toEqual({ mozjpeg: true });
+      expect(getEncoderOptionsForFormat('png', encoders)).toEqual({ palette: true });
+      expect(getEncoderOptionsForFormat('webp', encoders)).toEqual({});
+      expect(getEncoderOptionsForFormat('webp', undefined)).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { getFormatCapability, resolveFormatCapabilities } from '../src/formats';
+import { checkNativeImage, encodeBmp, encodeIco } from '../src/nativeEncoders';
+import { convertImages, processImage } from '../src/index';
+
+describe('formats', () => {
+  describe('resolveFormatCapabilities', () => {
+    const io = (input: boolean, output: boolean) => ({
+      input: { file: input, buffer: input, stream: input },
+      output: { file: output, buffer: output, stream: output },
+    });
+
+    it('should only enable the formats libvips provides a loader or saver for', () => {
+      const basic = resolveFormatCapabilities({ jpeg: io(true, true), svg: io(true, false) });
+      const find = (name: string) => basic.find((capability) => capability.name === name);
+
+      expect(find('jpeg')).toMatchObject({ input: true, output: 'sharp', sharpFormat: 'jpeg' });
+      expect(find('svg')).toMatchObject({ input: true, output: null });
+      expect(find('jxl')).toMatchObject({ input: false, output: null, quality: false });
+      expect(find('bmp')).toMatchObject({ input: false, output: 'native' });
+
+      // The heif loader decodes AVIF, but not the HEVC images HEIC files hold
+      const heif = resolveFormatCapabilities({ heif: io(true, true) });
+      expect(heif.find((capability) => capability.name === 'avif')?.input).toBe(true);
+      expect(heif.find((capability) => capability.name === 'heif')?.input).toBe(false);
+
+      const full = resolveFormatCapabilities({ jxl: io(true, true), jp2k: io(true, true) });
+      expect(full.find((capability) => capability.name === 'jxl')).toMatchObject({
+        input: true,
+        output: 'sharp',
+        quality: true,
+      });
+      expect(full.find((capability) => capability.name === 'jp2')).toMatchObject({
+        input: true,
+        output: 'sharp',
+        sharpFormat: 'jp2',
+      });
+    });
+
+    it('should find formats by name and alias', () => {
+      expect(getFormatCapability('JPG')?.name).toBe('jpeg');
+      expect(getFormatCapability('heic')?.name).toBe('heif');
+      expect(getFormatCapability('pdf')).toBeUndefined();
+    });
+  });
+
+  describe('encodeBmp', () => {
+    it('should write bottom-up BGR rows padded to 4 bytes', async () => {
+      const pixels = Buffer.from([255, 0, 0, 0, 255, 0, 0, 0, 255, 10, 20, 30]);
+      const bmp = encodeBmp(pixels, 2, 2, 3);
+
+      expect(bmp.toString('latin1', 0, 2)).toBe('BM');
+      expect(bmp.readUInt32LE(2)).toBe(bmp.length);
+      expect(bmp.readUInt16LE(28)).toBe(24);
+      // Bottom row first: blue, then (10, 20, 30), then 2 bytes of padding
+      expect([...bmp.subarray(54, 62)]).toEqual([255, 0, 0, 30, 20, 10, 0, 0]);
+      expect([...bmp.subarray(62, 70)]).toEqual([0, 0, 255, 0, 255, 0, 0, 0]);
+      await expect(checkNativeImage(bmp, 'bmp')).resolves.toBeUndefined();
+      await expect(checkNativeImage(bmp.subarray(0, 60), 'bmp')).rejects.toThrow('Truncated');
+    });
+
+    it('should keep the alpha channel in a 32-bit BMP', () => {
+      const bmp = encodeBmp(Buffer.from([1, 2, 3, 128]), 1, 1, 4);
+
+      expect(bmp.readUInt32LE(14)).toBe(108);
+      expect(bmp.readUInt16LE(28)).toBe(32);
+      expect(bmp.readUInt32LE(66)).toBe(0xff000000);
+      expect([...bmp.subarray(122)]).toEqual([3, 2, 1, 128]);
+    });
+  });
+
+  describe('encodeIco', () => {
+    it('should embed the PNG and reject images over 256 pixels', async () => {
+      const png = await sharp({
+        create: { width: 256, height: 32, channels: 4, background: '#ff000080' },
+      })
+        .png()
+        .toBuffer();
+      const ico = encodeIco(png, 256, 32);
+
+      expect([...ico.subarray(0, 8)]).toEqual([0, 0, 1, 0, 1, 0, 0, 32]);
+      expect(ico.subarray(22)).toEqual(png);
+      await expect(checkNativeImage(ico, 'ico')).resolves.toBeUndefined();
+      expect(() => encodeIco(png, 257, 32)).toThrow('at most 256x256 pixels, got 257x32');
+    });
+
+    it('should record the bit depth of the embedded PNG', async () => {
+      const image = sharp({
+        create: { width: 16, height: 16, channels: 3, background: '#336699' },
+      });
+      const rgb = await image.clone().png().toBuffer();
+      const palette = await image.clone().png({ palette: true, colours: 16 }).toBuffer();
+
+      expect(encodeIco(rgb, 16, 16).readUInt16LE(12)).toBe(24);
+      expect(encodeIco(palette, 16, 16).readUInt16LE(12)).toBe(4);
+      expect(() => encodeIco(Buffer.from('not a png'), 16, 16)).toThrow('embedded as PNG');
+    });
+  });
+
+  describe('conversion', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-formats-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should write BMP and ICO outputs', async () => {
+      const inputPath = path.join(tempDir, 'logo.png');
+      await sharp({ create: { width: 64, height: 48, channels: 4, background: '#33669980' } })
+        .png()
+        .toFile(inputPath);
+
+      const bmp = await processImage(inputPath, path.join(tempDir, 'logo.bmp'), { format: 'bmp' });
+      const ico = await processImage(inputPath, path.join(tempDir, 'logo.ico'), {
+        format: 'ico',
+        width: 32,
+      });
+
+      expect(bmp).toMatchObject({ success: true, width: 64, height: 48 });
+      expect(ico).toMatchObject({ success: true, width: 32, height: 24 });
+      const data = await fs.readFile(path.join(tempDir, 'logo.bmp'));
+      expect(data.readUInt16LE(28)).toBe(32);
+      expect(data.length).toBe(bmp.newSize);
+    });
+
+    it('should rasterize SVG sources at the requested density', async () => {
+      const inputPath = path.join(tempDir, 'icon.svg');
+      await fs.writeFile(
+        inputPath,
+        '<svg xmlns="http://www.w3.org/2000/svg" width="40" height="20">' +
+          '<rect width="40" height="20" fill="#336699"/></svg>'
+      );
+
+      const summary = await convertImages({
+        input: tempDir,
+        output: path.join(tempDir, 'out'),
+        format: 'png',
+        density: 144,
+      });
+
+      expect(summary.successful).toBe(1);
+      expect(summary.results[0]).toMatchObject({ width: 80, height: 40, contentFormat: 'svg' });
+    });
+
+    it('should verify natively encoded outputs before replacing the sources', async () => {
+      const inputPath = path.join(tempDir, 'photo.png');
+      await sharp({ create: { width: 16, height: 16, channels: 3, background: '#123456' } })
+        .png()
+        .toFile(inputPath);
+
+      const summary = await convertImages({
+        input: inputPath,
+        output: '',
+        format: 'bmp',
+        inPlace: true,
+      });
+
+      expect(summary.results[0]).toMatchObject({ success: true, source: { action: 'replaced' } });
+      expect(await fs.readdir(tempDir)).toEqual(['photo.bmp']);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp, matchesGlob } from '../src/glob';
+
+describe('glob', () => {
+  describe('globToRegExp', () => {
+    it('should keep * and ? within one path segment', () => {
+      expect(globToRegExp('*.png').test('a.png')).toBe(true);
+      expect(globToRegExp('*.png').test('dir/a.png')).toBe(false);
+      expect(globToRegExp('img?.jpg').test('img1.jpg')).toBe(true);
+      expect(globToRegExp('img?.jpg').test('img10.jpg')).toBe(false);
+    });
+
+    it('should match any number of directories with **', () => {
+      const regExp = globToRegExp('photos/**/*.jpg');
+      expect(regExp.test('photos/a.jpg')).toBe(true);
+      expect(regExp.test('photos/2024/06/a.jpg')).toBe(true);
+      expect(regExp.test('other/a.jpg')).toBe(false);
+    });
+
+    it('should support character classes and alternatives', () => {
+      expect(globToRegExp('shot[0-9].png').test('shot7.png')).toBe(true);
+      expect(globToRegExp('shot[!0-9].png').test('shot7.png')).toBe(false);
+      expect(globToRegExp('*.{png,jpg}').test('a.jpg')).toBe(true);
+      expect(globToRegExp('*.{png,jpg}').test('a.gif')).toBe(false);
+    });
+
+    it('should treat regular expression characters literally', () => {
+      expect(globToRegExp('a+b (1).png').test('a+b (1).png')).toBe(true);
+      expect(globToRegExp('a.png').test('abpng')).toBe(false);
+    });
+  });
+
+  describe('matchesGlob', () => {
+    it('should match patterns without a slash at any depth', () => {
+      expect(matchesGlob('a/b/c.gif', '*.gif')).toBe(true);
+      expect(matchesGlob('drafts', 'drafts/')).toBe(true);
+      expect(matchesGlob('a/drafts', 'drafts')).toBe(true);
+    });
+
+    it('should anchor patterns containing a slash', () => {
+      expect(matchesGlob('photos/a.png', 'photos/*.png')).toBe(true);
+      expect(matchesGlob('x/photos/a.png', 'photos/*.png')).toBe(false);
+      expect(matchesGlob('logo.png', '/logo.png')).toBe(true);
+      expect(matchesGlob('icons/logo.png', '/logo.png')).toBe(false);
+    });
+  });
+});
@@ -1,5 +1,91 @@
-import { describe, it, expect } from 'vitest';
-import { getFileExtension, isImageExtension } from '../src/imageProcessor';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { buffer as readAll } from 'stream/consumers';
+import sharp from 'sharp';
+import {
+  calculateOutputDimensions,
+  calculateTargetDimensions,
+  getFileExtension,
+  isImageExtension,
+  processImage,
+  processImageBuffer,
+  processImageStream,
+} from '../src/imageProcessor';
+
+/**
+ * Builds an animated GIF with solid-colored frames (0 red, 1 green, 2 blue, 3 white).
+ *
+ * sharp cannot create animations from scratch, so the GIF is written by hand
+ * with uncompressed LZW data: a clear code before every two pixels keeps the
+ * code size at 3 bits.
+ */
+function createAnimatedGif(
+  width: number,
+  height: number,
+  frameColors: number[],
+  delaysMs: number[],
+  loop: number
+): Buffer {
+  const palette = [255, 0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255];
+  const bytes: number[] = [...Buffer.from('GIF89a')];
+  const u16 = (value: number): void => {
+    bytes.push(value & 0xff, value >> 8);
+  };
+
+  u16(width);
+  u16(height);
+  bytes.push(0xf1, 0, 0, ...palette);
+  bytes.push(0x21, 0xff, 11, ...Buffer.from('NETSCAPE2.0'), 3, 1);
+  u16(loop);
+  bytes.push(0);
+
+  frameColors.forEach((color, index) => {
+    bytes.push(0x21, 0xf9, 4, 0);
+    u16(Math.round(delaysMs[index] / 10));
+    bytes.push(0, 0, 0x2c);
+    u16(0);
+    u16(0);
+    u16(width);
+    u16(height);
+    bytes.push(0, 2);
+
+    const codes: number[] = [];
+    for (let pixel = 0; pixel < width * height; pixel++) {
+      if (pixel % 2 === 0) {
+        codes.push(4);
+      }
+      codes.push(color);
+    }
+    codes.push(5);
+
+    const data: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+    for (const code of codes) {
+      buffer |= code << bits;
+      bits += 3;
+      while (bits >= 8) {
+        data.push(buffer & 0xff);
+        buffer >>= 8;
+        bits -= 8;
+      }
+    }
+    if (bits > 0) {
+      data.push(buffer);
+    }
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const block = data.slice(offset, offset + 255);
+      bytes.push(block.length, ...block);
+    }
+    bytes.push(0);
+  });
+
+  bytes.push(0x3b);
+  return Buffer.from(bytes);
+}
 
 describe('imageProcessor', () => {
   describe('getFileExtension', () => {
@@ -32,4 +118,292 @@ describe('imageProcessor', () => {
       expect(isImageExtension('')).toBe(false);
     });
   });
+
+  describe('calculateTargetDimensions', () => {
+    it('should fit inside the box by default', () => {
+      expect(
+        calculateTargetDimensions(1600, 800, { format: 'png', width: 400, height: 400 })
+      ).toEqual({ width: 400, height: 200 });
+    });
+
+    it('should produce the exact box for cover, contain and fill', () => {
+      for (const fit of ['cover', 'contain', 'fill'] as const) {
+        expect(
+          calculateTargetDimensions(1600, 800, { format: 'png', width: 400, height: 400, fit })
+        ).toEqual({ width: 400, height: 400 });
+      }
+    });
+
+    it('should cover the box for outside', () => {
+      expect(
+        calculateTargetDimensions(1600, 800, {
+          format: 'png',
+          width: 400,
+          height: 400,
+          fit: 'outside',
+        })
+      ).toEqual({ width: 800, height: 400 });
+    });
+
+    it('should scale proportionally when only width is given', () => {
+      expect(
+        calculateTargetDimensions(1600, 800, { format: 'png', width: 400, fit: 'cover' })
+      ).toEqual({ width: 400, height: 200 });
+    });
+  });
+
+  describe('calculateOutputDimensions', () => {
+    it('should keep the source size instead of enlarging', () => {
+      expect(calculateOutputDimensions(100, 50, { format: 'png', width: 200 })).toEqual({
+        width: 100,
+        height: 50,
+      });
+      expect(
+        calculateOutputDimensions(100, 50, { format: 'png', width: 200, allowUpscale: true })
+      ).toEqual({ width: 200, height: 100 });
+    });
+
+    it('should match the dimensions sharp produces', async () => {
+      const source = await sharp({
+        create: { width: 100, height: 50, channels: 3, background: '#336699' },
+      })
+        .png()
+        .toBuffer();
+      const boxes = [
+        [200, 200],
+        [80, 200],
+        [150, 60],
+        [60, 20],
+      ];
+
+      for (const fit of ['cover', 'contain', 'fill', 'inside', 'outside'] as const) {
+        for (const [width, height] of boxes) {
+          const options = { format: 'png' as const, width, height, fit };
+          const { info } = await processImageBuffer(source, options);
+          expect(calculateOutputDimensions(100, 50, options), `${fit} ${width}x${height}`).toEqual({
+            width: info.width,
+            height: info.height,
+          });
+        }
+      }
+    });
+  });
+
+  describe('processImage with quality search', () => {
+    let tempDir: string;
+    let sourcePath: string;
+
+    beforeAll(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-processor-'));
+      sourcePath = path.join(tempDir, 'noise.png');
+
+      // Noise compresses poorly, so quality has a large effect on size
+      const width = 200;
+      const height = 200;
+      const pixels = Buffer.alloc(width * height * 3);
+      for (let i = 0; i < pixels.length; i++) {
+        pixels[i] = (i * 7919) % 251;
+      }
+      await sharp(pixels, { raw: { width, height, channels: 3 } })
+        .png()
+        .toFile(sourcePath);
+    });
+
+    afterAll(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should lower the quality until the output fits', async () => {
+      const outputPath = path.join(tempDir, 'fit.jpeg');
+      const unbounded = await processImage(sourcePath, outputPath, { format: 'jpeg', quality: 90 });
+      const budget = Math.floor(unbounded.newSize! * 0.6);
+
+      const result = await processImage(sourcePath, outputPath, {
+        format: 'jpeg',
+        quality: 90,
+        maxSize: budget,
+      });
+      expect(result.success).toBe(true);
+      expect(result.newSize).toBeLessThanOrEqual(budget);
+      expect(result.quality).toBeLessThan(90);
+      expect(result.quality).toBeGreaterThanOrEqual(30);
+    });
+
+    it('should fail with a reason when the budget cannot be met', async () => {
+      const result = await processImage(sourcePath, path.join(tempDir, 'fail.jpeg'), {
+        format: 'jpeg',
+        maxSize: 100,
+        minQuality: 50,
+      });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('cannot fit in 100 bytes at minimum quality 50');
+    });
+
+    it('should pick the lowest quality reaching the target SSIM', async () => {
+      const loose = await processImage(sourcePath, path.join(tempDir, 'loose.webp'), {
+        format: 'webp',
+        quality: 95,
+        targetSsim: 0.8,
+      });
+      const strict = await processImage(sourcePath, path.join(tempDir, 'strict.webp'), {
+        format: 'webp',
+        quality: 95,
+        targetSsim: 0.92,
+      });
+      expect(loose.success && strict.success).toBe(true);
+      expect(loose.ssim).toBeGreaterThanOrEqual(0.8);
+      expect(strict.ssim).toBeGreaterThanOrEqual(0.92);
+      expect(loose.targetMet && strict.targetMet).toBe(true);
+      expect(strict.quality).toBeGreaterThanOrEqual(loose.quality!);
+    });
+
+    it('should search up to the highest quality and flag a missed SSIM target', async () => {
+      const result = await processImage(sourcePath, path.join(tempDir, 'missed.jpeg'), {
+        format: 'jpeg',
+        targetSsim: 0.99999,
+      });
+      expect(result).toMatchObject({ success: true, quality: 100, targetMet: false });
+      expect(result.ssim).toBeLessThan(0.99999);
+    });
+
+    it('should shrink the dimensions when allowed', async () => {
+      const outputPath = path.join(tempDir, 'shrink.jpeg');
+      const result = await processImage(sourcePath, outputPath, {
+        format: 'jpeg',
+        maxSize: 4096,
+        shrinkToFit: true,
+      });
+      expect(result.success).toBe(true);
+      expect(result.newSize).toBeLessThanOrEqual(4096);
+      const { width } = await sharp(outputPath).metadata();
+      expect(width).toBeLessThan(200);
+    });
+  });
+
+  describe('animated sources', () => {
+    let tempDir: string;
+    let gifPath: string;
+
+    beforeAll(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-animated-'));
+      gifPath = path.join(tempDir, 'anim.gif');
+      await fs.writeFile(gifPath, createAnimatedGif(40, 20, [0, 1, 2], [100, 200, 300], 2));
+    });
+
+    afterAll(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should keep every frame, delay and the loop count when converting to WebP', async () => {
+      const outputPath = path.join(tempDir, 'anim.webp');
+      const result = await processImage(gifPath, outputPath, { format: 'webp', width: 20 });
+      expect(result).toMatchObject({ success: true, width: 20, height: 10, frames: 3 });
+
+      // libvips reports the GIF repeat count as a number of plays, like WebP
+      const { loop } = await sharp(gifPath).metadata();
+      const metadata = await sharp(outputPath).metadata();
+      expect(metadata).toMatchObject({ pages: 3, delay: [100, 200, 300], loop });
+    });
+
+    it('should convert animated WebP back to GIF', async () => {
+      const webp = await processImageBuffer(await fs.readFile(gifPath), { format: 'webp' });
+      const { data, info } = await processImageBuffer(webp.data, { format: 'gif', width: 10 });
+      expect(info).toMatchObject({ width: 10, height: 5, frames: 3 });
+      expect(await sharp(data).metadata()).toMatchObject({ pages: 3, delay: [100, 200, 300] });
+    });
+
+    it('should write a still for formats without animation', async () => {
+      const outputPath = path.join(tempDir, 'anim.png');
+      const result = await processImage(gifPath, outputPath, { format: 'png' });
+      expect(result).toMatchObject({ success: true, width: 40, height: 20 });
+      expect(result.frames).toBeUndefined();
+      expect((await sharp(outputPath).metadata()).pages).toBeUndefined();
+    });
+
+    it('should extract a single frame', async () => {
+      const { data } = await processImageBuffer(await fs.readFile(gifPath), {
+        format: 'png',
+        frame: 2,
+      });
+      const pixel = await sharp(data).raw().toBuffer();
+      expect([...pixel.subarray(0, 3)]).toEqual([0, 0, 255]);
+
+      const result = await processImage(gifPath, path.join(tempDir, 'missing.png'), {
+        format: 'png',
+        frame: 3,
+      });
+      expect(result.error).toBe('Frame 3 does not exist (the source has 3 frames)');
+    });
+
+    it('should dump every frame as a numbered still', async () => {
+      const outputPath = path.join(tempDir, 'frames', 'anim.png');
+      await fs.mkdir(path.dirname(outputPath));
+      const result = await processImage(gifPath, outputPath, { format: 'png', dumpFrames: true });
+
+      expect(result.frameOutputs?.map((frame) => path.basename(frame.outputPath))).toEqual([
+        'anim-000.png',
+        'anim-001.png',
+        'anim-002.png',
+      ]);
+      const second = await sharp(path.join(tempDir, 'frames', 'anim-001.png'))
+        .raw()
+        .toBuffer();
+      expect([...second.subarray(0, 3)]).toEqual([0, 255, 0]);
+    });
+  });
+
+  describe('in-memory processing', () => {
+    let source: Buffer;
+
+    beforeAll(async () => {
+      source = await sharp({
+        create: { width: 300, height: 200, channels: 3, background: '#3366cc' },
+      })
+        .png()
+        .toBuffer();
+    });
+
+    it('should convert a buffer and report the output properties', async () => {
+      const { data, info } = await processImageBuffer(source, {
+        format: 'webp',
+        width: 150,
+        quality: 75,
+      });
+      const metadata = await sharp(data).metadata();
+      expect(metadata.format).toBe('webp');
+      expect(info).toMatchObject({
+        format: 'webp',
+        width: 150,
+        height: 100,
+        size: data.length,
+        originalSize: source.length,
+        originalWidth: 300,
+        originalHeight: 200,
+        quality: 75,
+      });
+    });
+
+    it('should convert a stream to a stream', async () => {
+      const { stream, info } = await processImageStream(Readable.from([source]), {
+        format: 'jpg',
+        height: 50,
+      });
+      const data = await readAll(stream);
+      expect(info.format).toBe('jpeg');
+      expect(info.size).toBe(data.length);
+      expect((await sharp(data).metadata()).width).toBe(75);
+    });
+
+    it('should reject input that is not an image', async () => {
+      await expect(
+        processImageBuffer(Buffer.from('not an image'), { format: 'png' })
+      ).rejects.toThrow();
+    });
+
+    it('should reject variants', async () => {
+      await expect(
+        processImageBuffer(source, { format: 'png', variants: { widths: [100] } })
+      ).rejects.toThrow('Variants are not supported');
+    });
+  });
 });
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { encodeBmp } from '../src/nativeEncoders';
+import { findValidatableFiles, getImageInfo, validateImageFile } from '../src/inspect';
+
+describe('inspect', () => {
+  let tempDir: string;
+  let photoPath: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-inspect-'));
+    photoPath = path.join(tempDir, 'photo.jpg');
+    await sharp({ create: { width: 60, height: 40, channels: 3, background: '#808080' } })
+      .withMetadata({ orientation: 6 })
+      .withExif({ IFD0: { Make: 'Cam', Copyright: 'ACME Corp' } })
+      .jpeg()
+      .toFile(photoPath);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('getImageInfo', () => {
+    it('should report dimensions after orientation and metadata', async () => {
+      const info = await getImageInfo(photoPath);
+      expect(info).toMatchObject({
+        format: 'jpeg',
+        width: 40,
+        height: 60,
+        colorSpace: 'srgb',
+        channels: 3,
+        hasAlpha: false,
+        orientation: 6,
+        frames: 1,
+        exif: { Make: 'Cam', Copyright: 'ACME Corp' },
+      });
+      expect(info.size).toBe((await fs.stat(photoPath)).size);
+    });
+
+    it('should report the alpha channel', async () => {
+      const pngPath = path.join(tempDir, 'alpha.png');
+      await sharp({
+        create: { width: 8, height: 8, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0.5 } },
+      })
+        .png()
+        .toFile(pngPath);
+      const info = await getImageInfo(pngPath);
+      expect(info).toMatchObject({ format: 'png', hasAlpha: true, channels: 4 });
+      expect(info.exif).toBeUndefined();
+    });
+
+    it('should throw for files that are not images', async () => {
+      const textPath = path.join(tempDir, 'notes.png');
+      await fs.writeFile(textPath, 'not an image');
+      await expect(getImageInfo(textPath)).rejects.toThrow();
+    });
+  });
+
+  describe('validateImageFile', () => {
+    it('should accept an intact image', async () => {
+      expect(await validateImageFile(photoPath)).toEqual({ path: photoPath, valid: true });
+    });
+
+    it('should reject a truncated image', async () => {
+      const truncatedPath = path.join(tempDir, 'truncated.jpg');
+      const data = await fs.readFile(photoPath);
+      await fs.writeFile(truncatedPath, data.subarray(0, Math.floor(data.length / 2)));
+      const result = await validateImageFile(truncatedPath);
+      expect(result.valid).toBe(false);
+      expect(result.error).toBeTruthy();
+    });
+  });
+
+  describe('findValidatableFiles', () => {
+    it('should find the BMP and ICO files the native encoders write', async () => {
+      const dir = path.join(tempDir, 'bitmaps');
+      await fs.mkdir(path.join(dir, 'nested'), { recursive: true });
+      const bmp = encodeBmp(Buffer.alloc(12), 2, 2, 3);
+      await fs.writeFile(path.join(dir, 'good.bmp'), bmp);
+      await fs.writeFile(path.join(dir, 'nested', 'cut.bmp'), bmp.subarray(0, 60));
+      await fs.writeFile(path.join(dir, 'notes.txt'), 'not an image');
+      await fs.copyFile(photoPath, path.join(dir, 'photo.jpg'));
+
+      expect((await findValidatableFiles(dir, false)).sort()).toEqual([
+        path.join(dir, 'good.bmp'),
+        path.join(dir, 'photo.jpg'),
+      ]);
+      const files = await findValidatableFiles(dir, true);
+      const results = await Promise.all(files.map((file) => validateImageFile(file)));
+      expect(results.filter((result) => !result.valid).map((result) => result.path)).toEqual([
+        path.join(dir, 'nested', 'cut.bmp'),
+      ]);
+    });
+  });
+});
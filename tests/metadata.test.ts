@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { readCopyrightTags, readExifTags, readIccDescription } from '../src/metadata';
+
+/**
+ * Creates a small JPEG with the given IFD0 EXIF tags and returns its raw EXIF block.
+ */
+async function createExif(tags: Record<string, string>): Promise<Buffer> {
+  const image = await sharp({ create: { width: 4, height: 4, channels: 3, background: '#000' } })
+    .withExif({ IFD0: tags })
+    .jpeg()
+    .toBuffer();
+  const { exif } = await sharp(image).metadata();
+  if (!exif) {
+    throw new Error('Expected EXIF data');
+  }
+  return exif;
+}
+
+describe('metadata', () => {
+  describe('readCopyrightTags', () => {
+    it('should read the Artist and Copyright tags', async () => {
+      const exif = await createExif({ Copyright: 'ACME Corp', Artist: 'Jane Doe', Make: 'Cam' });
+      expect(readCopyrightTags(exif)).toEqual({ Copyright: 'ACME Corp', Artist: 'Jane Doe' });
+    });
+
+    it('should read short values stored inline', async () => {
+      const exif = await createExif({ Artist: 'Jo' });
+      expect(readCopyrightTags(exif)).toEqual({ Artist: 'Jo' });
+    });
+
+    it('should return no tags for malformed EXIF data', () => {
+      expect(readCopyrightTags(Buffer.from('not exif'))).toEqual({});
+      expect(readCopyrightTags(Buffer.from('Exif\0\0II*\0\xff\xff\xff\xff', 'latin1'))).toEqual({});
+      expect(readCopyrightTags(Buffer.alloc(0))).toEqual({});
+    });
+  });
+
+  describe('readExifTags', () => {
+    it('should read descriptive IFD0 tags', async () => {
+      const exif = await createExif({ Make: 'Cam', Model: 'X100', Copyright: 'ACME Corp' });
+      expect(readExifTags(exif)).toEqual({ Make: 'Cam', Model: 'X100', Copyright: 'ACME Corp' });
+    });
+  });
+
+  describe('readIccDescription', () => {
+    it('should read the description of an embedded profile', async () => {
+      const image = await sharp({
+        create: { width: 4, height: 4, channels: 3, background: '#000' },
+      })
+        .withIccProfile('srgb')
+        .jpeg()
+        .toBuffer();
+      const { icc } = await sharp(image).metadata();
+      expect(readIccDescription(icc!)).toMatch(/srgb/i);
+    });
+
+    it('should return undefined for malformed profiles', () => {
+      expect(readIccDescription(Buffer.alloc(16))).toBeUndefined();
+    });
+  });
+});
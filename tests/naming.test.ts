@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatTemplateDate,
+  getTemplatePlaceholders,
+  renderOutputTemplate,
+  validateOutputTemplate,
+} from '../src/naming';
+
+const fields = {
+  dir: 'photos/2024',
+  name: 'beach',
+  format: 'webp',
+  width: 640,
+  height: 480,
+  hash: '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+  date: '2024-06-01',
+};
+
+describe('naming', () => {
+  describe('getTemplatePlaceholders', () => {
+    it('should list placeholders in order', () => {
+      expect(getTemplatePlaceholders('{dir}/{name}-{hash:8}.{ext}')).toEqual([
+        'dir',
+        'name',
+        'hash',
+        'ext',
+      ]);
+    });
+
+    it('should reject unknown placeholders and invalid lengths', () => {
+      expect(() => getTemplatePlaceholders('{dir}/{base}.{ext}')).toThrow(
+        'Unknown output template placeholder: {base}'
+      );
+      expect(() => getTemplatePlaceholders('{hash:0}')).toThrow('Invalid output template');
+      expect(() => getTemplatePlaceholders('{name:3}')).toThrow('Invalid output template');
+    });
+  });
+
+  describe('validateOutputTemplate', () => {
+    it('should require a placeholder that tells sources apart', () => {
+      expect(() => validateOutputTemplate('{dir}/image.{ext}')).toThrow('{name} or {hash}');
+      expect(() => validateOutputTemplate('{hash}.{ext}')).not.toThrow();
+    });
+
+    it('should reject dimensions with variants and paths leaving the output directory', () => {
+      expect(() => validateOutputTemplate('{name}-{width}.{ext}', true)).toThrow('variants');
+      expect(() => validateOutputTemplate('../{name}.{ext}')).toThrow('inside the output');
+    });
+  });
+
+  describe('renderOutputTemplate', () => {
+    it('should substitute every placeholder', () => {
+      expect(
+        renderOutputTemplate('{format}/{date}/{dir}/{name}-{width}x{height}.{hash:8}.{ext}', fields)
+      ).toBe('webp/2024-06-01/photos/2024/beach-640x480.01234567.webp');
+    });
+
+    it('should default {hash} to 8 characters', () => {
+      expect(renderOutputTemplate('{hash}.{ext}', fields)).toBe('01234567.webp');
+    });
+
+    it('should drop empty directory segments', () => {
+      expect(renderOutputTemplate('{dir}/{name}.{ext}', { ...fields, dir: '' })).toBe('beach.webp');
+    });
+
+    it('should fail when a value is missing', () => {
+      expect(() =>
+        renderOutputTemplate('{name}-{width}.{ext}', { ...fields, width: undefined })
+      ).toThrow('No value for output template placeholder {width}');
+    });
+  });
+
+  describe('formatTemplateDate', () => {
+    it('should format as YYYY-MM-DD', () => {
+      expect(formatTemplateDate(new Date(2024, 0, 5))).toBe('2024-01-05');
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { planOutputPaths, removePartialOutputs, resolveOutputPath } from '../src/outputPaths';
+import { convertImages } from '../src/index';
+import type { CliOptions } from '../src/types';
+
+describe('outputPaths', () => {
+  let tempDir: string;
+  let inputDir: string;
+  let outputDir: string;
+
+  const createImage = async (relativePath: string, width = 400, height = 200): Promise<string> => {
+    const filePath = path.join(inputDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await sharp({ create: { width, height, channels: 3, background: '#996633' } }).toFile(filePath);
+    return filePath;
+  };
+
+  const options = (overrides: Partial<CliOptions> = {}): CliOptions => ({
+    input: inputDir,
+    output: outputDir,
+    format: 'webp',
+    concurrency: 1,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-paths-'));
+    inputDir = path.join(tempDir, 'in');
+    outputDir = path.join(tempDir, 'out');
+    await fs.mkdir(inputDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('resolveOutputPath', () => {
+    it('should mirror the input layout by default', async () => {
+      const inputPath = path.join(inputDir, 'a', 'photo.png');
+      expect(await resolveOutputPath(inputPath, inputDir, outputDir, options())).toBe(
+        path.join(outputDir, 'a', 'photo.webp')
+      );
+      expect(
+        await resolveOutputPath(inputPath, inputDir, outputDir, options({ flatten: true }))
+      ).toBe(path.join(outputDir, 'photo.webp'));
+    });
+
+    it('should fill in planned dimensions and the content hash', async () => {
+      const inputPath = await createImage('photo.png', 400, 200);
+      const outputPath = await resolveOutputPath(
+        inputPath,
+        inputDir,
+        outputDir,
+        options({ width: 100, outputTemplate: '{name}-{width}x{height}.{hash:6}.{ext}' })
+      );
+      expect(path.basename(outputPath)).toMatch(/^photo-100x50\.[0-9a-f]{6}\.webp$/);
+    });
+  });
+
+  describe('planOutputPaths', () => {
+    it('should fail on collisions before anything is written', async () => {
+      const inputs = [await createImage('photo.png'), await createImage('photo.jpg')];
+      await expect(planOutputPaths(inputs, inputDir, outputDir, options())).rejects.toThrow(
+        'Output path collision: photo.jpg and photo.png both write photo.webp'
+      );
+    });
+
+    it('should detect collisions across flattened directories', async () => {
+      const inputs = [await createImage('a/logo.png'), await createImage('b/LOGO.png')];
+      await expect(
+        planOutputPaths(inputs, inputDir, outputDir, options({ flatten: true }))
+      ).rejects.toThrow('Output path collision');
+    });
+
+    it('should add numbered suffixes with the rename policy', async () => {
+      const inputs = [
+        await createImage('photo.png'),
+        await createImage('photo.jpg'),
+        await createImage('photo.tiff'),
+      ];
+      const planned = await planOutputPaths(
+        inputs,
+        inputDir,
+        outputDir,
+        options({ onCollision: 'rename' })
+      );
+      expect(planned.map((entry) => path.basename(entry.outputPath ?? ''))).toEqual([
+        'photo-1.webp',
+        'photo.webp',
+        'photo-2.webp',
+      ]);
+    });
+
+    it('should detect collisions between variant outputs', async () => {
+      const inputs = [await createImage('hero.png'), await createImage('hero.jpg')];
+      await expect(
+        planOutputPaths(
+          inputs,
+          inputDir,
+          outputDir,
+          options({ variants: { widths: [320], formats: ['avif', 'webp'] } })
+        )
+      ).rejects.toThrow('hero.jpg and hero.png both write hero.webp');
+    });
+
+    it('should report sources whose name cannot be resolved', async () => {
+      const broken = path.join(inputDir, 'broken.png');
+      await fs.writeFile(broken, 'not an image');
+      const planned = await planOutputPaths(
+        [broken],
+        inputDir,
+        outputDir,
+        options({ outputTemplate: '{name}-{width}.{ext}' })
+      );
+      expect(planned[0].outputPath).toBeUndefined();
+      expect(planned[0].error).toBeTruthy();
+    });
+  });
+
+  describe('convertImages with an output template', () => {
+    it('should write outputs under the templated names', async () => {
+      await createImage('nested/photo.png', 400, 200);
+      const summary = await convertImages(
+        options({
+          recursive: true,
+          width: 200,
+          outputTemplate: '{format}/{dir}/{name}-{width}x{height}.{ext}',
+        })
+      );
+      expect(summary.successful).toBe(1);
+      await expect(
+        fs.access(path.join(outputDir, 'webp', 'nested', 'photo-200x100.webp'))
+      ).resolves.toBeUndefined();
+    });
+
+    it('should not create the output directory when names collide', async () => {
+      await createImage('photo.png');
+      await createImage('photo.jpg');
+      await expect(convertImages(options())).rejects.toThrow('Output path collision');
+      await expect(fs.access(outputDir)).rejects.toThrow();
+    });
+  });
+
+  describe('removePartialOutputs', () => {
+    const write = (name: string): Promise<void> => fs.writeFile(path.join(outputDir, name), 'x');
+    const age = async (name: string): Promise<void> => {
+      const old = new Date(Date.now() - 60_000);
+      await fs.utimes(path.join(outputDir, name), old, old);
+    };
+
+    it('should remove only the listed outputs written since the conversion started', async () => {
+      await fs.mkdir(outputDir);
+      await write('hero-320w.webp');
+      await age('hero-320w.webp');
+      const since = Date.now() - 1000;
+      for (const name of [
+        'hero-320w.avif',
+        'hero-640w.webp',
+        `hero-640w.avif.${process.pid}.tmp`,
+        'hero.html',
+        'hero-1.webp',
+        'hero-1280w.webp',
+        'hero-000.png',
+        'heroic.webp',
+      ]) {
+        await write(name);
+      }
+
+      const removed = await removePartialOutputs(
+        path.join(outputDir, 'hero.webp'),
+        {
+          format: 'webp',
+          variants: { widths: [320, 640], formats: ['avif', 'webp'] },
+          variantManifest: 'html',
+        },
+        since
+      );
+
+      expect(removed.map((filePath) => path.basename(filePath)).sort()).toEqual([
+        'hero-320w.avif',
+        `hero-640w.avif.${process.pid}.tmp`,
+        'hero-640w.webp',
+        'hero.html',
+      ]);
+      expect((await fs.readdir(outputDir)).sort()).toEqual([
+        'hero-000.png',
+        'hero-1.webp',
+        'hero-1280w.webp',
+        'hero-320w.webp',
+        'heroic.webp',
+      ]);
+    });
+
+    it('should remove the frame stills up to the first missing one', async () => {
+      await fs.mkdir(outputDir);
+      for (const name of ['anim-000.png', 'anim-001.png', `anim-002.png.${process.pid}.tmp`]) {
+        await write(name);
+      }
+      await write('anim-004.png');
+
+      const removed = await removePartialOutputs(
+        path.join(outputDir, 'anim.png'),
+        { format: 'png', dumpFrames: true },
+        Date.now() - 1000
+      );
+
+      expect(removed.map((filePath) => path.basename(filePath))).toEqual([
+        'anim-000.png',
+        'anim-001.png',
+        `anim-002.png.${process.pid}.tmp`,
+      ]);
+      expect(await fs.readdir(outputDir)).toEqual(['anim-004.png']);
+    });
+
+    it('should keep the source an in-place output replaced', async () => {
+      await fs.mkdir(outputDir);
+      const sourcePath = path.join(outputDir, 'hero.png');
+      await fs.writeFile(sourcePath, 'converted');
+
+      const removed = await removePartialOutputs(
+        sourcePath,
+        { format: 'png' },
+        Date.now() - 1000,
+        sourcePath
+      );
+
+      expect(removed).toEqual([]);
+      expect(await fs.readFile(sourcePath, 'utf-8')).toBe('converted');
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { PipelineError, applyPipeline, resolvePipeline } from '../src/pipeline';
+import { processImage } from '../src/imageProcessor';
+
+describe('resolvePipeline', () => {
+  it('should accept valid operations, including aliases', () => {
+    const steps = [
+      { op: 'rotate', angle: 90 },
+      { op: 'extract', left: 0, top: 0, width: 10, height: 10 },
+      { op: 'resize', width: 100, fit: 'cover', position: 'attention' },
+      { op: 'modulate', brightness: 1.2, hue: 30 },
+      { op: 'pad', top: 4, background: '#fff' },
+      { op: 'grayscale' },
+    ];
+    expect(resolvePipeline(steps)).toEqual(steps);
+  });
+
+  it('should expand named pipelines in place', () => {
+    const pipelines = {
+      base: [{ op: 'normalize' }, { op: 'sharpen' }],
+      thumbnail: ['base', { op: 'resize', width: 100 }],
+    };
+    expect(resolvePipeline([{ op: 'flip' }, 'thumbnail'], pipelines)).toEqual([
+      { op: 'flip' },
+      { op: 'normalize' },
+      { op: 'sharpen' },
+      { op: 'resize', width: 100 },
+    ]);
+  });
+
+  it('should reject invalid steps with their location', () => {
+    expect(() => resolvePipeline({ op: 'flip' })).toThrow('pipeline: expected an array of steps');
+    expect(() => resolvePipeline([{ op: 'flip' }, { op: 'sepia' }])).toThrow(
+      'pipeline[1]: unknown operation "sepia"'
+    );
+    expect(() => resolvePipeline([42])).toThrow(
+      'pipeline[0]: expected an operation object or a pipeline name'
+    );
+    expect(() => resolvePipeline([{ op: 'blur', sigma: 0 }])).toThrow(
+      'pipeline[0] (blur): sigma: expected a number between 0.3 and 1000, got 0'
+    );
+    expect(() => resolvePipeline([{ op: 'crop', left: 0, top: 0, width: 10 }])).toThrow(
+      'pipeline[0] (crop): missing height'
+    );
+    expect(() => resolvePipeline([{ op: 'resize', fit: 'cover' }])).toThrow(
+      'pipeline[0] (resize): set at least one of width, height'
+    );
+    expect(() => resolvePipeline([{ op: 'grayscale', amount: 1 }])).toThrow(
+      'pipeline[0] (grayscale): amount: not a grayscale parameter (it takes none)'
+    );
+    expect(() =>
+      resolvePipeline(['thumbnail'], { thumbnail: [{ op: 'resize', width: -1 }] })
+    ).toThrow('pipelines.thumbnail[0] (resize): width: expected an integer >= 1, got -1');
+  });
+
+  it('should reject unknown and self-referencing pipeline names', () => {
+    expect(() => resolvePipeline(['missing'], { thumbnail: [] })).toThrow(
+      'pipeline[0]: unknown pipeline "missing" (defined: thumbnail)'
+    );
+    expect(() => resolvePipeline(['a'], { a: ['b'], b: ['a'] })).toThrow(
+      'pipelines.b[0]: pipeline "a" refers to itself (a → b → a)'
+    );
+  });
+
+  it('should throw PipelineError with the step and operation', () => {
+    try {
+      resolvePipeline([{ op: 'gamma', gamma: 5 }]);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(PipelineError);
+      expect((error as PipelineError).step).toBe('pipeline[0]');
+      expect((error as PipelineError).op).toBe('gamma');
+    }
+  });
+});
+
+describe('applyPipeline', () => {
+  let tempDir: string;
+  let inputPath: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-pipeline-'));
+    inputPath = path.join(tempDir, 'input.png');
+    // Left half red, right half blue
+    await sharp({
+      create: { width: 400, height: 200, channels: 3, background: { r: 255, g: 0, b: 0 } },
+    })
+      .composite([
+        {
+          input: {
+            create: { width: 200, height: 200, channels: 3, background: { r: 0, g: 0, b: 255 } },
+          },
+          left: 200,
+          top: 0,
+        },
+      ])
+      .png()
+      .toFile(inputPath);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should run operations in the listed order', async () => {
+    // Cropping the left half before mirroring keeps the red; mirroring first moves blue there
+    const cropFirst = await applyPipeline(sharp(inputPath), [
+      { op: 'crop', left: 0, top: 0, width: 200, height: 200 },
+      { op: 'flop' },
+    ]);
+    const flopFirst = await applyPipeline(sharp(inputPath), [
+      { op: 'flop' },
+      { op: 'crop', left: 0, top: 0, width: 200, height: 200 },
+    ]);
+
+    const cropFirstStats = await cropFirst.stats();
+    const flopFirstStats = await flopFirst.stats();
+    expect(cropFirstStats.channels[0].min).toBe(255);
+    expect(cropFirstStats.channels[2].max).toBe(0);
+    expect(flopFirstStats.channels[0].max).toBe(0);
+    expect(flopFirstStats.channels[2].min).toBe(255);
+  });
+
+  it('should chain geometry changes', async () => {
+    const result = await applyPipeline(sharp(inputPath), [
+      { op: 'resize', width: 100 },
+      { op: 'extend', top: 5, bottom: 5, left: 10, right: 10, background: '#00ff00' },
+      { op: 'flop' },
+    ]);
+    const { data, info } = await result.raw().toBuffer({ resolveWithObject: true });
+
+    expect(info.width).toBe(120);
+    expect(info.height).toBe(60);
+    // Flopped: blue is now on the left, after the green border
+    const pixel = (x: number, y: number): number[] => {
+      const offset = (y * info.width + x) * info.channels;
+      return [data[offset], data[offset + 1], data[offset + 2]];
+    };
+    expect(pixel(0, 30)).toEqual([0, 255, 0]);
+    expect(pixel(20, 30)).toEqual([0, 0, 255]);
+    expect(pixel(100, 30)).toEqual([255, 0, 0]);
+  });
+
+  it('should report runtime failures with the step', async () => {
+    await expect(
+      applyPipeline(sharp(inputPath), [
+        { op: 'grayscale' },
+        { op: 'crop', left: 300, top: 0, width: 200, height: 100 },
+      ])
+    ).rejects.toThrow('pipeline[1] (crop): region 200x100 at 300,0 is outside the 400x200 image');
+  });
+
+  it('should run the pipeline before the resize options', async () => {
+    const outputPath = path.join(tempDir, 'output.png');
+    const result = await processImage(inputPath, outputPath, {
+      format: 'png',
+      width: 50,
+      pipeline: [{ op: 'crop', left: 0, top: 0, width: 200, height: 200 }, { op: 'grayscale' }],
+    });
+
+    expect(result.success).toBe(true);
+    const metadata = await sharp(outputPath).metadata();
+    expect(metadata.width).toBe(50);
+    expect(metadata.height).toBe(50);
+    const stats = await sharp(outputPath).stats();
+    expect(stats.isOpaque).toBe(true);
+    expect(Math.abs(stats.channels[0].mean - stats.channels[2].mean)).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { buildPlan, formatPlan, getPlanAction } from '../src/plan';
+import { convertImages } from '../src/index';
+import type { CliOptions } from '../src/types';
+
+describe('plan', () => {
+  let tempDir: string;
+  let inputDir: string;
+  let outputDir: string;
+
+  const createImage = async (relativePath: string, width: number, height: number) => {
+    const filePath = path.join(inputDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await sharp({ create: { width, height, channels: 3, background: '#336699' } })
+      .jpeg()
+      .toFile(filePath);
+  };
+
+  const listFiles = async (dirPath: string): Promise<string[]> =>
+    (await fs.readdir(dirPath, { recursive: true })).map(String).sort();
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-plan-'));
+    inputDir = path.join(tempDir, 'in');
+    outputDir = path.join(tempDir, 'out');
+    await createImage('photo.jpg', 1200, 800);
+    await createImage('nested/small.jpg', 300, 200);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('convertImages with dryRun', () => {
+    it('should plan every file without writing anything', async () => {
+      const options: CliOptions = {
+        input: inputDir,
+        output: outputDir,
+        format: 'webp',
+        maxWidth: 600,
+        recursive: true,
+        dryRun: true,
+      };
+
+      const summary = await convertImages(options);
+
+      expect(summary.dryRun).toBe(true);
+      expect(summary.successful).toBe(2);
+      const photo = summary.results.find((result) => result.inputPath.endsWith('photo.jpg'));
+      expect(photo).toMatchObject({
+        outputPath: path.join(outputDir, 'photo.webp'),
+        originalWidth: 1200,
+        originalHeight: 800,
+        width: 600,
+        height: 400,
+        plan: { action: 'create', format: 'webp' },
+      });
+      await expect(fs.access(outputDir)).rejects.toThrow();
+    });
+
+    it('should list every variant with its planned dimensions', async () => {
+      const summary = await convertImages({
+        input: path.join(inputDir, 'photo.jpg'),
+        output: path.join(outputDir, 'photo.jpg'),
+        format: 'jpeg',
+        variants: { widths: [320, 640, 2000], formats: ['webp'] },
+        variantManifest: 'json',
+        dryRun: true,
+      });
+
+      expect(summary.results[0].plan?.files).toEqual([
+        {
+          outputPath: path.join(outputDir, 'photo-320w.webp'),
+          width: 320,
+          height: 213,
+          exists: false,
+        },
+        {
+          outputPath: path.join(outputDir, 'photo-640w.webp'),
+          width: 640,
+          height: 427,
+          exists: false,
+        },
+        { outputPath: path.join(outputDir, 'photo.json'), exists: false },
+      ]);
+    });
+
+    it('should report existing outputs as failures or overwrites', async () => {
+      await fs.mkdir(outputDir);
+      await fs.writeFile(path.join(outputDir, 'photo.webp'), 'old');
+      const options: CliOptions = {
+        input: inputDir,
+        output: outputDir,
+        format: 'webp',
+        dryRun: true,
+      };
+
+      const failing = await convertImages(options);
+      expect(failing.failed).toBe(1);
+      expect(failing.results[0].error).toContain('Output file already exists');
+      expect(failing.results[0].plan?.action).toBe('overwrite');
+
+      const overwriting = await convertImages({ ...options, overwrite: true });
+      expect(overwriting.failed).toBe(0);
+      expect(getPlanAction(overwriting.results[0])).toBe('overwrite');
+      expect(await fs.readFile(path.join(outputDir, 'photo.webp'), 'utf-8')).toBe('old');
+      expect(await listFiles(outputDir)).toEqual(['photo.webp']);
+    });
+
+    it('should mark sources renamed to avoid a collision', async () => {
+      await createImage('nested/photo.jpg', 100, 100);
+
+      const summary = await convertImages({
+        input: inputDir,
+        output: outputDir,
+        format: 'webp',
+        recursive: true,
+        flatten: true,
+        onCollision: 'rename',
+        dryRun: true,
+      });
+
+      const renamed = summary.results.find((result) => result.plan?.renamedFrom !== undefined);
+      expect(renamed?.inputPath).toBe(path.join(inputDir, 'photo.jpg'));
+      expect(renamed?.plan?.renamedFrom).toBe(path.join(outputDir, 'photo.webp'));
+      expect(renamed?.outputPath).toBe(path.join(outputDir, 'photo-1.webp'));
+    });
+
+    it('should skip unchanged sources in incremental mode', async () => {
+      const options: CliOptions = {
+        input: inputDir,
+        output: outputDir,
+        format: 'webp',
+        recursive: true,
+        incremental: true,
+      };
+      await convertImages(options);
+      const before = await listFiles(outputDir);
+      await createImage('added.jpg', 50, 50);
+
+      const summary = await convertImages({ ...options, dryRun: true });
+
+      expect(summary.results.map(getPlanAction).sort()).toEqual(['create', 'skip', 'skip']);
+      expect(await listFiles(outputDir)).toEqual(before);
+    });
+  });
+
+  describe('formatPlan', () => {
+    it('should count each action and print one line per source', async () => {
+      await fs.mkdir(outputDir);
+      await fs.writeFile(path.join(outputDir, 'photo.webp'), 'old');
+
+      const summary = await convertImages({
+        input: inputDir,
+        output: outputDir,
+        format: 'webp',
+        recursive: true,
+        dryRun: true,
+      });
+
+      expect(buildPlan(summary).totals).toEqual({
+        total: 2,
+        create: 1,
+        overwrite: 0,
+        skip: 0,
+        filter: 0,
+        fail: 1,
+      });
+      const text = formatPlan(summary, 'text');
+      expect(text).toContain(
+        `create     ${path.join(inputDir, 'nested', 'small.jpg')} → ${path.join(outputDir, 'nested', 'small.webp')} (300x200 → 300x200)`
+      );
+      expect(text).toContain(
+        `fail       ${path.join(inputDir, 'photo.jpg')}: Output file already exists`
+      );
+      expect(text).toContain(
+        'Plan: 2 files: 1 to create, 0 to overwrite, 0 unchanged, 0 filtered, 1 failing'
+      );
+      expect(JSON.parse(formatPlan(summary, 'json')).files).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { rmSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { createProgressTracker } from '../src/progress';
+import { convertImages } from '../src/index';
+import type { CliOptions, ProgressEvent } from '../src/types';
+
+describe('progress', () => {
+  describe('createProgressTracker', () => {
+    it('should count files and bytes as they finish', () => {
+      const events: ProgressEvent[] = [];
+      const tracker = createProgressTracker(3, (event) => events.push(event));
+
+      tracker.start();
+      tracker.fileStarted('a.jpg', 'a.webp');
+      tracker.fileStarted('b.jpg', 'b.webp');
+      tracker.fileFinished({
+        inputPath: 'a.jpg',
+        outputPath: 'a.webp',
+        success: true,
+        originalSize: 1000,
+        newSize: 400,
+      });
+      tracker.fileFinished({ inputPath: 'b.jpg', outputPath: 'b.webp', success: false });
+
+      expect(events.map((event) => event.type)).toEqual([
+        'start',
+        'file-start',
+        'file-start',
+        'file-done',
+        'file-failed',
+      ]);
+      expect(events[2].stats).toMatchObject({ total: 3, completed: 0, inFlight: 2 });
+      expect(events[2].stats.etaMs).toBeUndefined();
+      expect(events[4].stats).toMatchObject({
+        completed: 2,
+        successful: 1,
+        failed: 1,
+        inFlight: 0,
+        bytesIn: 1000,
+        bytesOut: 400,
+      });
+      expect(events[4].stats.etaMs).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  describe('convertImages with progress and cancellation', () => {
+    let tempDir: string;
+    let options: CliOptions;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-progress-'));
+      const inputDir = path.join(tempDir, 'in');
+      await fs.mkdir(inputDir);
+      for (const name of ['a.png', 'b.png', 'c.png', 'd.png']) {
+        await sharp({ create: { width: 64, height: 64, channels: 3, background: '#123456' } })
+          .png()
+          .toFile(path.join(inputDir, name));
+      }
+      options = {
+        input: inputDir,
+        output: path.join(tempDir, 'out'),
+        format: 'webp',
+        concurrency: 1,
+      };
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should report every file', async () => {
+      const events: ProgressEvent[] = [];
+
+      const summary = await convertImages(options, { onProgress: (event) => events.push(event) });
+
+      expect(summary.successful).toBe(4);
+      expect(events.filter((event) => event.type === 'file-done')).toHaveLength(4);
+      const last = events[events.length - 1];
+      expect(last.stats).toMatchObject({ total: 4, completed: 4, successful: 4 });
+      expect(last.stats.bytesOut).toBe(
+        summary.results.reduce((sum, r) => sum + (r.newSize ?? 0), 0)
+      );
+    });
+
+    it('should finish the files in flight and leave out the rest when aborted', async () => {
+      const controller = new AbortController();
+
+      const summary = await convertImages(options, {
+        signal: controller.signal,
+        onProgress: (event) => {
+          if (event.type === 'file-done' && event.stats.completed === 2) {
+            controller.abort();
+          }
+        },
+      });
+
+      expect(summary.total).toBe(2);
+      expect(summary.successful).toBe(2);
+      expect(summary.cancelled).toBe(2);
+      expect(await fs.readdir(options.output)).toHaveLength(2);
+    });
+
+    it('should fail a source removed during the run without stopping the others', async () => {
+      const events: ProgressEvent[] = [];
+
+      const summary = await convertImages(
+        { ...options, incremental: true },
+        {
+          onProgress: (event) => {
+            events.push(event);
+            if (event.type === 'file-done' && event.stats.completed === 1) {
+              rmSync(path.join(options.input, 'c.png'));
+            }
+          },
+        }
+      );
+
+      expect(summary).toMatchObject({ total: 4, successful: 3, failed: 1 });
+      expect(summary.results[2].error).toContain('ENOENT');
+      expect(events[events.length - 1].stats).toMatchObject({ completed: 4, failed: 1 });
+    });
+
+    it('should not convert anything when aborted before starting', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const summary = await convertImages(
+        {
+          ...options,
+          input: path.join(options.input, 'a.png'),
+          output: path.join(tempDir, 'a.webp'),
+        },
+        { signal: controller.signal }
+      );
+
+      expect(summary).toMatchObject({ total: 0, cancelled: 1 });
+      await expect(fs.access(path.join(tempDir, 'a.webp'))).rejects.toThrow();
+    });
+  });
+});
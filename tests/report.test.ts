@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { buildReport, formatReport, getResultStatus, isReportFormat } from '../src/report';
+import type { ProcessingSummary } from '../src/types';
+
+const summary: ProcessingSummary = {
+  total: 4,
+  successful: 1,
+  skipped: 1,
+  filtered: 1,
+  failed: 1,
+  durationMs: 1500,
+  results: [
+    {
+      inputPath: 'in/a.png',
+      outputPath: 'out/a.webp',
+      success: true,
+      originalSize: 1000,
+      newSize: 250,
+      originalWidth: 800,
+      originalHeight: 600,
+      width: 400,
+      height: 300,
+      durationMs: 120,
+    },
+    { inputPath: 'in/b.png', outputPath: 'out/b.webp', success: true, skipped: true },
+    {
+      inputPath: 'in/c, "odd".png',
+      outputPath: 'out/c.webp',
+      success: false,
+      error: 'Input file is <corrupt> & unreadable',
+    },
+    {
+      inputPath: 'in/d.png',
+      outputPath: 'out/d.webp',
+      success: true,
+      filtered: true,
+      filterReason: 'source width 20px is below 100px',
+    },
+  ],
+};
+
+describe('report', () => {
+  describe('isReportFormat', () => {
+    it('should accept supported formats', () => {
+      expect(isReportFormat('json')).toBe(true);
+      expect(isReportFormat('csv')).toBe(true);
+      expect(isReportFormat('junit')).toBe(true);
+    });
+
+    it('should reject unsupported formats', () => {
+      expect(isReportFormat('xml')).toBe(false);
+    });
+  });
+
+  describe('getResultStatus', () => {
+    it('should classify results', () => {
+      expect(summary.results.map(getResultStatus)).toEqual([
+        'converted',
+        'skipped',
+        'failed',
+        'filtered',
+      ]);
+    });
+  });
+
+  describe('buildReport', () => {
+    it('should compute per-file compression ratios', () => {
+      const report = buildReport(summary);
+      expect(report.files[0]).toMatchObject({
+        status: 'converted',
+        originalWidth: 800,
+        width: 400,
+        compressionRatio: 0.25,
+      });
+      expect(report.files[1].compressionRatio).toBeNull();
+    });
+
+    it('should aggregate totals over converted files', () => {
+      expect(buildReport(summary).totals).toEqual({
+        total: 4,
+        converted: 1,
+        skipped: 1,
+        filtered: 1,
+        failed: 1,
+        extensionMismatches: 0,
+        targetsMissed: 0,
+        originalBytes: 1000,
+        newBytes: 250,
+        bytesSaved: 750,
+        compressionRatio: 0.25,
+        durationMs: 1500,
+      });
+    });
+
+    it('should flag and count missed SSIM targets', () => {
+      const missed = { inputPath: 'in/e.png', outputPath: 'out/e.webp', success: true };
+      const report = buildReport({
+        ...summary,
+        results: [
+          { ...missed, quality: 100, ssim: 0.9512, targetMet: false },
+          { ...missed, quality: 72, ssim: 0.9831, targetMet: true },
+        ],
+      });
+      expect(report.files[0]).toMatchObject({ quality: 100, ssim: 0.9512, targetMet: false });
+      expect(report.files[1].targetMet).toBe(true);
+      expect(report.totals.targetsMissed).toBe(1);
+    });
+  });
+
+  describe('formatReport', () => {
+    it('should produce parseable JSON', () => {
+      const parsed = JSON.parse(formatReport(summary, 'json'));
+      expect(parsed.files).toHaveLength(4);
+      expect(parsed.totals.bytesSaved).toBe(750);
+    });
+
+    it('should escape CSV fields', () => {
+      const lines = formatReport(summary, 'csv').trim().split('\n');
+      expect(lines[0]).toBe(
+        'input,output,status,error,filterReason,skipReason,originalSize,newSize,originalWidth,originalHeight,width,height,durationMs,compressionRatio,contentFormat,extensionMismatch,quality,ssim,targetMet'
+      );
+      expect(lines[1]).toBe(
+        'in/a.png,out/a.webp,converted,,,,1000,250,800,600,400,300,120,0.25,,false,,,'
+      );
+      expect(lines[3].startsWith('"in/c, ""odd"".png",out/c.webp,failed,')).toBe(true);
+      expect(lines[4]).toContain(',filtered,,source width 20px is below 100px,');
+    });
+
+    it('should report failures and skips as JUnit test cases', () => {
+      const xml = formatReport(summary, 'junit');
+      expect(xml).toContain('tests="4" failures="1" skipped="2" time="1.500"');
+      expect(xml).toContain('<testcase classname="img-tool" name="in/a.png" time="0.120"/>');
+      expect(xml).toContain('<skipped message="unchanged"/>');
+      expect(xml).toContain('<skipped message="filtered: source width 20px is below 100px"/>');
+      expect(xml).toContain('<failure message="Input file is &lt;corrupt&gt; &amp; unreadable"/>');
+      expect(xml).toContain('name="in/c, &quot;odd&quot;.png"');
+    });
+  });
+});
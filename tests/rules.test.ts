@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import {
+  explainFileOptions,
+  getPreset,
+  normalizeFileOptions,
+  resolveFileOptions,
+  resolveRules,
+} from '../src/rules';
+import { convertImages } from '../src/index';
+import type { CliOptions } from '../src/types';
+
+describe('rules', () => {
+  describe('normalizeFileOptions', () => {
+    it('should normalize formats, sizes, variants and pipelines', () => {
+      expect(
+        normalizeFileOptions(
+          {
+            format: 'JPG',
+            maxSize: '100KB',
+            variants: '320,640:webp',
+            pipeline: ['soft'],
+            quality: 70,
+          },
+          'presets.web',
+          { soft: [{ op: 'blur', sigma: 1 }] }
+        )
+      ).toEqual({
+        format: 'jpeg',
+        maxSize: 102400,
+        variants: { widths: [320, 640], formats: ['webp'] },
+        pipeline: [{ op: 'blur', sigma: 1 }],
+        quality: 70,
+      });
+    });
+
+    it('should reject options that are not per-file, naming the key', () => {
+      expect(() => normalizeFileOptions({ recursive: true }, 'rules[0].options')).toThrow(
+        'rules[0].options.recursive: not a per-file option'
+      );
+      expect(() => normalizeFileOptions({ format: 'bmpx' }, 'presets.icons')).toThrow(
+        'presets.icons.format: Unsupported format: bmpx'
+      );
+      expect(() => normalizeFileOptions('webp', 'presets.icons')).toThrow(
+        'presets.icons: expected an object of options'
+      );
+    });
+  });
+
+  describe('getPreset', () => {
+    it('should return a normalized preset', () => {
+      expect(getPreset({ icons: { format: 'png', width: 64 } }, 'icons')).toEqual({
+        format: 'png',
+        width: 64,
+      });
+    });
+
+    it('should name the defined presets when one is missing', () => {
+      expect(() => getPreset({ icons: {} }, 'photos')).toThrow(
+        'Unknown preset "photos" (defined: icons)'
+      );
+      expect(() => getPreset(undefined, 'photos')).toThrow(
+        'Unknown preset "photos" (the config defines none)'
+      );
+    });
+  });
+
+  describe('resolveRules', () => {
+    it('should merge the preset under the rule options', () => {
+      const rules = resolveRules(
+        [
+          { match: 'icons/**', preset: 'icons' },
+          { match: ['*.jpg'], preset: 'icons', options: { width: 32 } },
+          { match: 'banners/**', options: { quality: 90 } },
+        ],
+        { icons: { format: 'png', width: 64 } }
+      );
+      expect(rules).toEqual([
+        { match: ['icons/**'], preset: 'icons', options: { format: 'png', width: 64 } },
+        { match: ['*.jpg'], preset: 'icons', options: { format: 'png', width: 32 } },
+        { match: ['banners/**'], options: { quality: 90 } },
+      ]);
+    });
+
+    it('should reject invalid rules with their index', () => {
+      expect(() => resolveRules({})).toThrow('rules: expected an array of rules');
+      expect(() => resolveRules([{ match: '', options: {} }])).toThrow(
+        'rules[0].match: expected a glob pattern or a list of glob patterns'
+      );
+      expect(() => resolveRules([{ match: '*.png' }])).toThrow(
+        'rules[0]: set "preset", "options" or both'
+      );
+      expect(() => resolveRules([{ match: '*.png', preset: 'icons' }])).toThrow(
+        'rules[0].preset: Unknown preset "icons"'
+      );
+      expect(() => resolveRules([{ match: '*.png', set: {} }])).toThrow(
+        'rules[0].set: not a rule key'
+      );
+    });
+  });
+
+  describe('explainFileOptions', () => {
+    const base = {
+      format: 'webp',
+      quality: 80,
+      rules: resolveRules([
+        { match: 'photos/**', options: { quality: 60, width: 1200 } },
+        { match: '*.png', options: { format: 'png' } },
+        { match: 'photos/thumbs/**', options: { width: 200 } },
+      ]),
+    } as CliOptions;
+
+    it('should apply matching rules in order, later rules winning', () => {
+      const { matches, options, sources } = explainFileOptions(base, 'photos/thumbs/a.png');
+
+      expect(matches.map((match) => match.index)).toEqual([0, 1, 2]);
+      expect(options).toMatchObject({ format: 'png', quality: 60, width: 200 });
+      expect(sources).toEqual({ quality: 'rules[0]', width: 'rules[2]', format: 'rules[1]' });
+    });
+
+    it('should keep the base options when no rule matches', () => {
+      const { matches, options } = explainFileOptions(base, 'banners/a.jpg');
+      expect(matches).toEqual([]);
+      expect(options).toBe(base);
+    });
+
+    it('should resolve options from the path relative to the input directory', () => {
+      const inputDir = path.join(os.tmpdir(), 'in');
+      const options = resolveFileOptions(base, inputDir, path.join(inputDir, 'photos', 'a.jpg'));
+      expect(options).toMatchObject({ format: 'webp', quality: 60, width: 1200 });
+    });
+  });
+
+  describe('convertDirectory with rules', () => {
+    let tempDir: string;
+    let inputDir: string;
+    let outputDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-rules-'));
+      inputDir = path.join(tempDir, 'in');
+      outputDir = path.join(tempDir, 'out');
+      for (const relativePath of ['icons/logo.png', 'photos/beach.jpg', 'cover.jpg']) {
+        await fs.mkdir(path.dirname(path.join(inputDir, relativePath)), { recursive: true });
+        await sharp({ create: { width: 800, height: 400, channels: 3, background: '#336699' } })
+          .jpeg()
+          .toFile(path.join(inputDir, relativePath));
+      }
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should convert each file with its effective options', async () => {
+      const options: CliOptions = {
+        input: inputDir,
+        output: outputDir,
+        format: 'webp',
+        recursive: true,
+        concurrency: 1,
+        rules: resolveRules(
+          [
+            { match: 'icons/**', preset: 'icons' },
+            { match: 'photos/**', options: { width: 400 } },
+          ],
+          { icons: { format: 'png', width: 64 } }
+        ),
+      };
+
+      const summary = await convertImages(options);
+
+      expect(summary.successful).toBe(3);
+      expect((await sharp(path.join(outputDir, 'icons', 'logo.png')).metadata()).width).toBe(64);
+      expect((await sharp(path.join(outputDir, 'photos', 'beach.webp')).metadata()).width).toBe(
+        400
+      );
+      expect((await sharp(path.join(outputDir, 'cover.webp')).metadata()).width).toBe(800);
+    });
+
+    it('should fill in the default quality after the rules are applied', async () => {
+      // Noise keeps the SSIM target out of reach, so the search ends at its upper bound
+      const pixels = Buffer.alloc(64 * 64 * 3);
+      for (let index = 0; index < pixels.length; index++) {
+        pixels[index] = (index * 7919) % 251;
+      }
+      await sharp(pixels, { raw: { width: 64, height: 64, channels: 3 } })
+        .png()
+        .toFile(path.join(inputDir, 'photos', 'noise.png'));
+
+      const summary = await convertImages({
+        input: inputDir,
+        output: outputDir,
+        format: 'jpeg',
+        recursive: true,
+        concurrency: 1,
+        rules: resolveRules([{ match: 'photos/**', options: { targetSsim: 0.99999 } }]),
+      });
+
+      const quality = (name: string): number | undefined =>
+        summary.results.find((result) => result.inputPath.endsWith(name))?.quality;
+      expect(quality('noise.png')).toBe(100);
+      expect(quality('cover.jpg')).toBe(80);
+    });
+  });
+});
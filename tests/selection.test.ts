@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { convertImages, findImageFiles } from '../src/index';
+import { createPathFilter, getFilterReason, parseIgnoreFile } from '../src/selection';
+import type { CliOptions } from '../src/types';
+
+describe('selection', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-selection-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseIgnoreFile', () => {
+    it('should skip comments and blank lines', () => {
+      const rules = parseIgnoreFile('# drafts\n\n*.gif\n!keep.gif\nraw/\n', '');
+      expect(rules).toEqual([
+        { baseDir: '', pattern: '*.gif', negated: false, directoryOnly: false },
+        { baseDir: '', pattern: 'keep.gif', negated: true, directoryOnly: false },
+        { baseDir: '', pattern: 'raw/', negated: false, directoryOnly: true },
+      ]);
+    });
+  });
+
+  describe('createPathFilter', () => {
+    it('should apply include and exclude patterns', async () => {
+      const filter = createPathFilter(tempDir, {
+        include: ['photos/**/*.jpg'],
+        exclude: ['**/thumbs'],
+      });
+      expect(await filter.isFileSelected('photos/2024/a.jpg')).toBe(true);
+      expect(await filter.isFileSelected('photos/a.png')).toBe(false);
+      expect(await filter.isDirectorySelected('photos/thumbs')).toBe(false);
+      expect(await filter.isFileSelected('photos/thumbs/a.jpg')).toBe(false);
+    });
+
+    it('should honor ignore files in nested directories', async () => {
+      await fs.mkdir(path.join(tempDir, 'sub', 'raw'), { recursive: true });
+      await fs.writeFile(path.join(tempDir, '.imgtoolignore'), '*.gif\nraw/\n');
+      await fs.writeFile(path.join(tempDir, 'sub', '.imgtoolignore'), '!keep.gif\n');
+
+      const filter = createPathFilter(tempDir, {});
+      expect(await filter.isFileSelected('a.gif')).toBe(false);
+      expect(await filter.isFileSelected('sub/keep.gif')).toBe(true);
+      expect(await filter.isFileSelected('keep.gif')).toBe(false);
+      expect(await filter.isDirectorySelected('sub/raw')).toBe(false);
+      expect(await filter.isFileSelected('sub/raw/a.png')).toBe(false);
+      expect(await filter.isFileSelected('a.png')).toBe(true);
+    });
+  });
+
+  describe('findImageFiles', () => {
+    it('should not traverse excluded directories', async () => {
+      await fs.mkdir(path.join(tempDir, 'keep'));
+      await fs.mkdir(path.join(tempDir, 'drafts'));
+      for (const file of ['a.png', 'keep/b.jpg', 'keep/c.gif', 'drafts/d.png']) {
+        await fs.writeFile(path.join(tempDir, file), '');
+      }
+
+      const filter = createPathFilter(tempDir, { exclude: ['drafts', '*.gif'] });
+      const files = await findImageFiles(tempDir, true, filter);
+      expect(files.map((file) => path.relative(tempDir, file)).sort()).toEqual([
+        'a.png',
+        path.join('keep', 'b.jpg'),
+      ]);
+    });
+  });
+
+  describe('getFilterReason', () => {
+    const options = { input: '', output: '', format: 'webp' } as CliOptions;
+
+    it('should filter by file size', async () => {
+      const filePath = path.join(tempDir, 'a.png');
+      expect(await getFilterReason(filePath, 1000, { ...options, onlyLargerThan: 1000 })).toBe(
+        'file size 1000 bytes is not larger than 1000 bytes'
+      );
+      expect(await getFilterReason(filePath, 1000, { ...options, onlySmallerThan: 2000 })).toBe(
+        null
+      );
+    });
+
+    it('should filter by source dimensions from the header', async () => {
+      const filePath = path.join(tempDir, 'a.png');
+      await sharp({ create: { width: 200, height: 100, channels: 3, background: '#336699' } })
+        .png()
+        .toFile(filePath);
+
+      expect(await getFilterReason(filePath, 0, { ...options, minSourceWidth: 300 })).toBe(
+        'source width 200px is below 300px'
+      );
+      expect(await getFilterReason(filePath, 0, { ...options, maxSourceHeight: 50 })).toBe(
+        'source height 100px is above 50px'
+      );
+      expect(
+        await getFilterReason(filePath, 0, { ...options, minSourceWidth: 100, maxSourceWidth: 200 })
+      ).toBe(null);
+    });
+
+    it('should read source dimensions with the options of matching rules', async () => {
+      const inputDir = path.join(tempDir, 'in');
+      await fs.mkdir(inputDir);
+      for (const name of ['icon.svg', 'hi/icon.svg']) {
+        await fs.mkdir(path.dirname(path.join(inputDir, name)), { recursive: true });
+        await fs.writeFile(
+          path.join(inputDir, name),
+          '<svg xmlns="http://www.w3.org/2000/svg" width="40" height="20"/>'
+        );
+      }
+
+      const summary = await convertImages({
+        input: inputDir,
+        output: path.join(tempDir, 'out'),
+        format: 'png',
+        recursive: true,
+        minSourceWidth: 60,
+        rules: [{ match: ['hi/**'], options: { density: 144 } }],
+      });
+
+      expect(summary).toMatchObject({ successful: 1, filtered: 1 });
+      expect(summary.results.find((result) => result.filtered)?.inputPath).toBe(
+        path.join(inputDir, 'icon.svg')
+      );
+    });
+  });
+});
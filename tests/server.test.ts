@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { createImageServer, negotiateFormat, parseTransformQuery } from '../src/server';
+
+/**
+ * Sends a raw GET request, without the path normalization fetch applies.
+ */
+function rawGet(port: number, requestPath: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    http
+      .get({ host: '127.0.0.1', port, path: requestPath }, (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      })
+      .on('error', reject);
+  });
+}
+
+describe('server', () => {
+  describe('negotiateFormat', () => {
+    it('should prefer avif, then webp', () => {
+      expect(negotiateFormat('image/avif,image/webp,*/*', 'jpeg')).toBe('avif');
+      expect(negotiateFormat('image/webp,*/*;q=0.8', 'jpeg')).toBe('webp');
+    });
+
+    it('should ignore wildcards and q=0', () => {
+      expect(negotiateFormat('*/*', 'png')).toBe('png');
+      expect(negotiateFormat('image/avif;q=0, image/webp', 'png')).toBe('webp');
+      expect(negotiateFormat(undefined, 'png')).toBe('png');
+    });
+  });
+
+  describe('parseTransformQuery', () => {
+    it('should map query parameters to processing options', () => {
+      const options = parseTransformQuery(
+        new URLSearchParams('w=640&fmt=webp&q=70&fit=cover&h=480'),
+        undefined,
+        'jpeg'
+      );
+      expect(options).toMatchObject({
+        format: 'webp',
+        width: 640,
+        height: 480,
+        quality: 70,
+        fit: 'cover',
+      });
+    });
+
+    it('should reject invalid parameters', () => {
+      expect(() => parseTransformQuery(new URLSearchParams('w=abc'), undefined, 'png')).toThrow(
+        'Invalid w'
+      );
+      expect(() => parseTransformQuery(new URLSearchParams('q=0'), undefined, 'png')).toThrow(
+        'Quality must be between 1 and 100'
+      );
+      expect(() => parseTransformQuery(new URLSearchParams('fmt=pdf'), undefined, 'png')).toThrow(
+        'Unsupported format'
+      );
+    });
+
+    it('should cap the requested dimensions', () => {
+      const query = new URLSearchParams('w=3000&h=3000&fit=contain');
+      expect(parseTransformQuery(query, undefined, 'png')).toMatchObject({ width: 3000 });
+      expect(() => parseTransformQuery(query, undefined, 'png', 2048)).toThrow(
+        'Invalid w: at most 2048 is allowed, got 3000'
+      );
+    });
+  });
+
+  describe('createImageServer', () => {
+    let tempDir: string;
+    let cacheDir: string;
+    let server: http.Server;
+    let baseUrl: string;
+    let port: number;
+
+    beforeAll(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-serve-'));
+      const root = path.join(tempDir, 'root');
+      cacheDir = path.join(tempDir, 'cache');
+      await fs.mkdir(root);
+      await sharp({ create: { width: 400, height: 200, channels: 3, background: '#cc3366' } })
+        .jpeg()
+        .toFile(path.join(root, 'photo.jpg'));
+      await fs.writeFile(path.join(tempDir, 'secret.png'), 'outside the root');
+
+      server = createImageServer({ root, cacheDir, maxAge: 60 });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      port = (server.address() as AddressInfo).port;
+      baseUrl = `http://127.0.0.1:${port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should resize and convert from query parameters', async () => {
+      const response = await fetch(`${baseUrl}/photo.jpg?w=100&fmt=webp&q=70`);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('image/webp');
+      expect(response.headers.get('cache-control')).toBe('public, max-age=60');
+      const metadata = await sharp(Buffer.from(await response.arrayBuffer())).metadata();
+      expect(metadata).toMatchObject({ format: 'webp', width: 100, height: 50 });
+      expect(await fs.readdir(cacheDir)).toHaveLength(1);
+    });
+
+    it('should negotiate the format from the Accept header', async () => {
+      const response = await fetch(`${baseUrl}/photo.jpg?w=50`, {
+        headers: { Accept: 'image/webp,*/*' },
+      });
+      expect(response.headers.get('content-type')).toBe('image/webp');
+      expect(response.headers.get('vary')).toBe('Accept');
+    });
+
+    it('should serve the original when nothing changes', async () => {
+      const response = await fetch(`${baseUrl}/photo.jpg`);
+      const original = await fs.readFile(path.join(tempDir, 'root', 'photo.jpg'));
+      expect(response.headers.get('content-type')).toBe('image/jpeg');
+      expect(Buffer.from(await response.arrayBuffer()).equals(original)).toBe(true);
+    });
+
+    it('should answer 304 when the ETag matches', async () => {
+      const first = await fetch(`${baseUrl}/photo.jpg?w=80&fmt=png`);
+      const etag = first.headers.get('etag');
+      expect(etag).toBeTruthy();
+      const second = await fetch(`${baseUrl}/photo.jpg?w=80&fmt=png`, {
+        headers: { 'If-None-Match': etag! },
+      });
+      expect(second.status).toBe(304);
+    });
+
+    it('should reject invalid parameters with 400', async () => {
+      const response = await fetch(`${baseUrl}/photo.jpg?w=-5`);
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject dimensions above the maximum with 400', async () => {
+      const response = await fetch(`${baseUrl}/photo.jpg?w=100000&h=100000&fit=contain`);
+      expect(response.status).toBe(400);
+      expect(await response.text()).toContain('Invalid w: at most 8192 is allowed');
+    });
+
+    it('should answer 404 for missing files', async () => {
+      const response = await fetch(`${baseUrl}/missing.jpg`);
+      expect(response.status).toBe(404);
+    });
+
+    it('should refuse path traversal outside the root', async () => {
+      // Plain dot segments are normalized away by URL parsing, so this stays inside the root
+      expect(await rawGet(port, '/../secret.png')).toBe(404);
+      expect(await rawGet(port, '/..%2Fsecret.png')).toBe(403);
+    });
+
+    it('should fail requests rather than the process when the root is missing', async () => {
+      const missingRoot = path.join(tempDir, 'gone');
+      const orphan = createImageServer({ root: missingRoot, cacheDir });
+      await new Promise<void>((resolve) => orphan.listen(0, '127.0.0.1', resolve));
+      try {
+        const orphanPort = (orphan.address() as AddressInfo).port;
+        expect(await rawGet(orphanPort, '/photo.jpg')).toBe(500);
+
+        // The root is resolved again once it exists
+        await fs.mkdir(missingRoot);
+        expect(await rawGet(orphanPort, '/photo.jpg')).toBe(404);
+      } finally {
+        await new Promise((resolve) => orphan.close(resolve));
+      }
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { computeSsim } from '../src/similarity';
+
+/**
+ * Creates a single-channel gradient image with optional per-pixel noise.
+ */
+function gradient(width: number, height: number, noise = 0): Uint8Array {
+  const pixels = new Uint8Array(width * height);
+  for (let i = 0; i < pixels.length; i++) {
+    const base = ((i % width) * 255) / width;
+    const offset = noise ? ((i * 7919) % (2 * noise + 1)) - noise : 0;
+    pixels[i] = Math.max(0, Math.min(255, Math.round(base + offset)));
+  }
+  return pixels;
+}
+
+describe('similarity', () => {
+  describe('computeSsim', () => {
+    it('should return 1 for identical images', () => {
+      const image = gradient(32, 32, 20);
+      expect(computeSsim(image, image, 32, 32)).toBeCloseTo(1, 10);
+    });
+
+    it('should decrease as distortion increases', () => {
+      const reference = gradient(32, 32);
+      const slight = computeSsim(reference, gradient(32, 32, 4), 32, 32);
+      const heavy = computeSsim(reference, gradient(32, 32, 40), 32, 32);
+      expect(slight).toBeLessThan(1);
+      expect(heavy).toBeLessThan(slight);
+    });
+
+    it('should handle images smaller than a window', () => {
+      const image = gradient(3, 2);
+      expect(computeSsim(image, image, 3, 2)).toBeCloseTo(1, 10);
+    });
+
+    it('should throw error for mismatched buffers', () => {
+      expect(() => computeSsim(gradient(4, 4), gradient(4, 5), 4, 4)).toThrow();
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import {
+  checkContent,
+  detectFormatFromBytes,
+  resolveInputFormats,
+  sniffImageFormat,
+} from '../src/sniff';
+import { encodeIco } from '../src/nativeEncoders';
+import { convertImages } from '../src/index';
+
+describe('sniff', () => {
+  let tempDir: string;
+  let inputDir: string;
+
+  const image = (): sharp.Sharp =>
+    sharp({ create: { width: 16, height: 16, channels: 3, background: '#336699' } });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-sniff-'));
+    inputDir = path.join(tempDir, 'in');
+    await fs.mkdir(inputDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('detectFormatFromBytes', () => {
+    it('should recognize the signatures of the input formats', async () => {
+      expect(detectFormatFromBytes(await image().jpeg().toBuffer())).toBe('jpeg');
+      expect(detectFormatFromBytes(await image().png().toBuffer())).toBe('png');
+      expect(detectFormatFromBytes(await image().webp().toBuffer())).toBe('webp');
+      expect(detectFormatFromBytes(await image().gif().toBuffer())).toBe('gif');
+      expect(detectFormatFromBytes(await image().tiff().toBuffer())).toBe('tiff');
+      expect(detectFormatFromBytes(await image().avif().toBuffer())).toBe('avif');
+
+      const bmp = Buffer.alloc(54);
+      bmp.write('BM', 0, 'latin1');
+      bmp.writeUInt32LE(40, 14);
+      expect(detectFormatFromBytes(bmp)).toBe('bmp');
+
+      const heic = Buffer.alloc(24);
+      heic.writeUInt32BE(24, 0);
+      heic.write('ftypheic', 4, 'latin1');
+      heic.write('mif1heic', 16, 'latin1');
+      expect(detectFormatFromBytes(heic)).toBe('heif');
+
+      const ico = encodeIco(await image().png().toBuffer(), 16, 16);
+      expect(detectFormatFromBytes(ico)).toBe('ico');
+      expect(detectFormatFromBytes(Buffer.from([0xff, 0x0a, 0xfa, 0x7f]))).toBe('jxl');
+      const jp2 = Buffer.from('\0\0\0\x0cjP  \r\n\x87\n', 'latin1');
+      expect(detectFormatFromBytes(jp2)).toBe('jp2');
+    });
+
+    it('should not recognize other content', () => {
+      expect(detectFormatFromBytes(Buffer.from('BMW owners club newsletter'))).toBeNull();
+      expect(detectFormatFromBytes(Buffer.alloc(0))).toBeNull();
+    });
+  });
+
+  describe('sniffImageFormat and checkContent', () => {
+    it('should report the content format of misnamed and extensionless files', async () => {
+      const misnamed = path.join(inputDir, 'photo.jpg');
+      const extensionless = path.join(inputDir, 'upload');
+      await image().png().toFile(misnamed);
+      await fs.copyFile(misnamed, extensionless);
+      await fs.writeFile(path.join(inputDir, 'notes.png'), 'not an image');
+
+      expect(await checkContent(misnamed)).toEqual({ format: 'png', mismatch: true });
+      expect(await checkContent(extensionless)).toEqual({ format: 'png', mismatch: false });
+      expect(await sniffImageFormat(path.join(inputDir, 'notes.png'))).toBeNull();
+      expect(await sniffImageFormat(path.join(inputDir, 'missing.png'))).toBeNull();
+    });
+  });
+
+  describe('resolveInputFormats', () => {
+    it('should resolve aliases and reject unsupported formats', () => {
+      expect(resolveInputFormats('jpg, PNG')).toEqual(['jpeg', 'png']);
+      expect(resolveInputFormats(['tif', 'avif'])).toEqual(['tiff', 'avif']);
+      expect(() => resolveInputFormats('heic')).toThrow('unsupported input format "heic"');
+      expect(resolveInputFormats('svg')).toEqual(['svg']);
+      expect(() => resolveInputFormats('jpeg,pdf')).toThrow('unsupported input format "pdf"');
+      expect(() => resolveInputFormats(42)).toThrow('expected a list of input formats');
+    });
+  });
+
+  describe('convertImages', () => {
+    beforeEach(async () => {
+      await image().png().toFile(path.join(inputDir, 'photo.jpg'));
+      await image().jpeg().toFile(path.join(inputDir, 'real.jpg'));
+      await image().png().toFile(path.join(inputDir, 'upload'));
+      await fs.writeFile(path.join(inputDir, 'readme.txt'), 'hello');
+    });
+
+    it('should find images without an image extension by their content', async () => {
+      const options = { input: inputDir, output: path.join(tempDir, 'out'), format: 'webp' };
+
+      const byExtension = await convertImages(options);
+      const byContent = await convertImages({ ...options, anyExtension: true, overwrite: true });
+
+      expect(byExtension.total).toBe(2);
+      expect(byContent.total).toBe(3);
+      expect(await fs.readdir(path.join(tempDir, 'out'))).toContain('upload.webp');
+    });
+
+    it('should mark extension mismatches and check the allowlist against the content', async () => {
+      const summary = await convertImages({
+        input: inputDir,
+        output: path.join(tempDir, 'out'),
+        format: 'webp',
+        inputFormats: ['jpeg'],
+      });
+
+      const photo = summary.results.find((result) => result.inputPath.endsWith('photo.jpg'));
+      expect(photo).toMatchObject({
+        filtered: true,
+        filterReason: 'content format png is not one of jpeg',
+        contentFormat: 'png',
+        extensionMismatch: true,
+      });
+      const real = summary.results.find((result) => result.inputPath.endsWith('real.jpg'));
+      expect(real).toMatchObject({ success: true, contentFormat: 'jpeg' });
+      expect(real?.extensionMismatch).toBeUndefined();
+    });
+  });
+});
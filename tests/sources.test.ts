@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { validateSourceOptions } from '../src/sources';
+import { convertImages, processImage } from '../src/index';
+import type { CliOptions } from '../src/types';
+
+describe('sources', () => {
+  let tempDir: string;
+  let inputDir: string;
+
+  const createImage = async (relativePath: string): Promise<string> => {
+    const filePath = path.join(inputDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await sharp({ create: { width: 64, height: 48, channels: 3, background: '#336699' } }).toFile(
+      filePath
+    );
+    return filePath;
+  };
+
+  // Random pixels saved as a low-quality JPEG grow when stored losslessly
+  const createNoisyJpeg = async (relativePath: string): Promise<string> => {
+    const filePath = path.join(inputDir, relativePath);
+    const pixels = Buffer.alloc(64 * 64 * 3);
+    for (let index = 0; index < pixels.length; index++) {
+      pixels[index] = (index * 7919) % 251;
+    }
+    await sharp(pixels, { raw: { width: 64, height: 64, channels: 3 } })
+      .jpeg({ quality: 10 })
+      .toFile(filePath);
+    return filePath;
+  };
+
+  const listFiles = async (dirPath: string): Promise<string[]> =>
+    (await fs.readdir(dirPath, { recursive: true })).map(String).sort();
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-sources-'));
+    inputDir = path.join(tempDir, 'in');
+    await fs.mkdir(inputDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('processImage', () => {
+    it('should not leave temporary files behind', async () => {
+      const inputPath = await createImage('photo.png');
+      const outputPath = path.join(tempDir, 'photo.webp');
+
+      const result = await processImage(inputPath, outputPath, { format: 'webp' });
+
+      expect(result.success).toBe(true);
+      expect(await fs.readdir(tempDir)).toEqual(['in', 'photo.webp']);
+    });
+
+    it('should discard an output larger than the source with keepIfLarger', async () => {
+      const inputPath = await createNoisyJpeg('noise.jpg');
+      const outputPath = path.join(tempDir, 'noise.png');
+
+      const result = await processImage(inputPath, outputPath, {
+        format: 'png',
+        keepIfLarger: true,
+      });
+
+      expect(result).toMatchObject({
+        success: true,
+        skipped: true,
+        skipReason: 'output larger than the source',
+      });
+      expect(result.newSize).toBeGreaterThan(result.originalSize ?? Infinity);
+      await expect(fs.access(outputPath)).rejects.toThrow();
+    });
+  });
+
+  describe('convertImages in place', () => {
+    it('should replace each source with its output', async () => {
+      await createImage('a.png');
+      await createImage('nested/b.png');
+
+      const summary = await convertImages({
+        input: inputDir,
+        output: '',
+        format: 'webp',
+        recursive: true,
+        inPlace: true,
+      });
+
+      expect(summary.successful).toBe(2);
+      expect(summary.results[0].source).toEqual({ action: 'replaced' });
+      expect(await listFiles(inputDir)).toEqual(['a.webp', 'nested', 'nested/b.webp']);
+    });
+
+    it('should back up sources replaced by an output of the same name', async () => {
+      const inputPath = await createImage('a.png');
+      const original = await fs.readFile(inputPath);
+
+      const summary = await convertImages({
+        input: inputPath,
+        output: '',
+        format: 'png',
+        quality: 50,
+        inPlace: true,
+        backup: true,
+      });
+
+      expect(summary.results[0].source).toEqual({ action: 'replaced', path: `${inputPath}.bak` });
+      expect(await fs.readFile(`${inputPath}.bak`)).toEqual(original);
+      expect(await listFiles(inputDir)).toEqual(['a.png', 'a.png.bak']);
+
+      const again = await convertImages({
+        input: inputPath,
+        output: '',
+        format: 'png',
+        inPlace: true,
+        backup: true,
+      });
+      expect(again.results[0].error).toContain('Backup file already exists');
+    });
+
+    it('should leave the source and no backup when the output would be larger', async () => {
+      const inputPath = await createNoisyJpeg('noise.jpg');
+
+      const summary = await convertImages({
+        input: inputDir,
+        output: '',
+        format: 'png',
+        inPlace: true,
+        backup: true,
+        keepIfLarger: true,
+      });
+
+      expect(summary.skipped).toBe(1);
+      expect(summary.results[0].source).toBeUndefined();
+      expect(await listFiles(inputDir)).toEqual([path.basename(inputPath)]);
+    });
+  });
+
+  describe('convertImages with a source action', () => {
+    it('should move converted sources to the archive directory', async () => {
+      await createImage('a.png');
+      await createImage('nested/b.png');
+      const archiveDir = path.join(tempDir, 'archive');
+
+      const summary = await convertImages({
+        input: inputDir,
+        output: path.join(tempDir, 'out'),
+        format: 'webp',
+        recursive: true,
+        sourceAction: 'archive',
+        archiveDir,
+      });
+
+      expect(summary.results.map((result) => result.source)).toEqual([
+        { action: 'archived', path: path.join(archiveDir, 'a.png') },
+        { action: 'archived', path: path.join(archiveDir, 'nested', 'b.png') },
+      ]);
+      expect(await listFiles(archiveDir)).toEqual(['a.png', 'nested', 'nested/b.png']);
+      expect(await listFiles(inputDir)).toEqual(['nested']);
+    });
+
+    it('should delete converted sources but keep failed ones', async () => {
+      await createImage('a.png');
+      await fs.writeFile(path.join(inputDir, 'broken.png'), 'not an image');
+      const outputDir = path.join(tempDir, 'out');
+
+      const summary = await convertImages({
+        input: inputDir,
+        output: outputDir,
+        format: 'webp',
+        sourceAction: 'delete',
+      });
+
+      expect(summary.successful).toBe(1);
+      expect(summary.failed).toBe(1);
+      expect(await listFiles(inputDir)).toEqual(['broken.png']);
+      expect(await listFiles(outputDir)).toEqual(['a.webp']);
+    });
+
+    it('should keep the sources of conversions in flight when the run is cancelled', async () => {
+      await createImage('a.png');
+      await createImage('b.png');
+      const controller = new AbortController();
+      const events: string[] = [];
+
+      const summary = await convertImages(
+        {
+          input: inputDir,
+          output: path.join(tempDir, 'out'),
+          format: 'webp',
+          concurrency: 1,
+          sourceAction: 'delete',
+        },
+        {
+          signal: controller.signal,
+          onProgress: (event) => {
+            events.push(event.type);
+            if (event.type === 'file-start') {
+              controller.abort();
+            }
+          },
+        }
+      );
+
+      expect(summary).toMatchObject({ total: 1, failed: 1, cancelled: 1 });
+      expect(summary.results[0].error).toBe(
+        'Converted, but the source was kept because the run was cancelled'
+      );
+      expect(events).toEqual(['start', 'file-start', 'file-failed']);
+      expect(await listFiles(inputDir)).toEqual(['a.png', 'b.png']);
+    });
+
+    it('should announce verified outputs before deleting their sources', async () => {
+      await createImage('a.png');
+      const events: string[] = [];
+
+      await convertImages(
+        {
+          input: inputDir,
+          output: path.join(tempDir, 'out'),
+          format: 'webp',
+          sourceAction: 'delete',
+        },
+        { onProgress: (event) => events.push(event.type) }
+      );
+
+      expect(events).toEqual(['start', 'file-start', 'file-verified', 'file-done']);
+    });
+  });
+
+  describe('validateSourceOptions', () => {
+    const options: CliOptions = { input: 'in', output: 'out', format: 'webp' };
+
+    it('should reject conflicting options', () => {
+      expect(() => validateSourceOptions({ ...options, backup: true })).toThrow(
+        '--backup requires --in-place'
+      );
+      expect(() =>
+        validateSourceOptions({ ...options, inPlace: true, sourceAction: 'delete' })
+      ).toThrow('cannot be combined with --source-action');
+      expect(() => validateSourceOptions({ ...options, sourceAction: 'archive' })).toThrow(
+        '--source-action archive requires --archive-dir'
+      );
+      expect(() =>
+        validateSourceOptions({ ...options, inPlace: true, backup: true })
+      ).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseVariantSpec,
+  resolveVariantSpec,
+  expandVariants,
+  getVariantOutputPath,
+  listVariantOutputPaths,
+  buildPictureHtml,
+  buildVariantManifest,
+} from '../src/variants';
+import type { VariantResult } from '../src/types';
+
+describe('variants', () => {
+  describe('parseVariantSpec', () => {
+    it('should parse widths and formats', () => {
+      expect(parseVariantSpec('640,320:avif,jpg')).toEqual({
+        widths: [320, 640],
+        formats: ['avif', 'jpeg'],
+      });
+    });
+
+    it('should parse widths-only and formats-only specs', () => {
+      expect(parseVariantSpec('320,640')).toEqual({ widths: [320, 640], formats: undefined });
+      expect(parseVariantSpec('webp,png')).toEqual({ widths: undefined, formats: ['webp', 'png'] });
+      expect(parseVariantSpec(':webp')).toEqual({ widths: undefined, formats: ['webp'] });
+    });
+
+    it('should throw error for invalid specs', () => {
+      expect(() => parseVariantSpec('abc:webp')).toThrow();
+      expect(() => parseVariantSpec('320:svg')).toThrow();
+      expect(() => parseVariantSpec('0:webp')).toThrow();
+      expect(() => parseVariantSpec('')).toThrow();
+      expect(() => parseVariantSpec('1:2:3')).toThrow();
+    });
+  });
+
+  describe('resolveVariantSpec', () => {
+    it('should normalize config objects', () => {
+      expect(resolveVariantSpec({ widths: [640, 320, 640], formats: ['jpg'] })).toEqual({
+        widths: [320, 640],
+        formats: ['jpeg'],
+      });
+    });
+  });
+
+  describe('expandVariants', () => {
+    const spec = { widths: [320, 640, 1920], formats: ['avif' as const, 'jpeg' as const] };
+
+    it('should drop widths larger than the source without upscaling', () => {
+      expect(expandVariants(spec, 'png', 1000)).toEqual([
+        { format: 'avif', width: 320 },
+        { format: 'avif', width: 640 },
+        { format: 'jpeg', width: 320 },
+        { format: 'jpeg', width: 640 },
+      ]);
+    });
+
+    it('should keep every width when upscaling is allowed', () => {
+      expect(expandVariants(spec, 'png', 1000, true)).toHaveLength(6);
+    });
+
+    it('should fall back to the source width when no width fits', () => {
+      expect(expandVariants({ widths: [2000] }, 'webp', 800)).toEqual([
+        { format: 'webp', width: 800 },
+      ]);
+    });
+  });
+
+  describe('getVariantOutputPath', () => {
+    it('should append the width suffix and extension', () => {
+      expect(getVariantOutputPath('out/hero', 'webp', 640)).toBe('out/hero-640w.webp');
+      expect(getVariantOutputPath('out/hero', 'avif')).toBe('out/hero.avif');
+    });
+  });
+
+  describe('listVariantOutputPaths', () => {
+    it('should list every candidate path', () => {
+      expect(listVariantOutputPaths('hero', { widths: [320] }, 'jpg')).toEqual(['hero-320w.jpeg']);
+    });
+  });
+
+  describe('manifests', () => {
+    const variants: VariantResult[] = [
+      { outputPath: '/out/hero-320w.webp', format: 'webp', width: 320, height: 200, size: 10 },
+      { outputPath: '/out/hero-640w.webp', format: 'webp', width: 640, height: 400, size: 20 },
+      { outputPath: '/out/hero-320w.jpeg', format: 'jpeg', width: 320, height: 200, size: 30 },
+    ];
+
+    it('should build a picture element with a jpeg fallback', () => {
+      const html = buildPictureHtml(variants, '/out', 'hero');
+      expect(html).toContain(
+        '<source type="image/webp" srcset="hero-320w.webp 320w, hero-640w.webp 640w">'
+      );
+      expect(html).toContain('<img src="hero-320w.jpeg"');
+      expect(html).toContain('alt="hero"');
+    });
+
+    it('should build a JSON manifest', () => {
+      const manifest = JSON.parse(buildVariantManifest('/in/hero.jpg', variants, '/out'));
+      expect(manifest.source).toBe('hero.jpg');
+      expect(manifest.variants[1]).toEqual({
+        path: 'hero-640w.webp',
+        format: 'webp',
+        type: 'image/webp',
+        width: 640,
+        height: 400,
+        size: 20,
+      });
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { watchDirectory } from '../src/watch';
+import type { WatchHandle } from '../src/watch';
+import type { WatchEvent } from '../src/types';
+
+/**
+ * Polls until the predicate holds or the timeout expires.
+ */
+async function waitFor(predicate: () => boolean, timeoutMs = 5000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe('watch', () => {
+  let tempDir: string;
+  let inputDir: string;
+  let outputDir: string;
+  let handle: WatchHandle | undefined;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-watch-'));
+    inputDir = path.join(tempDir, 'in');
+    outputDir = path.join(tempDir, 'out');
+    await fs.mkdir(inputDir);
+  });
+
+  afterEach(async () => {
+    handle?.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should convert new files and delete outputs of removed files', async () => {
+    const events: WatchEvent[] = [];
+    handle = await watchDirectory(
+      { input: inputDir, output: outputDir, format: 'webp', watchDelete: true },
+      (event) => events.push(event),
+      20
+    );
+
+    const sourcePath = path.join(inputDir, 'red.png');
+    await sharp({ create: { width: 8, height: 8, channels: 3, background: '#ff0000' } })
+      .png()
+      .toFile(sourcePath);
+
+    await waitFor(() => events.some((event) => event.type === 'converted'));
+    const converted = events.find((event) => event.type === 'converted');
+    expect(converted?.result?.success).toBe(true);
+    await expect(fs.access(path.join(outputDir, 'red.webp'))).resolves.toBeUndefined();
+
+    await fs.unlink(sourcePath);
+    await waitFor(() => events.some((event) => event.type === 'removed'));
+    const removed = events.find((event) => event.type === 'removed');
+    expect(removed?.deletedOutputs).toEqual([path.join(outputDir, 'red.webp')]);
+  });
+});
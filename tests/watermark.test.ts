@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { createWatermarkOverlay, validateWatermarkOptions } from '../src/watermark';
+import { processImage } from '../src/imageProcessor';
+
+/**
+ * Renders an overlay to raw RGBA pixels.
+ */
+async function toPixels(
+  overlay: sharp.OverlayOptions
+): Promise<{ data: Buffer; width: number; height: number }> {
+  const { data, info } = await sharp(overlay.input as Buffer)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+/**
+ * Gets the alpha value of one pixel of raw RGBA data.
+ */
+function alphaAt(pixels: { data: Buffer; width: number }, x: number, y: number): number {
+  return pixels.data[(y * pixels.width + x) * 4 + 3];
+}
+
+describe('validateWatermarkOptions', () => {
+  it('should accept an image or text watermark', () => {
+    expect(validateWatermarkOptions({ image: 'logo.png', anchor: 'top-left' })).toEqual({
+      image: 'logo.png',
+      anchor: 'top-left',
+    });
+    expect(validateWatermarkOptions({ text: '© Example', opacity: 0.5, tile: true })).toEqual({
+      text: '© Example',
+      opacity: 0.5,
+      tile: true,
+    });
+  });
+
+  it('should treat undefined keys as absent', () => {
+    expect(validateWatermarkOptions({ image: undefined, text: 'Draft' })).toEqual({
+      text: 'Draft',
+    });
+  });
+
+  it('should require exactly one of image and text', () => {
+    expect(() => validateWatermarkOptions({})).toThrow('set exactly one of "image" and "text"');
+    expect(() => validateWatermarkOptions({ image: 'logo.png', text: 'Draft' })).toThrow(
+      'set exactly one of "image" and "text"'
+    );
+  });
+
+  it('should reject invalid values with the offending key', () => {
+    expect(() => validateWatermarkOptions('logo.png')).toThrow('watermark: expected an object');
+    expect(() => validateWatermarkOptions({ text: 'a', opacity: 2 })).toThrow(
+      'watermark.opacity: expected a number between 0 and 1, got 2'
+    );
+    expect(() => validateWatermarkOptions({ text: 'a', scale: 0 })).toThrow('watermark.scale');
+    expect(() => validateWatermarkOptions({ text: 'a', margin: -1 })).toThrow('watermark.margin');
+    expect(() => validateWatermarkOptions({ text: 'a', anchor: 'middle' })).toThrow(
+      'watermark.anchor'
+    );
+    expect(() => validateWatermarkOptions({ text: 'a', color: 'red"/>' })).toThrow(
+      'watermark.color'
+    );
+    expect(() => validateWatermarkOptions({ text: 'a', size: 10 })).toThrow(
+      'watermark.size: not a watermark option'
+    );
+  });
+});
+
+describe('createWatermarkOverlay', () => {
+  let tempDir: string;
+  let logoPath: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imgtool-watermark-'));
+    logoPath = path.join(tempDir, 'logo.png');
+    await sharp({
+      create: { width: 100, height: 50, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } },
+    })
+      .png()
+      .toFile(logoPath);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should size the watermark relative to the output and anchor it with a margin', async () => {
+    // scale 0.25 of 400px: the 100x50 logo stays 100x50
+    const pixels = await toPixels(
+      await createWatermarkOverlay({ image: logoPath, scale: 0.25, margin: 10 }, 400, 200)
+    );
+
+    expect(pixels.width).toBe(400);
+    expect(pixels.height).toBe(200);
+    // bottom-right: covers x 290-389, y 140-189
+    expect(alphaAt(pixels, 290, 140)).toBe(255);
+    expect(alphaAt(pixels, 389, 189)).toBe(255);
+    expect(alphaAt(pixels, 289, 140)).toBe(0);
+    expect(alphaAt(pixels, 389, 190)).toBe(0);
+    expect(alphaAt(pixels, 10, 10)).toBe(0);
+  });
+
+  it('should place the watermark at each anchor', async () => {
+    const topLeft = await toPixels(
+      await createWatermarkOverlay(
+        { image: logoPath, scale: 0.25, margin: 10, anchor: 'top-left' },
+        400,
+        200
+      )
+    );
+    expect(alphaAt(topLeft, 10, 10)).toBe(255);
+    expect(alphaAt(topLeft, 9, 10)).toBe(0);
+
+    const center = await toPixels(
+      await createWatermarkOverlay({ image: logoPath, scale: 0.25, anchor: 'center' }, 400, 200)
+    );
+    expect(alphaAt(center, 150, 75)).toBe(255);
+    expect(alphaAt(center, 249, 124)).toBe(255);
+    expect(alphaAt(center, 149, 75)).toBe(0);
+  });
+
+  it('should shrink the watermark to fit inside the margins', async () => {
+    // scale 1 of 100px wide output: the logo is limited to 100 - 2 * 10 = 80px
+    const pixels = await toPixels(
+      await createWatermarkOverlay(
+        { image: logoPath, scale: 1, margin: 10, anchor: 'top-left' },
+        100,
+        100
+      )
+    );
+    expect(alphaAt(pixels, 89, 10)).toBe(255);
+    expect(alphaAt(pixels, 90, 10)).toBe(0);
+    expect(alphaAt(pixels, 10, 49)).toBe(255);
+    expect(alphaAt(pixels, 10, 50)).toBe(0);
+  });
+
+  it('should apply the opacity to the alpha channel', async () => {
+    const pixels = await toPixels(
+      await createWatermarkOverlay({ image: logoPath, scale: 0.25, opacity: 0.5 }, 400, 200)
+    );
+    expect(alphaAt(pixels, 300, 150)).toBe(128);
+  });
+
+  it('should tile the watermark across the output, spaced by the margin', async () => {
+    const pixels = await toPixels(
+      await createWatermarkOverlay(
+        { image: logoPath, scale: 0.25, margin: 20, tile: true },
+        400,
+        200
+      )
+    );
+    // 100x50 tiles repeat every 120x70 pixels
+    expect(alphaAt(pixels, 0, 0)).toBe(255);
+    expect(alphaAt(pixels, 110, 10)).toBe(0);
+    expect(alphaAt(pixels, 130, 80)).toBe(255);
+    expect(alphaAt(pixels, 370, 150)).toBe(255);
+  });
+
+  it('should render text watermarks', async () => {
+    const pixels = await toPixels(
+      await createWatermarkOverlay({ text: 'Sample', color: '#00ff00' }, 400, 200)
+    );
+    let covered = 0;
+    for (let i = 3; i < pixels.data.length; i += 4) {
+      if (pixels.data[i] > 0) {
+        covered++;
+        expect(pixels.data[i - 2]).toBeGreaterThan(pixels.data[i - 3]);
+      }
+    }
+    expect(covered).toBeGreaterThan(0);
+  });
+
+  it('should repeat the watermark on every frame of an animation', async () => {
+    const pixels = await toPixels(
+      await createWatermarkOverlay(
+        { image: logoPath, scale: 0.25, margin: 10, anchor: 'top-left' },
+        400,
+        200,
+        3
+      )
+    );
+    expect(pixels.height).toBe(600);
+    for (let frame = 0; frame < 3; frame++) {
+      expect(alphaAt(pixels, 10, frame * 200 + 10)).toBe(255);
+      expect(alphaAt(pixels, 10, frame * 200 + 100)).toBe(0);
+    }
+  });
+
+  it('should composite the watermark after resizing', async () => {
+    const inputPath = path.join(tempDir, 'photo.png');
+    const outputPath = path.join(tempDir, 'photo-branded.png');
+    await sharp({
+      create: { width: 800, height: 400, channels: 3, background: { r: 0, g: 0, b: 255 } },
+    })
+      .png()
+      .toFile(inputPath);
+
+    const result = await processImage(inputPath, outputPath, {
+      format: 'png',
+      width: 400,
+      watermark: { image: logoPath, scale: 0.25, margin: 10 },
+    });
+
+    expect(result.success).toBe(true);
+    const { data, info } = await sharp(outputPath).raw().toBuffer({ resolveWithObject: true });
+    expect(info.width).toBe(400);
+    const pixel = (x: number, y: number): number[] => {
+      const offset = (y * info.width + x) * info.channels;
+      return [data[offset], data[offset + 1], data[offset + 2]];
+    };
+    expect(pixel(340, 165)).toEqual([255, 0, 0]);
+    expect(pixel(10, 10)).toEqual([0, 0, 255]);
+  });
+});